@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+import { ExportBundler } from './ExportBundler';
+import { HTMLExporterFactory, TXTExporterFactory } from '../factories';
+import { ExportAbortedError } from '../errors';
+import type { ExportProgress } from '../interfaces';
+
+describe('ExportBundler', () => {
+    it('packs every document in every format under one name', async () => {
+        const bundler = new ExportBundler([new TXTExporterFactory(), new HTMLExporterFactory()]);
+        const result = await bundler.bundle([
+            { name: 'report', content: '# One' },
+            { name: 'report', content: '# Two' },
+        ]);
+        const zip = await JSZip.loadAsync(result.data);
+
+        expect(result.filename).toBe('documents.zip');
+        expect(Object.keys(zip.files).sort()).toEqual(['report-2.html', 'report-2.txt', 'report.html', 'report.txt']);
+    });
+
+    it('reports progress with the number of the file', async () => {
+        const progress: ExportProgress[] = [];
+        const bundler = new ExportBundler([new TXTExporterFactory(), new HTMLExporterFactory()]);
+
+        await bundler.bundle([{ content: 'a\n\nb' }], {}, undefined, { onProgress: update => progress.push(update) });
+
+        expect(progress.map(update => [update.file, update.totalFiles, update.blocks])).toEqual([[1, 2, 1], [1, 2, 2], [2, 2, 1], [2, 2, 2]]);
+    });
+
+    it('stops with ExportAbortedError once aborted', async () => {
+        const controller = new AbortController();
+        const onProgress = vi.fn(() => controller.abort());
+        const bundler = new ExportBundler([new TXTExporterFactory()]);
+
+        await expect(bundler.bundle([{ content: 'a\n\nb' }, { content: 'c' }], {}, undefined, { signal: controller.signal, onProgress }))
+            .rejects.toBeInstanceOf(ExportAbortedError);
+        expect(onProgress).toHaveBeenCalledTimes(1);
+    });
+});
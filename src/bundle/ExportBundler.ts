@@ -0,0 +1,143 @@
+import JSZip from 'jszip';
+import type { ExportControl, ExportDiagnostic, ExporterFactory, ExportOptions, ExportResult } from '../interfaces';
+import { ExportAbortedError, ExportError } from '../errors';
+import { documentFilename, sanitizeFilename } from '../options';
+import { parseFrontMatter, toDocumentMetadata } from '../parser';
+import { throwIfAborted } from '../utils';
+
+/**
+ * A Markdown document to be included in a bundle.
+ */
+export interface BundleDocument {
+    /**
+     * Base filename of the exported files, without extension. When not
+     * set, the name is derived from the front matter title.
+     */
+    name?: string;
+
+    /**
+     * Markdown formatted text.
+     */
+    content: string;
+}
+
+/**
+ * ExportBundler
+ * 
+ * Runs several ExporterFactory instances on the same documents and packs
+ * all generated files into a single ZIP archive. Every document keeps one
+ * base filename across formats (report.pdf, report.docx, report.txt);
+ * documents with the same name are numbered (report-2.pdf).
+ * 
+ * The bundle is returned as a regular ExportResult, so it is delivered
+ * through the same sinks as single exports. The diagnostics of all files
+ * are passed on, prefixed with the name of the file they belong to.
+ * Progress is reported per block of the file being exported, together
+ * with its number among all files of the bundle.
+ */
+export class ExportBundler {
+    /**
+     * @param factories - Factories of the formats to include
+     */
+    constructor(private readonly factories: ExporterFactory[]) {
+        if (factories.length === 0) {
+            throw new ExportError('INVALID_BUNDLE', 'A bundle needs at least one export format');
+        }
+    }
+
+    /**
+     * Exports every document in every format and zips the results.
+     * 
+     * @param documents - Markdown documents to export
+     * @param options - Export options applied to all documents (the filename is taken from each document)
+     * @param bundleName - Filename of the archive without extension; defaults to the document name for a single document
+     * @param control - Progress callback and abort signal
+     * @returns The generated ZIP archive
+     * @throws ExportError if there are no documents or an export fails
+     * @throws ExportAbortedError once the bundle is aborted
+     */
+    async bundle(documents: BundleDocument[], options: Partial<ExportOptions> = {}, bundleName?: string, control: ExportControl = {}): Promise<ExportResult> {
+        console.log('ExportBundler: Starting bundle export...');
+        
+        if (documents.length === 0) {
+            throw new ExportError('INVALID_BUNDLE', 'A bundle needs at least one document');
+        }
+
+        const zip = new JSZip();
+        const diagnostics: ExportDiagnostic[] = [];
+        const names = this.uniqueNames(documents);
+        const totalFiles = documents.length * this.factories.length;
+        let file = 0;
+
+        for (const [index, source] of documents.entries()) {
+            const name = names[index]!;
+            
+            for (const factory of this.factories) {
+                const number = ++file;
+                try {
+                    const exporter = factory.createExporter({ ...options, filename: name });
+                    const result = await exporter.export(source.content, {
+                        ...(control.signal ? { signal: control.signal } : {}),
+                        onProgress: progress => control.onProgress?.({ ...progress, file: number, totalFiles }),
+                    });
+                    zip.file(result.filename, result.data);
+                    (result.diagnostics ?? []).forEach(diagnostic =>
+                        diagnostics.push({ ...diagnostic, message: `${result.filename}: ${diagnostic.message}` }));
+                } catch (error) {
+                    if (error instanceof ExportAbortedError) {
+                        throw error;
+                    }
+                    const reason = error instanceof Error ? error.message : String(error);
+                    const code = error instanceof ExportError ? error.code : 'EXPORT_FAILED';
+                    throw new ExportError(code, `Failed to export "${name}" as ${factory.format.label}: ${reason}`, error);
+                }
+            }
+        }
+
+        throwIfAborted(control);
+        const data = await zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+        const filename = sanitizeFilename(bundleName ?? (documents.length === 1 ? names[0]! : 'documents')) || 'documents';
+        
+        console.log('ExportBundler: Export completed successfully');
+        return {
+            data: new Uint8Array(data),
+            mimeType: 'application/zip',
+            filename: `${filename}.zip`,
+            diagnostics,
+        };
+    }
+
+    /**
+     * Sanitizes the document names and numbers duplicates, so that no two
+     * documents write the same files.
+     * 
+     * @param documents - Documents of the bundle
+     * @returns Unique base filename per document
+     */
+    private uniqueNames(documents: BundleDocument[]): string[] {
+        const used = new Set<string>();
+        
+        return documents.map(source => {
+            const base = sanitizeFilename(source.name ?? '') || this.defaultName(source.content);
+            let name = base;
+            
+            for (let counter = 2; used.has(name.toLowerCase()); counter++) {
+                name = `${base}-${counter}`;
+            }
+            used.add(name.toLowerCase());
+            return name;
+        });
+    }
+
+    /**
+     * Derives a document name from its front matter title.
+     * 
+     * @param content - Markdown formatted text
+     * @returns Base filename without extension
+     */
+    private defaultName(content: string): string {
+        const frontMatter = parseFrontMatter(content.split(/\r?\n/));
+        const metadata = toDocumentMetadata(frontMatter?.data ?? {});
+        return documentFilename(null, metadata);
+    }
+}
@@ -0,0 +1,2 @@
+export { ExportBundler } from './ExportBundler';
+export type { BundleDocument } from './ExportBundler';
@@ -0,0 +1,123 @@
+import { readdir } from 'node:fs/promises';
+
+/**
+ * Characters that make a path segment a glob pattern.
+ */
+const MAGIC = /[*?[{]/;
+
+/**
+ * Checks whether a path contains glob syntax.
+ * 
+ * @param pattern - File path or glob pattern
+ * @returns true if the path has to be expanded
+ */
+export function hasMagic(pattern: string): boolean {
+    return MAGIC.test(pattern);
+}
+
+/**
+ * Expands a glob pattern to the matching files, sorted by path.
+ * Supports `*` and `?` within a path segment, `**` across segments,
+ * `[abc]` / `[!abc]` character classes and `{a,b}` alternatives.
+ * Hidden files and directories below the fixed part of the pattern are
+ * skipped.
+ * 
+ * @param pattern - Glob pattern with / (or \) as separator
+ * @returns Paths of all matching files
+ */
+export async function expandGlob(pattern: string): Promise<string[]> {
+    const normalized = pattern.replace(/\\/g, '/');
+    const segments = normalized.split('/');
+    const firstMagic = segments.findIndex(segment => hasMagic(segment));
+
+    if (firstMagic === -1) {
+        return [normalized];
+    }
+
+    const baseSegments = segments.slice(0, firstMagic);
+    const base = baseSegments.length === 0 ? '.' : baseSegments.join('/') || '/';
+    const maxDepth = segments.includes('**') ? Infinity : segments.length - firstMagic;
+    const matcher = globToRegExp(normalized);
+    const matches: string[] = [];
+
+    const walk = async (directory: string, prefix: string, depth: number): Promise<void> => {
+        let entries;
+        try {
+            entries = await readdir(directory, { withFileTypes: true });
+        } catch {
+            return;
+        }
+
+        for (const entry of entries) {
+            if (entry.name.startsWith('.')) {
+                continue;
+            }
+
+            const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+            
+            if (entry.isDirectory() && depth < maxDepth) {
+                await walk(`${directory}/${entry.name}`, path, depth + 1);
+            } else if (entry.isFile() && matcher.test(path)) {
+                matches.push(path);
+            }
+        }
+    };
+
+    await walk(base, base === '.' ? '' : base.replace(/\/$/, ''), 1);
+    return matches.sort();
+}
+
+/**
+ * Translates a glob pattern into an anchored regular expression.
+ * 
+ * @param pattern - Glob pattern with / as separator
+ * @returns Regular expression matching whole paths
+ */
+function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    let inGroup = false;
+
+    for (let index = 0; index < pattern.length; index++) {
+        const char = pattern[index]!;
+
+        if (char === '*' && pattern[index + 1] === '*') {
+            const atSegmentStart = index === 0 || pattern[index - 1] === '/';
+            const slash = pattern[index + 2] === '/';
+            
+            if (atSegmentStart && slash) {
+                // "**/" matches zero or more directories
+                source += '(?:[^/]+/)*';
+                index += 2;
+            } else {
+                source += '.*';
+                index += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = pattern.indexOf(']', index + 2);
+            
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                const body = pattern.substring(index + 1, end);
+                source += `[${body.replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+                index = end;
+            }
+        } else if (char === '{' && !inGroup) {
+            source += '(?:';
+            inGroup = true;
+        } else if (char === '}' && inGroup) {
+            source += ')';
+            inGroup = false;
+        } else if (char === ',' && inGroup) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|\\\]{}]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
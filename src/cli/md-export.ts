@@ -0,0 +1,503 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+import { readFile } from 'node:fs/promises';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import type { DocumentTheme, ExporterFactory, ExportOptions, ExportResult, FontFamily, PageOrientation, PageSize } from '../interfaces';
+import { exporterRegistry, UnknownFormatError } from '../registry';
+import { LATEX_DOCUMENT_CLASS, PAGE_SIZES, sanitizeFilename } from '../options';
+import { BUILT_IN_THEMES, findBuiltInTheme, parseTheme } from '../themes';
+import { formatDiagnostic } from '../utils';
+import { MailMerge, parseMergeData } from '../merge';
+import type { MergeRecord } from '../merge';
+// Imported directly: the sinks index also loads the browser-only download sink
+import { FileSystemSink } from '../sinks/FileSystemSink';
+import { expandGlob, hasMagic } from './glob';
+
+/**
+ * md-export - Headless Command-Line Exporter
+ * 
+ * Converts Markdown files to any registered export format without a
+ * browser. This is another Client of the Factory Method pattern: it looks
+ * up the ExporterFactory in the exporter registry, creates the exporter
+ * through the factory method and writes the result to disk or stdout.
+ * 
+ * Exit codes:
+ * - 0 when all inputs were exported
+ * - 1 when at least one input failed
+ * - 2 on invalid usage
+ */
+
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const ORIENTATIONS: PageOrientation[] = ['portrait', 'landscape'];
+const FONT_FAMILIES: FontFamily[] = ['sans-serif', 'serif', 'monospace'];
+
+const USAGE = `Usage: md-export [options] [input...]
+
+Converts Markdown files to PDF, DOCX, TXT, HTML, EPUB or LaTeX.
+Inputs may be files, glob patterns (quote them: "docs/**/*.md") or - for stdin.
+Without inputs, Markdown is read from stdin.
+
+Options:
+  -f, --format <id>        Output format (default: derived from --output)
+  -o, --output <file>      Output file for a single input, - for stdout
+  -d, --out-dir <dir>      Output directory (default: next to each input)
+      --page-size <size>   ${Object.keys(PAGE_SIZES).join(', ')}
+      --orientation <o>    ${ORIENTATIONS.join(', ')}
+      --margin <mm>        Page margins on all sides
+      --header <template>  Page header, e.g. "{title}|{date}"
+      --footer <template>  Page footer, e.g. "Page {page} of {pages}"
+      --omit-first-page    No header or footer on the first page
+      --theme <theme>      ${BUILT_IN_THEMES.map(theme => theme.name).join(', ')} or a theme .json file
+      --font <family>      ${FONT_FAMILIES.join(', ')} (default: from the theme)
+      --font-size <pt>     Base font size (default: from the theme)
+      --line-spacing <n>   Line spacing multiple (default: from the theme)
+      --toc                Add a table of contents
+      --document-class <c> LaTeX document class (default: article)
+      --preamble <file>    File with LaTeX preamble lines
+      --data <file>        Mail merge: CSV or JSON data, one document per record,
+                           written as a ZIP archive per input
+      --name <template>    Mail merge filenames, e.g. "{{lastName}}-offer"
+      --list-formats       List available formats and exit
+  -v, --verbose            Log exporter progress and all diagnostics to stderr
+  -h, --help               Show this help and exit
+
+Output from stdin is written to stdout unless --output or --out-dir is given.`;
+
+/**
+ * Thrown for invalid command-line usage (exit code 2).
+ */
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+/**
+ * A Markdown source: a file, or stdin when path is null.
+ */
+interface Input {
+    path: string | null;
+}
+
+/**
+ * Runs the CLI.
+ * 
+ * @param argv - Command-line arguments without node and script path
+ * @returns Process exit code
+ */
+async function main(argv: string[]): Promise<number> {
+    let args;
+    try {
+        args = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                'format': { type: 'string', short: 'f' },
+                'output': { type: 'string', short: 'o' },
+                'out-dir': { type: 'string', short: 'd' },
+                'page-size': { type: 'string' },
+                'orientation': { type: 'string' },
+                'margin': { type: 'string' },
+                'header': { type: 'string' },
+                'footer': { type: 'string' },
+                'omit-first-page': { type: 'boolean' },
+                'theme': { type: 'string' },
+                'font': { type: 'string' },
+                'font-size': { type: 'string' },
+                'line-spacing': { type: 'string' },
+                'toc': { type: 'boolean' },
+                'document-class': { type: 'string' },
+                'preamble': { type: 'string' },
+                'data': { type: 'string' },
+                'name': { type: 'string' },
+                'list-formats': { type: 'boolean' },
+                'verbose': { type: 'boolean', short: 'v' },
+                'help': { type: 'boolean', short: 'h' },
+            },
+        });
+    } catch (error) {
+        return usageError(error instanceof Error ? error.message : String(error));
+    }
+
+    const { values, positionals } = args;
+
+    // Exporters log their progress with console.log; keep stdout free for output data
+    console.log = values.verbose ? console.error : () => {};
+    // Export warnings are printed per input from the result
+    console.warn = values.verbose ? console.error : () => {};
+
+    if (values.help) {
+        process.stdout.write(`${USAGE}\n`);
+        return EXIT_SUCCESS;
+    }
+    if (values['list-formats']) {
+        exporterRegistry.formats().forEach(format => {
+            process.stdout.write(`${format.id.padEnd(8)}${format.label} (.${format.extension})\n`);
+        });
+        return EXIT_SUCCESS;
+    }
+
+    let factory: ExporterFactory;
+    let options: Partial<ExportOptions>;
+    let inputs: Input[];
+    let records: MergeRecord[] | null = null;
+    try {
+        factory = resolveFactory(values.format, values.output);
+        options = readOptions(values);
+        if (values.theme !== undefined) {
+            options.theme = await loadTheme(values.theme);
+        }
+        if (values.preamble !== undefined) {
+            options.latexPreamble = await loadPreamble(values.preamble);
+        }
+        if (values.data !== undefined) {
+            records = await loadMergeData(values.data);
+        } else if (values.name !== undefined) {
+            throw new UsageError('--name can only be used with --data');
+        }
+        inputs = await resolveInputs(positionals);
+
+        if (values.output !== undefined && inputs.length > 1) {
+            throw new UsageError('--output can only be used with a single input; use --out-dir instead');
+        }
+        if (values['out-dir'] !== undefined) {
+            checkOutputCollisions(inputs, values['out-dir'], records === null ? factory.format.extension : 'zip');
+        }
+    } catch (error) {
+        if (error instanceof UsageError || error instanceof UnknownFormatError) {
+            return usageError(error.message);
+        }
+        throw error;
+    }
+
+    let failures = 0;
+
+    for (const input of inputs) {
+        const name = input.path ?? '<stdin>';
+        try {
+            const content = input.path === null ? await readStdin() : await readFile(input.path, 'utf8');
+            const filename = input.path === null ? undefined : basename(input.path, extname(input.path));
+            const result = records === null
+                ? await factory.createExporter(filename === undefined ? options : { ...options, filename }).export(content)
+                : await new MailMerge(factory).merge(content, records, options, {
+                    ...(values.name !== undefined ? { filenameTemplate: values.name } : {}),
+                    ...(filename !== undefined ? { bundleName: filename } : {}),
+                });
+
+            result.diagnostics
+                ?.filter(diagnostic => diagnostic.severity === 'warning' || values.verbose)
+                .forEach(diagnostic => process.stderr.write(`md-export: ${name}: ${diagnostic.severity}: ${formatDiagnostic(diagnostic)}\n`));
+            await writeResult(result, input, values.output, values['out-dir']);
+        } catch (error) {
+            failures++;
+            process.stderr.write(`md-export: ${name}: ${error instanceof Error ? error.message : String(error)}\n`);
+        }
+    }
+
+    return failures > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+}
+
+/**
+ * Finds the factory for the requested format, or for the extension of the
+ * output file when no format is given.
+ * 
+ * @param format - Value of --format
+ * @param output - Value of --output
+ * @returns The ExporterFactory to create exporters with
+ * @throws UnknownFormatError if the format is not registered
+ * @throws UsageError if no format can be determined
+ */
+function resolveFactory(format: string | undefined, output: string | undefined): ExporterFactory {
+    if (format !== undefined) {
+        return exporterRegistry.get(format);
+    }
+
+    const extension = output && output !== '-' ? extname(output).substring(1).toLowerCase() : '';
+    const match = exporterRegistry.formats().find(candidate => candidate.extension === extension);
+
+    if (!match) {
+        throw new UsageError('Missing --format (it cannot be derived from the output filename)');
+    }
+    return exporterRegistry.get(match.id);
+}
+
+/**
+ * Builds export options from the command-line flags.
+ * 
+ * @param values - Parsed flag values
+ * @returns Export options given on the command line
+ * @throws UsageError for invalid option values
+ */
+function readOptions(values: Record<string, string | boolean | undefined>): Partial<ExportOptions> {
+    const options: Partial<ExportOptions> = {};
+    const text = (name: string): string | undefined => {
+        const value = values[name];
+        return typeof value === 'string' ? value : undefined;
+    };
+    const number = (name: string): number | undefined => {
+        const value = text(name);
+        if (value === undefined) {
+            return undefined;
+        }
+        const parsed = Number(value);
+        if (value.trim() === '' || !Number.isFinite(parsed)) {
+            throw new UsageError(`--${name} expects a number, got "${value}"`);
+        }
+        return parsed;
+    };
+    const choice = <T extends string>(name: string, allowed: readonly T[]): T | undefined => {
+        const value = text(name);
+        if (value !== undefined && !allowed.includes(value as T)) {
+            throw new UsageError(`--${name} must be one of ${allowed.join(', ')}, got "${value}"`);
+        }
+        return value as T | undefined;
+    };
+
+    const pageSize = choice('page-size', Object.keys(PAGE_SIZES) as PageSize[]);
+    const orientation = choice('orientation', ORIENTATIONS);
+    const fontFamily = choice('font', FONT_FAMILIES);
+    const margin = number('margin');
+    const fontSize = number('font-size');
+    const lineSpacing = number('line-spacing');
+    const header = text('header');
+    const footer = text('footer');
+    const documentClass = text('document-class');
+
+    if (pageSize !== undefined) {
+        options.pageSize = pageSize;
+    }
+    if (orientation !== undefined) {
+        options.orientation = orientation;
+    }
+    if (fontFamily !== undefined) {
+        options.fontFamily = fontFamily;
+    }
+    if (margin !== undefined) {
+        options.margins = { top: margin, right: margin, bottom: margin, left: margin };
+    }
+    if (fontSize !== undefined) {
+        options.fontSize = fontSize;
+    }
+    if (lineSpacing !== undefined) {
+        options.lineSpacing = lineSpacing;
+    }
+    if (values['toc']) {
+        options.tableOfContents = true;
+    }
+    if (header !== undefined) {
+        options.header = header;
+    }
+    if (footer !== undefined) {
+        options.footer = footer;
+    }
+    if (values['omit-first-page']) {
+        options.omitFirstPageHeaderFooter = true;
+    }
+    if (documentClass !== undefined) {
+        if (!LATEX_DOCUMENT_CLASS.test(documentClass)) {
+            throw new UsageError(`--document-class expects a LaTeX class name, got "${documentClass}"`);
+        }
+        options.latexDocumentClass = documentClass;
+    }
+
+    return options;
+}
+
+/**
+ * Loads the theme given with --theme: a built-in theme by name, or a
+ * theme definition from a JSON file.
+ * 
+ * @param theme - Value of --theme
+ * @returns The theme
+ * @throws UsageError if there is no such theme or the file is not a valid theme
+ */
+async function loadTheme(theme: string): Promise<DocumentTheme> {
+    const builtIn = findBuiltInTheme(theme);
+
+    if (builtIn) {
+        return builtIn;
+    }
+    if (extname(theme).toLowerCase() !== '.json') {
+        const names = BUILT_IN_THEMES.map(candidate => candidate.name).join(', ');
+        throw new UsageError(`--theme must be one of ${names} or a .json file, got "${theme}"`);
+    }
+
+    try {
+        return parseTheme(await readFile(theme, 'utf8'));
+    } catch (error) {
+        throw new UsageError(`${theme}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Reads the LaTeX preamble file given with --preamble.
+ * 
+ * @param path - Value of --preamble
+ * @returns The preamble lines
+ * @throws UsageError if the file cannot be read
+ */
+async function loadPreamble(path: string): Promise<string> {
+    try {
+        return await readFile(path, 'utf8');
+    } catch (error) {
+        throw new UsageError(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Reads the mail merge data set given with --data.
+ * 
+ * @param path - Value of --data
+ * @returns The records
+ * @throws UsageError if the file cannot be read or is not valid CSV or JSON
+ */
+async function loadMergeData(path: string): Promise<MergeRecord[]> {
+    try {
+        return parseMergeData(await readFile(path, 'utf8'), path);
+    } catch (error) {
+        throw new UsageError(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Expands the positional arguments into inputs. Glob patterns are expanded,
+ * "-" stands for stdin; without arguments stdin is read if it is piped.
+ * 
+ * @param patterns - Positional arguments
+ * @returns Inputs in command-line order
+ * @throws UsageError if there is nothing to read or a pattern matches no files
+ */
+async function resolveInputs(patterns: string[]): Promise<Input[]> {
+    if (patterns.length === 0) {
+        if (process.stdin.isTTY) {
+            throw new UsageError('No input files given');
+        }
+        return [{ path: null }];
+    }
+
+    const inputs: Input[] = [];
+
+    for (const pattern of patterns) {
+        if (pattern === '-') {
+            inputs.push({ path: null });
+        } else if (hasMagic(pattern)) {
+            const matches = await expandGlob(pattern);
+            if (matches.length === 0) {
+                throw new UsageError(`No files match "${pattern}"`);
+            }
+            inputs.push(...matches.map(path => ({ path })));
+        } else {
+            inputs.push({ path: pattern });
+        }
+    }
+
+    if (inputs.filter(input => input.path === null).length > 1) {
+        throw new UsageError('stdin can only be read once');
+    }
+    return inputs;
+}
+
+/**
+ * Makes sure no two inputs are written to the same file of the output
+ * directory, as inputs with the same name from different directories
+ * (e.g. "a/readme.md" and "b/readme.md" from a glob) would be.
+ * 
+ * @param inputs - Inputs to export
+ * @param outDir - Value of --out-dir
+ * @param extension - Extension of the output files
+ * @throws UsageError if two inputs have the same output file
+ */
+function checkOutputCollisions(inputs: Input[], outDir: string, extension: string): void {
+    const written = new Map<string, string>();
+
+    for (const { path } of inputs) {
+        // Stdin and unnamed files are named after their title, which is only known after the export
+        const name = path === null ? '' : sanitizeFilename(basename(path, extname(path)));
+        if (path === null || name === '') {
+            continue;
+        }
+
+        const previous = written.get(name);
+        if (previous === undefined || resolve(previous) === resolve(path)) {
+            written.set(name, path);
+            continue;
+        }
+        throw new UsageError(`${previous} and ${path} would both be written to ${join(outDir, `${name}.${extension}`)}; export them separately`);
+    }
+}
+
+/**
+ * Writes an export result to its destination:
+ * - --output -, or stdin input without --output/--out-dir: stdout
+ * - --output <file>: that file
+ * - otherwise: the output directory (or the input's directory) under the result's filename
+ * 
+ * @param result - Generated file
+ * @param input - Input the result was generated from
+ * @param output - Value of --output
+ * @param outDir - Value of --out-dir
+ */
+async function writeResult(result: ExportResult, input: Input, output: string | undefined, outDir: string | undefined): Promise<void> {
+    if (output === '-' || (output === undefined && outDir === undefined && input.path === null)) {
+        await writeStdout(result.data);
+        return;
+    }
+
+    if (output !== undefined) {
+        await new FileSystemSink(dirname(output)).deliver({ ...result, filename: basename(output) });
+        return;
+    }
+
+    const directory = outDir ?? dirname(input.path ?? '.');
+    await new FileSystemSink(directory).deliver(result);
+    process.stderr.write(`md-export: wrote ${join(directory, result.filename)}\n`);
+}
+
+/**
+ * Reads all of stdin as UTF-8 text.
+ * 
+ * @returns Content of stdin
+ */
+async function readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Writes bytes to stdout and waits until they are flushed.
+ * 
+ * @param data - Bytes to write
+ */
+function writeStdout(data: Uint8Array): Promise<void> {
+    return new Promise((resolve, reject) => {
+        process.stdout.write(data, error => (error ? reject(error) : resolve()));
+    });
+}
+
+/**
+ * Prints a usage error.
+ * 
+ * @param message - Error message
+ * @returns Exit code for usage errors
+ */
+function usageError(message: string): number {
+    process.stderr.write(`md-export: ${message}\nTry "md-export --help" for more information.\n`);
+    return EXIT_USAGE;
+}
+
+main(process.argv.slice(2)).then(
+    code => {
+        process.exitCode = code;
+    },
+    error => {
+        process.stderr.write(`md-export: ${error instanceof Error ? error.stack ?? error.message : String(error)}\n`);
+        process.exitCode = EXIT_FAILURE;
+    },
+);
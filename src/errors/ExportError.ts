@@ -0,0 +1,151 @@
+/**
+ * Error codes of the export pipeline. Clients can branch on the code
+ * instead of parsing messages, also after an error crossed the worker
+ * boundary.
+ */
+export type ExportErrorCode =
+    | 'UNKNOWN_FORMAT'
+    | 'DUPLICATE_FORMAT'
+    | 'INVALID_BUNDLE'
+    | 'INVALID_THEME'
+    | 'INVALID_TEMPLATE'
+    | 'INVALID_MERGE_DATA'
+    | 'EXPORT_FAILED'
+    | 'ABORTED'
+    | 'WORKER_FAILED';
+
+/**
+ * An ExportError as plain data, e.g. for posting it from a worker.
+ */
+export interface SerializedExportError {
+    name: string;
+    code: ExportErrorCode;
+    message: string;
+}
+
+/**
+ * ExportError
+ * 
+ * Base class of all errors raised while exporting. Each subclass stands
+ * for one kind of failure and carries an error code.
+ */
+export class ExportError extends Error {
+    /**
+     * @param code - Kind of failure
+     * @param message - Human-readable description
+     * @param cause - Underlying error, if any
+     */
+    constructor(readonly code: ExportErrorCode, message: string, readonly cause: unknown = null) {
+        super(message);
+        this.name = 'ExportError';
+    }
+
+    /**
+     * Converts the error into plain data.
+     * 
+     * @returns Name, code and message of the error
+     */
+    toJSON(): SerializedExportError {
+        return { name: this.name, code: this.code, message: this.message };
+    }
+}
+
+/**
+ * Thrown when a format id is looked up that no factory is registered for.
+ */
+export class UnknownFormatError extends ExportError {
+    constructor(readonly formatId: string, readonly knownFormats: string[]) {
+        super('UNKNOWN_FORMAT', `Unknown export format "${formatId}". Available formats: ${knownFormats.join(', ') || 'none'}`);
+        this.name = 'UnknownFormatError';
+    }
+}
+
+/**
+ * Thrown when a second factory is registered for an already used format id.
+ */
+export class DuplicateFormatError extends ExportError {
+    constructor(readonly formatId: string) {
+        super('DUPLICATE_FORMAT', `A factory for format "${formatId}" is already registered`);
+        this.name = 'DuplicateFormatError';
+    }
+}
+
+/**
+ * Thrown when a theme definition is not valid JSON or does not match the
+ * DocumentTheme structure.
+ */
+export class InvalidThemeError extends ExportError {
+    constructor(message: string) {
+        super('INVALID_THEME', `Invalid theme: ${message}`);
+        this.name = 'InvalidThemeError';
+    }
+}
+
+/**
+ * Thrown when a mail merge template has a malformed tag or an unclosed
+ * block.
+ */
+export class InvalidTemplateError extends ExportError {
+    constructor(message: string) {
+        super('INVALID_TEMPLATE', `Invalid template: ${message}`);
+        this.name = 'InvalidTemplateError';
+    }
+}
+
+/**
+ * Thrown when the data set of a mail merge is not valid CSV or JSON, or
+ * has no records.
+ */
+export class InvalidMergeDataError extends ExportError {
+    constructor(message: string) {
+        super('INVALID_MERGE_DATA', `Invalid merge data: ${message}`);
+        this.name = 'InvalidMergeDataError';
+    }
+}
+
+/**
+ * Thrown when an exporter or the library it uses (jsPDF, docx, JSZip)
+ * fails. The original error is kept as cause.
+ */
+export class ExportFailedError extends ExportError {
+    constructor(readonly format: string, cause: unknown) {
+        super('EXPORT_FAILED', `${format} export failed: ${cause instanceof Error ? cause.message : String(cause)}`, cause);
+        this.name = 'ExportFailedError';
+    }
+}
+
+/**
+ * Thrown when an export is cancelled through its AbortSignal.
+ */
+export class ExportAbortedError extends ExportError {
+    constructor() {
+        super('ABORTED', 'The export was cancelled');
+        this.name = 'ExportAbortedError';
+    }
+}
+
+/**
+ * Converts anything thrown during an export into an ExportError.
+ * ExportErrors are passed through; everything else is wrapped into an
+ * ExportFailedError of the format.
+ * 
+ * @param error - Thrown value
+ * @param format - Label of the format being exported
+ * @returns An ExportError
+ */
+export function toExportError(error: unknown, format: string): ExportError {
+    return error instanceof ExportError ? error : new ExportFailedError(format, error);
+}
+
+/**
+ * Recreates an ExportError from plain data. The subclass is not restored,
+ * but name, code and message are.
+ * 
+ * @param data - Serialized error
+ * @returns An ExportError with the same name, code and message
+ */
+export function restoreExportError(data: SerializedExportError): ExportError {
+    const error = data.code === 'ABORTED' ? new ExportAbortedError() : new ExportError(data.code, data.message);
+    error.name = data.name;
+    return error;
+}
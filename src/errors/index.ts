@@ -0,0 +1,6 @@
+export {
+    ExportError, UnknownFormatError, DuplicateFormatError, InvalidThemeError, InvalidTemplateError, InvalidMergeDataError,
+    ExportFailedError, ExportAbortedError,
+    toExportError, restoreExportError,
+} from './ExportError';
+export type { ExportErrorCode, SerializedExportError } from './ExportError';
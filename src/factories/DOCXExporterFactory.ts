@@ -1,5 +1,5 @@
-import type { ExporterFactory } from '../interfaces';
-import { DOCXExporter } from '../products';
+import type { ExporterFactory, ExportFormat, ExportOptions } from '../interfaces';
+import { DOCXExporter, DOCX_MIME_TYPE } from '../products';
 
 /**
  * Concrete Creator - DOCXExporterFactory
@@ -12,6 +12,17 @@ import { DOCXExporter } from '../products';
  * product to create, decoupling the client from the specific product class.
  */
 export class DOCXExporterFactory implements ExporterFactory {
+    /**
+     * Format metadata used by the ExporterRegistry and the UI.
+     */
+    readonly format: ExportFormat = {
+        id: 'docx',
+        label: 'Word Document',
+        extension: 'docx',
+        mimeType: DOCX_MIME_TYPE,
+        capabilities: { richText: true, binary: true, pageLayout: true, typography: true },
+    };
+
     /**
      * Factory Method Implementation - Creates DOCXExporter instance.
      * 
@@ -19,10 +30,11 @@ export class DOCXExporterFactory implements ExporterFactory {
      * to instantiate. By overriding this method, we define that this factory
      * creates DOCX exporters specifically.
      * 
+     * @param options - Export options passed on to the exporter
      * @returns A new DOCXExporter instance
      */
-    createExporter() {
+    createExporter(options: Partial<ExportOptions> = {}) {
         console.log('DOCXExporterFactory: Creating DOCX exporter...');
-        return new DOCXExporter();
+        return new DOCXExporter(options);
     }
 }
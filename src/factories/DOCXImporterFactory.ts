@@ -0,0 +1,31 @@
+import type { ImporterFactory, ImportFormat } from '../interfaces';
+import { DOCXImporter } from '../products';
+
+/**
+ * Concrete Creator - DOCXImporterFactory
+ * 
+ * This class is a "Concrete Creator" of the importer family.
+ * It implements the factory method (createImporter) to instantiate
+ * and return a DOCXImporter product.
+ */
+export class DOCXImporterFactory implements ImporterFactory {
+    /**
+     * Format metadata used by the ImporterRegistry and the UI.
+     */
+    readonly format: ImportFormat = {
+        id: 'docx',
+        label: 'Word Document',
+        extensions: ['docx'],
+        mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    };
+
+    /**
+     * Factory Method Implementation - Creates DOCXImporter instance.
+     * 
+     * @returns A new DOCXImporter instance
+     */
+    createImporter() {
+        console.log('DOCXImporterFactory: Creating DOCX importer...');
+        return new DOCXImporter();
+    }
+}
@@ -0,0 +1,40 @@
+import type { ExporterFactory, ExportFormat, ExportOptions } from '../interfaces';
+import { EPUBExporter, EPUB_MIME_TYPE } from '../products';
+
+/**
+ * Concrete Creator - EPUBExporterFactory
+ * 
+ * This class is a "Concrete Creator" in the Factory Method pattern.
+ * It implements the factory method (createExporter) to instantiate
+ * and return an EPUBExporter product.
+ * 
+ * The Factory Method pattern allows this class to decide which concrete
+ * product to create, decoupling the client from the specific product class.
+ */
+export class EPUBExporterFactory implements ExporterFactory {
+    /**
+     * Format metadata used by the ExporterRegistry and the UI.
+     */
+    readonly format: ExportFormat = {
+        id: 'epub',
+        label: 'EPUB E-Book',
+        extension: 'epub',
+        mimeType: EPUB_MIME_TYPE,
+        capabilities: { richText: true, binary: true, pageLayout: false, typography: true },
+    };
+
+    /**
+     * Factory Method Implementation - Creates EPUBExporter instance.
+     * 
+     * This is the core Factory Method that decides which concrete product
+     * to instantiate. By overriding this method, we define that this factory
+     * creates EPUB exporters specifically.
+     * 
+     * @param options - Export options passed on to the exporter
+     * @returns A new EPUBExporter instance
+     */
+    createExporter(options: Partial<ExportOptions> = {}) {
+        console.log('EPUBExporterFactory: Creating EPUB exporter...');
+        return new EPUBExporter(options);
+    }
+}
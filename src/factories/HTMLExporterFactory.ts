@@ -0,0 +1,40 @@
+import type { ExporterFactory, ExportFormat, ExportOptions } from '../interfaces';
+import { HTMLExporter, HTML_MIME_TYPE } from '../products';
+
+/**
+ * Concrete Creator - HTMLExporterFactory
+ * 
+ * This class is a "Concrete Creator" in the Factory Method pattern.
+ * It implements the factory method (createExporter) to instantiate
+ * and return an HTMLExporter product.
+ * 
+ * The Factory Method pattern allows this class to decide which concrete
+ * product to create, decoupling the client from the specific product class.
+ */
+export class HTMLExporterFactory implements ExporterFactory {
+    /**
+     * Format metadata used by the ExporterRegistry and the UI.
+     */
+    readonly format: ExportFormat = {
+        id: 'html',
+        label: 'HTML Document',
+        extension: 'html',
+        mimeType: HTML_MIME_TYPE,
+        capabilities: { richText: true, binary: false, pageLayout: true, typography: true },
+    };
+
+    /**
+     * Factory Method Implementation - Creates HTMLExporter instance.
+     * 
+     * This is the core Factory Method that decides which concrete product
+     * to instantiate. By overriding this method, we define that this factory
+     * creates HTML exporters specifically.
+     * 
+     * @param options - Export options passed on to the exporter
+     * @returns A new HTMLExporter instance
+     */
+    createExporter(options: Partial<ExportOptions> = {}) {
+        console.log('HTMLExporterFactory: Creating HTML exporter...');
+        return new HTMLExporter(options);
+    }
+}
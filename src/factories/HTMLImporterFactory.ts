@@ -0,0 +1,31 @@
+import type { ImporterFactory, ImportFormat } from '../interfaces';
+import { HTMLImporter } from '../products';
+
+/**
+ * Concrete Creator - HTMLImporterFactory
+ * 
+ * This class is a "Concrete Creator" of the importer family.
+ * It implements the factory method (createImporter) to instantiate
+ * and return an HTMLImporter product.
+ */
+export class HTMLImporterFactory implements ImporterFactory {
+    /**
+     * Format metadata used by the ImporterRegistry and the UI.
+     */
+    readonly format: ImportFormat = {
+        id: 'html',
+        label: 'HTML Document',
+        extensions: ['html', 'htm'],
+        mimeTypes: ['text/html'],
+    };
+
+    /**
+     * Factory Method Implementation - Creates HTMLImporter instance.
+     * 
+     * @returns A new HTMLImporter instance
+     */
+    createImporter() {
+        console.log('HTMLImporterFactory: Creating HTML importer...');
+        return new HTMLImporter();
+    }
+}
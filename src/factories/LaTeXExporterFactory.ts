@@ -0,0 +1,40 @@
+import type { ExporterFactory, ExportFormat, ExportOptions } from '../interfaces';
+import { LaTeXExporter, LATEX_MIME_TYPE } from '../products';
+
+/**
+ * Concrete Creator - LaTeXExporterFactory
+ * 
+ * This class is a "Concrete Creator" in the Factory Method pattern.
+ * It implements the factory method (createExporter) to instantiate
+ * and return a LaTeXExporter product.
+ * 
+ * The Factory Method pattern allows this class to decide which concrete
+ * product to create, decoupling the client from the specific product class.
+ */
+export class LaTeXExporterFactory implements ExporterFactory {
+    /**
+     * Format metadata used by the ExporterRegistry and the UI.
+     */
+    readonly format: ExportFormat = {
+        id: 'latex',
+        label: 'LaTeX Source',
+        extension: 'tex',
+        mimeType: LATEX_MIME_TYPE,
+        capabilities: { richText: true, binary: false, pageLayout: true, typography: false },
+    };
+
+    /**
+     * Factory Method Implementation - Creates LaTeXExporter instance.
+     * 
+     * This is the core Factory Method that decides which concrete product
+     * to instantiate. By overriding this method, we define that this factory
+     * creates LaTeX exporters specifically.
+     * 
+     * @param options - Export options passed on to the exporter
+     * @returns A new LaTeXExporter instance
+     */
+    createExporter(options: Partial<ExportOptions> = {}) {
+        console.log('LaTeXExporterFactory: Creating LaTeX exporter...');
+        return new LaTeXExporter(options);
+    }
+}
@@ -1,5 +1,5 @@
-import type { ExporterFactory } from '../interfaces';
-import { PDFExporter } from '../products';
+import type { ExporterFactory, ExportFormat, ExportOptions } from '../interfaces';
+import { PDFExporter, PDF_MIME_TYPE } from '../products';
 
 /**
  * Concrete Creator - PDFExporterFactory
@@ -12,6 +12,17 @@ import { PDFExporter } from '../products';
  * product to create, decoupling the client from the specific product class.
  */
 export class PDFExporterFactory implements ExporterFactory {
+    /**
+     * Format metadata used by the ExporterRegistry and the UI.
+     */
+    readonly format: ExportFormat = {
+        id: 'pdf',
+        label: 'PDF Document',
+        extension: 'pdf',
+        mimeType: PDF_MIME_TYPE,
+        capabilities: { richText: true, binary: true, pageLayout: true, typography: true },
+    };
+
     /**
      * Factory Method Implementation - Creates PDFExporter instance.
      * 
@@ -19,10 +30,11 @@ export class PDFExporterFactory implements ExporterFactory {
      * to instantiate. By overriding this method, we define that this factory
      * creates PDF exporters specifically.
      * 
+     * @param options - Export options passed on to the exporter
      * @returns A new PDFExporter instance
      */
-    createExporter() {
+    createExporter(options: Partial<ExportOptions> = {}) {
         console.log('PDFExporterFactory: Creating PDF exporter...');
-        return new PDFExporter();
+        return new PDFExporter(options);
     }
 }
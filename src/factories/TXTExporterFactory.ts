@@ -1,5 +1,5 @@
-import type { ExporterFactory } from '../interfaces';
-import { TXTExporter } from '../products';
+import type { ExporterFactory, ExportFormat, ExportOptions } from '../interfaces';
+import { TXTExporter, TXT_MIME_TYPE } from '../products';
 
 /**
  * Concrete Creator - TXTExporterFactory
@@ -12,6 +12,17 @@ import { TXTExporter } from '../products';
  * product to create, decoupling the client from the specific product class.
  */
 export class TXTExporterFactory implements ExporterFactory {
+    /**
+     * Format metadata used by the ExporterRegistry and the UI.
+     */
+    readonly format: ExportFormat = {
+        id: 'txt',
+        label: 'Plain Text',
+        extension: 'txt',
+        mimeType: TXT_MIME_TYPE,
+        capabilities: { richText: false, binary: false, pageLayout: false, typography: false },
+    };
+
     /**
      * Factory Method Implementation - Creates TXTExporter instance.
      * 
@@ -19,10 +30,11 @@ export class TXTExporterFactory implements ExporterFactory {
      * to instantiate. By overriding this method, we define that this factory
      * creates TXT exporters specifically.
      * 
+     * @param options - Export options passed on to the exporter
      * @returns A new TXTExporter instance
      */
-    createExporter() {
+    createExporter(options: Partial<ExportOptions> = {}) {
         console.log('TXTExporterFactory: Creating TXT exporter...');
-        return new TXTExporter();
+        return new TXTExporter(options);
     }
 }
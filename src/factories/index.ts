@@ -1,3 +1,8 @@
 export { PDFExporterFactory } from './PDFExporterFactory';
 export { TXTExporterFactory } from './TXTExporterFactory';
 export { DOCXExporterFactory } from './DOCXExporterFactory';
+export { HTMLExporterFactory } from './HTMLExporterFactory';
+export { EPUBExporterFactory } from './EPUBExporterFactory';
+export { LaTeXExporterFactory } from './LaTeXExporterFactory';
+export { DOCXImporterFactory } from './DOCXImporterFactory';
+export { HTMLImporterFactory } from './HTMLImporterFactory';
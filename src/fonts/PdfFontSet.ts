@@ -0,0 +1,422 @@
+import type { jsPDF } from 'jspdf';
+import { decodeBase64 } from '../utils';
+import { readCharacterMap } from './cmap';
+
+/**
+ * jsPDF font styles.
+ */
+export type PdfFontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+/**
+ * Loader of a TrueType font file, as bytes or base64 encoded.
+ */
+export type PdfFontLoader = () => Promise<Uint8Array | string>;
+
+/**
+ * A TrueType font family for PDF export. Each style loads its font file
+ * on first use; styles without a file use the normal one.
+ */
+export interface PdfFontFace {
+    name: string;
+    styles: { normal: PdfFontLoader } & Partial<Record<PdfFontStyle, PdfFontLoader>>;
+}
+
+/**
+ * Text that is drawn in a font, for loading the fonts it needs before layout.
+ */
+export interface PdfFontText {
+    font: string;
+    style: PdfFontStyle;
+    text: string;
+}
+
+/**
+ * A loaded font file and the characters it has glyphs for.
+ */
+interface LoadedFont {
+    /**
+     * Base64 encoded font file.
+     */
+    data: string;
+    codePoints: Set<number>;
+}
+
+/**
+ * A font of a fallback chain.
+ */
+interface FontChoice {
+    name: string;
+    style: PdfFontStyle;
+
+    /**
+     * Loader of the font file; null for the standard PDF fonts.
+     */
+    load: PdfFontLoader | null;
+}
+
+/**
+ * A piece of text drawn in a single font.
+ */
+interface TextSegment {
+    font: FontChoice;
+    text: string;
+}
+
+/**
+ * DejaVu Sans, shipped with the app (see fonts/dejavu/LICENSE). It covers
+ * Latin, Greek, Cyrillic, Armenian, Georgian, Hebrew, Arabic and many
+ * symbols, and is the fallback for all other fonts.
+ */
+export const DEJAVU_SANS: PdfFontFace = {
+    name: 'DejaVuSans',
+    styles: {
+        normal: () => readFontFile(new URL('./dejavu/DejaVuSans.ttf', import.meta.url)),
+        bold: () => readFontFile(new URL('./dejavu/DejaVuSans-Bold.ttf', import.meta.url)),
+        italic: () => readFontFile(new URL('./dejavu/DejaVuSans-Oblique.ttf', import.meta.url)),
+        bolditalic: () => readFontFile(new URL('./dejavu/DejaVuSans-BoldOblique.ttf', import.meta.url)),
+    },
+};
+
+/**
+ * Characters of the Windows ANSI encoding outside Latin-1, which the
+ * standard PDF fonts can draw as well.
+ */
+const WIN_ANSI_EXTRAS = new Set(
+    [...'€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ']
+        .map(char => char.codePointAt(0)!),
+);
+
+/**
+ * The standard PDF fonts built into jsPDF. They need no embedding but
+ * only cover the Windows ANSI character set.
+ */
+const STANDARD_FONTS = new Set(['helvetica', 'times', 'courier']);
+
+/**
+ * Fonts embedded into every PDF, in fallback order.
+ */
+const fallbackFaces: PdfFontFace[] = [DEJAVU_SANS];
+
+/**
+ * Font files loaded or being loaded, shared by all exports.
+ */
+const loadingFonts = new Map<PdfFontLoader, Promise<LoadedFont>>();
+
+/**
+ * Font files that finished loading, for the synchronous layout.
+ */
+const loadedFonts = new Map<PdfFontLoader, LoadedFont>();
+
+/**
+ * Adds a font to the fallback chain of the PDF exporter, e.g. a CJK font
+ * for scripts the bundled fonts do not cover. Fonts are tried in the order
+ * they are registered, after the bundled DejaVu Sans.
+ *
+ * @param face - Font family with its font files
+ */
+export function registerPdfFont(face: PdfFontFace): void {
+    if (!fallbackFaces.some(registered => registered.name === face.name)) {
+        fallbackFaces.push(face);
+    }
+}
+
+/**
+ * Checks whether a standard PDF font can draw a character.
+ *
+ * @param codePoint - Unicode code point
+ * @returns true for Windows ANSI characters
+ */
+function isWinAnsi(codePoint: number): boolean {
+    return (codePoint >= 0x20 && codePoint <= 0x7E) || (codePoint >= 0xA0 && codePoint <= 0xFF) || WIN_ANSI_EXTRAS.has(codePoint);
+}
+
+/**
+ * Reads a font file shipped with the app: from disk in Node (CLI and
+ * server, where the file is copied next to the bundle), otherwise over
+ * HTTP from where the bundler put the asset.
+ *
+ * @param url - Location of the font file
+ * @returns The font file
+ */
+async function readFontFile(url: URL): Promise<Uint8Array> {
+    if (url.protocol === 'file:') {
+        // Kept out of reach of the browser bundler
+        const module = 'node:fs/promises';
+        const { readFile } = await import(/* @vite-ignore */ module) as typeof import('node:fs/promises');
+        return readFile(url);
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Font file ${url.pathname} could not be loaded (HTTP ${response.status})`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Loads a font file once and reads its character map.
+ *
+ * @param load - Loader of the font file
+ * @returns The loaded font
+ */
+function loadFont(load: PdfFontLoader): Promise<LoadedFont> {
+    let font = loadingFonts.get(load);
+
+    if (!font) {
+        font = load().then(file => {
+            const bytes = typeof file === 'string' ? decodeBase64(file) : file;
+            const loaded = { data: typeof file === 'string' ? file : encodeBase64(file), codePoints: readCharacterMap(bytes) };
+            loadedFonts.set(load, loaded);
+            return loaded;
+        });
+        font.catch(() => loadingFonts.delete(load));
+        loadingFonts.set(load, font);
+    }
+
+    return font;
+}
+
+/**
+ * Encodes bytes as base64, as jsPDF expects font files.
+ *
+ * @param bytes - Data to encode
+ * @returns Base64 text
+ */
+function encodeBase64(bytes: Uint8Array): string {
+    let binary = '';
+
+    for (let index = 0; index < bytes.length; index += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+    }
+
+    return btoa(binary);
+}
+
+/**
+ * Builds the fallback chain of a font: the font itself, then the fallback
+ * fonts in the same style.
+ *
+ * @param name - A standard PDF font or an embedded font
+ * @param style - Font style
+ * @returns Fonts to try in order
+ */
+function fontChain(name: string, style: PdfFontStyle): FontChoice[] {
+    const names = [name, ...fallbackFaces.map(face => face.name).filter(fallback => fallback !== name)];
+
+    return names.map(font => {
+        const face = fallbackFaces.find(candidate => candidate.name === font);
+        return { name: font, style, load: face ? face.styles[style] ?? face.styles.normal : null };
+    });
+}
+
+/**
+ * PdfFontSet
+ *
+ * The fonts of one jsPDF document. Draws text with per-character font
+ * fallback: every character is drawn in the first font of the chain that
+ * has a glyph for it - the selected font, then the fallback fonts.
+ * Characters no font covers are drawn as the fallback font's
+ * missing-glyph box and recorded, so the exporter can warn about them.
+ *
+ * Font files are loaded per style, the first time a document needs them.
+ * As layout is synchronous, the exporter passes all text of the document
+ * to loadFonts() before laying it out; fonts that are not loaded are
+ * skipped. Loaded fonts are kept for later exports.
+ *
+ * A font is embedded into the document when it is first drawn, so unused
+ * styles and fallback fonts do not add to the file size.
+ */
+export class PdfFontSet {
+    private chain: FontChoice[] = [];
+    private readonly missing = new Set<string>();
+    private readonly embedded = new Set<string>();
+
+    /**
+     * @param doc - jsPDF document the fonts are embedded into
+     */
+    constructor(private readonly doc: jsPDF) {}
+
+    /**
+     * Loads the font files needed to draw the given text. Each character
+     * walks the fallback chain as in layout, so a fallback font is only
+     * loaded for characters the fonts before it lack.
+     *
+     * @param texts - Text of a document with the fonts it is drawn in
+     */
+    static async loadFonts(texts: Iterable<PdfFontText>): Promise<void> {
+        const characters = new Map<string, { chain: FontChoice[]; codePoints: Set<number> }>();
+
+        for (const { font, style, text } of texts) {
+            const key = `${font}/${style}`;
+            let entry = characters.get(key);
+
+            if (!entry) {
+                entry = { chain: fontChain(font, style), codePoints: new Set() };
+                characters.set(key, entry);
+            }
+            for (const char of text) {
+                entry.codePoints.add(char.codePointAt(0)!);
+            }
+        }
+
+        for (const { chain, codePoints } of characters.values()) {
+            for (const codePoint of codePoints) {
+                for (const choice of chain) {
+                    const loaded = choice.load ? loadedFonts.get(choice.load) ?? await loadFont(choice.load) : null;
+
+                    if (loaded ? loaded.codePoints.has(codePoint) : isWinAnsi(codePoint)) {
+                        break;
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Selects the font for the following text.
+     *
+     * @param name - A standard PDF font or an embedded font
+     * @param style - Font style
+     */
+    setFont(name: string, style: PdfFontStyle): void {
+        this.chain = fontChain(name, style);
+        this.restoreFont();
+    }
+
+    /**
+     * Measures text in the selected font at the current font size.
+     *
+     * @param text - Text to measure
+     * @returns Width in document units
+     */
+    getTextWidth(text: string): number {
+        const width = this.segments(text).reduce((sum, segment) => sum + this.segmentWidth(segment), 0);
+        this.restoreFont();
+        return width;
+    }
+
+    /**
+     * Draws text in the selected font at the current font size and color.
+     *
+     * @param text - Text to draw (a single line)
+     * @param x - X position of the anchor
+     * @param y - Y position of the baseline
+     * @param options - Alignment of the text relative to x
+     */
+    text(text: string, x: number, y: number, options: { align?: 'left' | 'center' | 'right' } = {}): void {
+        const segments = this.segments(text);
+        const widths = segments.map(segment => this.segmentWidth(segment));
+        const width = widths.reduce((sum, segmentWidth) => sum + segmentWidth, 0);
+        let cursor = options.align === 'center' ? x - width / 2 : options.align === 'right' ? x - width : x;
+
+        segments.forEach((segment, index) => {
+            this.selectFont(segment.font);
+            this.doc.text(segment.text, cursor, y);
+            cursor += widths[index]!;
+        });
+        this.restoreFont();
+    }
+
+    /**
+     * Returns the characters that were drawn without a glyph so far.
+     *
+     * @returns Characters in the order they first appeared
+     */
+    missingCharacters(): string[] {
+        return [...this.missing];
+    }
+
+    /**
+     * Splits text into runs of characters drawn in the same font.
+     *
+     * @param text - Text to split
+     * @returns Segments in order
+     */
+    private segments(text: string): TextSegment[] {
+        const segments: TextSegment[] = [];
+
+        for (const char of text) {
+            const codePoint = char.codePointAt(0)!;
+            let font = this.chain.find(choice => this.covers(choice, codePoint));
+
+            if (!font) {
+                if (!/\s/.test(char)) {
+                    this.missing.add(char);
+                }
+                // Standard fonts cannot even draw a missing-glyph box
+                font = this.chain.find(choice => !STANDARD_FONTS.has(choice.name)) ?? this.chain[0];
+            }
+            if (!font) {
+                continue;
+            }
+
+            const last = segments[segments.length - 1];
+            if (last && last.font === font) {
+                last.text += char;
+            } else {
+                segments.push({ font, text: char });
+            }
+        }
+
+        return segments;
+    }
+
+    /**
+     * Checks whether a font of the chain has a glyph for a character.
+     *
+     * @param choice - Font of the chain
+     * @param codePoint - Unicode code point
+     * @returns Whether the font covers the character; false if the font is not loaded
+     */
+    private covers(choice: FontChoice, codePoint: number): boolean {
+        if (!choice.load) {
+            return isWinAnsi(codePoint);
+        }
+        return loadedFonts.get(choice.load)?.codePoints.has(codePoint) ?? false;
+    }
+
+    /**
+     * Measures a segment in its font.
+     *
+     * @param segment - Segment to measure
+     * @returns Width in document units
+     */
+    private segmentWidth(segment: TextSegment): number {
+        this.selectFont(segment.font);
+        return this.doc.getTextWidth(segment.text);
+    }
+
+    /**
+     * Selects the first font of the chain again after drawing or measuring.
+     */
+    private restoreFont(): void {
+        const selected = this.chain[0];
+        if (selected) {
+            this.selectFont(selected);
+        }
+    }
+
+    /**
+     * Selects a font in the document, embedding it on first use.
+     *
+     * @param font - Font to select
+     */
+    private selectFont(font: FontChoice): void {
+        const key = `${font.name}/${font.style}`;
+        const loaded = font.load ? loadedFonts.get(font.load) : null;
+
+        if (loaded === undefined) {
+            // No text of the document needs the font, so it was not loaded
+            this.doc.setFont('helvetica', font.style);
+            return;
+        }
+        if (loaded && !this.embedded.has(key)) {
+            const file = `${font.name}-${font.style}.ttf`;
+            this.doc.addFileToVFS(file, loaded.data);
+            this.doc.addFont(file, font.name, font.style, 'Identity-H');
+            this.embedded.add(key);
+        }
+
+        this.doc.setFont(font.name, font.style);
+    }
+}
@@ -0,0 +1,138 @@
+/**
+ * TrueType Character Map
+ *
+ * Reads which characters a TrueType font has glyphs for from its cmap
+ * table, so text can be split between fonts before it is drawn.
+ * Only the Unicode subtables in format 4 (BMP) and 12 (full range) are
+ * read - every Unicode TrueType font has at least one of them.
+ */
+
+/**
+ * Reads the code points a font maps to a glyph.
+ *
+ * @param font - TrueType font file
+ * @returns Code points with a glyph; empty if the font has no Unicode cmap
+ */
+export function readCharacterMap(font: Uint8Array): Set<number> {
+    const view = new DataView(font.buffer, font.byteOffset, font.byteLength);
+    const cmap = findTable(view, 'cmap');
+    const codePoints = new Set<number>();
+
+    if (cmap === null) {
+        return codePoints;
+    }
+
+    const subtables = new Map<string, number>();
+    const count = view.getUint16(cmap + 2);
+
+    for (let index = 0; index < count; index++) {
+        const record = cmap + 4 + index * 8;
+        const key = `${view.getUint16(record)}/${view.getUint16(record + 2)}`;
+        subtables.set(key, cmap + view.getUint32(record + 4));
+    }
+
+    // Full Unicode first, then BMP-only subtables
+    const full = subtables.get('3/10') ?? subtables.get('0/4') ?? subtables.get('0/6');
+    const bmp = subtables.get('3/1') ?? subtables.get('0/3') ?? subtables.get('0/1') ?? subtables.get('0/0');
+
+    for (const offset of [full, bmp]) {
+        if (offset === undefined) {
+            continue;
+        }
+
+        const format = view.getUint16(offset);
+        if (format === 12) {
+            readFormat12(view, offset, codePoints);
+            break;
+        }
+        if (format === 4) {
+            readFormat4(view, offset, codePoints);
+            break;
+        }
+    }
+
+    return codePoints;
+}
+
+/**
+ * Finds a table in the font's table directory.
+ *
+ * @param view - Font file
+ * @param tag - Four-letter table tag
+ * @returns Offset of the table, or null if the font has no such table
+ */
+function findTable(view: DataView, tag: string): number | null {
+    const count = view.getUint16(4);
+
+    for (let index = 0; index < count; index++) {
+        const record = 12 + index * 16;
+        const name = String.fromCharCode(...[0, 1, 2, 3].map(byte => view.getUint8(record + byte)));
+
+        if (name === tag) {
+            return view.getUint32(record + 8);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Reads a format 4 subtable (segment mapping to delta values).
+ *
+ * @param view - Font file
+ * @param offset - Offset of the subtable
+ * @param codePoints - Set the mapped code points are added to
+ */
+function readFormat4(view: DataView, offset: number, codePoints: Set<number>): void {
+    const segCountX2 = view.getUint16(offset + 6);
+    const endCodes = offset + 14;
+    const startCodes = endCodes + segCountX2 + 2;
+    const idDeltas = startCodes + segCountX2;
+    const idRangeOffsets = idDeltas + segCountX2;
+
+    for (let segment = 0; segment < segCountX2; segment += 2) {
+        const end = view.getUint16(endCodes + segment);
+        const start = view.getUint16(startCodes + segment);
+        const delta = view.getUint16(idDeltas + segment);
+        const rangeOffset = view.getUint16(idRangeOffsets + segment);
+
+        for (let code = start; code <= end && code !== 0xFFFF; code++) {
+            let glyph: number;
+
+            if (rangeOffset === 0) {
+                glyph = (code + delta) & 0xFFFF;
+            } else {
+                glyph = view.getUint16(idRangeOffsets + segment + rangeOffset + (code - start) * 2);
+                glyph = glyph === 0 ? 0 : (glyph + delta) & 0xFFFF;
+            }
+
+            if (glyph !== 0) {
+                codePoints.add(code);
+            }
+        }
+    }
+}
+
+/**
+ * Reads a format 12 subtable (segmented coverage).
+ *
+ * @param view - Font file
+ * @param offset - Offset of the subtable
+ * @param codePoints - Set the mapped code points are added to
+ */
+function readFormat12(view: DataView, offset: number, codePoints: Set<number>): void {
+    const groups = view.getUint32(offset + 12);
+
+    for (let group = 0; group < groups; group++) {
+        const record = offset + 16 + group * 12;
+        const start = view.getUint32(record);
+        const end = view.getUint32(record + 4);
+        const startGlyph = view.getUint32(record + 8);
+
+        for (let code = start; code <= end; code++) {
+            if (startGlyph + (code - start) !== 0) {
+                codePoints.add(code);
+            }
+        }
+    }
+}
@@ -0,0 +1,3 @@
+export { PdfFontSet, DEJAVU_SANS, registerPdfFont } from './PdfFontSet';
+export type { PdfFontFace, PdfFontLoader, PdfFontStyle, PdfFontText } from './PdfFontSet';
+export { readCharacterMap } from './cmap';
@@ -1,3 +1,6 @@
+import type { ExportControl } from './ExportControl.interface';
+import type { ExportResult } from './ExportResult.interface';
+
 /**
  * Product Interface - DocumentExporter
  * 
@@ -14,10 +17,14 @@ export interface DocumentExporter {
      * Each concrete implementation will:
      * 1. Parse the markdown content according to its format requirements
      * 2. Generate the appropriate file format
-     * 3. Trigger a download in the browser
+     * 3. Return the generated file - delivery is left to an ExportSink
+     * 
+     * Exporters report their progress block by block and stop at the next
+     * block once the control's signal is aborted.
      * 
      * @param content - Markdown formatted text to export
-     * @returns Promise that resolves when export is complete
+     * @param control - Optional progress callback and abort signal
+     * @returns Promise that resolves with the generated file
      */
-    export(content: string): void | Promise<void>;
+    export(content: string, control?: ExportControl): Promise<ExportResult>;
 }
@@ -0,0 +1,21 @@
+/**
+ * Product Interface - DocumentImporter
+ * 
+ * The "Product" of the importer family, the counterpart of DocumentExporter:
+ * each concrete importer reads one file format and turns it into Markdown,
+ * so the document can be edited and exported again.
+ */
+export interface DocumentImporter {
+    /**
+     * Converts a document to Markdown.
+     * 
+     * Each concrete implementation will:
+     * 1. Decode the file according to its format
+     * 2. Map headings, emphasis, lists and the other supported structures
+     * 3. Return Markdown the MarkdownParser understands
+     * 
+     * @param data - Raw bytes of the file
+     * @returns Promise that resolves with the Markdown text
+     */
+    import(data: Uint8Array): Promise<string>;
+}
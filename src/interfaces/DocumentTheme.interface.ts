@@ -0,0 +1,75 @@
+import type { FontFamily } from './ExportOptions.interface';
+
+/**
+ * Document Theme
+ *
+ * Typography of a document as JSON data, shared by the PDF, DOCX and HTML
+ * exporters so a document looks the same in every format. A theme only
+ * needs to set what differs from the default theme: missing elements and
+ * fields are taken from it, and elements without a font family or color
+ * use the ones of the body text.
+ *
+ * Font sizes and spacing are in points, colors are "#RRGGBB".
+ */
+export interface DocumentTheme {
+    /**
+     * Name shown in the theme selection.
+     */
+    name: string;
+
+    /**
+     * Line spacing as a multiple of the font size's default line height.
+     */
+    lineSpacing?: number;
+
+    /**
+     * Paragraphs and list items.
+     */
+    body?: ThemeTextStyle;
+
+    heading1?: ThemeTextStyle;
+    heading2?: ThemeTextStyle;
+    heading3?: ThemeTextStyle;
+    heading4?: ThemeTextStyle;
+    heading5?: ThemeTextStyle;
+    heading6?: ThemeTextStyle;
+
+    /**
+     * Code blocks and inline code.
+     */
+    code?: ThemeTextStyle & { background?: string };
+
+    /**
+     * Table cells.
+     */
+    table?: ThemeTextStyle & { headerBackground?: string; borderColor?: string };
+
+    /**
+     * Link text.
+     */
+    link?: { color?: string };
+
+    /**
+     * Page headers and footers.
+     */
+    headerFooter?: ThemeTextStyle;
+}
+
+/**
+ * Text style of a theme element.
+ */
+export interface ThemeTextStyle {
+    fontFamily?: FontFamily;
+    fontSize?: number;
+    bold?: boolean;
+    italic?: boolean;
+    color?: string;
+    spaceBefore?: number;
+    spaceAfter?: number;
+    alignment?: TextAlignment;
+}
+
+/**
+ * Horizontal alignment of paragraphs.
+ */
+export type TextAlignment = 'left' | 'center' | 'right' | 'justify';
@@ -0,0 +1,50 @@
+/**
+ * Export Progress
+ * 
+ * Progress of a running export, reported after each top-level block
+ * (paragraph, heading, list, table, code block) of the document.
+ */
+export interface ExportProgress {
+    /**
+     * Blocks processed so far.
+     */
+    blocks: number;
+
+    /**
+     * Number of blocks in the document.
+     */
+    totalBlocks: number;
+
+    /**
+     * Pages laid out so far; 0 for formats without page layout.
+     */
+    pages: number;
+
+    /**
+     * Number of the file being exported (1-based) when several files are
+     * exported at once, as in a bundle; not set for single exports.
+     */
+    file?: number;
+
+    /**
+     * Number of files of a bundle; not set for single exports.
+     */
+    totalFiles?: number;
+}
+
+/**
+ * Export Control
+ * 
+ * Lets the caller of DocumentExporter.export() follow and cancel an export.
+ */
+export interface ExportControl {
+    /**
+     * Aborts the export; export() then rejects with an ExportAbortedError.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Called with the progress after each block.
+     */
+    onProgress?: (progress: ExportProgress) => void;
+}
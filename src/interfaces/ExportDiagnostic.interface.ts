@@ -0,0 +1,37 @@
+/**
+ * How much a diagnostic matters: a warning means content is missing or
+ * changed in the output, info means formatting was simplified.
+ */
+export type DiagnosticSeverity = 'warning' | 'info';
+
+/**
+ * Kinds of diagnostics.
+ * - unsupported-syntax: Markdown the parser does not support, output as text
+ * - formatting-lost: formatting the target format cannot represent
+ * - image-not-embedded: an image that was replaced by a link or its alt text
+ * - missing-glyph: characters no font of the output can draw
+ * - missing-variable: a mail merge variable the record has no value for
+ */
+export type DiagnosticCode = 'unsupported-syntax' | 'formatting-lost' | 'image-not-embedded' | 'missing-glyph' | 'missing-variable';
+
+/**
+ * Export Diagnostic
+ * 
+ * Something an exporter could not represent in its format. Diagnostics
+ * with the same message are reported once, with all source lines they
+ * occur on.
+ */
+export interface ExportDiagnostic {
+    severity: DiagnosticSeverity;
+    code: DiagnosticCode;
+
+    /**
+     * Description, e.g. "table syntax not supported in TXT, output as text".
+     */
+    message: string;
+
+    /**
+     * Source lines (1-based, ascending); empty if not tied to a line.
+     */
+    lines: number[];
+}
@@ -0,0 +1,57 @@
+/**
+ * Export Format Metadata
+ * 
+ * Self-description of an export format. Every ExporterFactory carries one,
+ * so the registry and the UI can list formats without knowing them upfront.
+ */
+export interface ExportFormat {
+    /**
+     * Unique format id used for lookups (e.g. 'pdf').
+     */
+    id: string;
+
+    /**
+     * Human readable name shown in the UI (e.g. 'PDF Document').
+     */
+    label: string;
+
+    /**
+     * File extension without the leading dot (e.g. 'pdf').
+     */
+    extension: string;
+
+    /**
+     * MIME type of the generated files.
+     */
+    mimeType: string;
+
+    /**
+     * Features supported by the format.
+     */
+    capabilities: ExportCapabilities;
+}
+
+/**
+ * Features an export format supports.
+ */
+export interface ExportCapabilities {
+    /**
+     * Keeps text formatting such as bold, italic and heading styles.
+     */
+    richText: boolean;
+
+    /**
+     * Produces binary output that cannot be shown as plain text.
+     */
+    binary: boolean;
+
+    /**
+     * Honors the page size, orientation and margin options.
+     */
+    pageLayout: boolean;
+
+    /**
+     * Honors the font family, font size and line spacing options.
+     */
+    typography: boolean;
+}
@@ -0,0 +1,111 @@
+import type { DocumentTheme } from './DocumentTheme.interface';
+
+/**
+ * Export Options
+ * 
+ * Typed settings passed to ExporterFactory.createExporter(). Each exporter
+ * honors the options that apply to its format - for example TXT only uses
+ * the filename, while PDF uses all of them.
+ */
+export interface ExportOptions {
+    /**
+     * Paper size of paged formats.
+     */
+    pageSize: PageSize;
+
+    /**
+     * Page orientation of paged formats.
+     */
+    orientation: PageOrientation;
+
+    /**
+     * Page margins in millimeters.
+     */
+    margins: PageMargins;
+
+    /**
+     * Typography of PDF, DOCX and HTML output: fonts, sizes, colors,
+     * spacing and alignment per element.
+     */
+    theme: DocumentTheme;
+
+    /**
+     * Base font family of body text. Defaults to the theme's body font.
+     */
+    fontFamily: FontFamily;
+
+    /**
+     * Base font size of body text in points. Defaults to the theme's body
+     * size; the sizes of headings, tables and code are scaled with it.
+     */
+    fontSize: number;
+
+    /**
+     * Line spacing as a multiple of the font size's default line height.
+     * Defaults to the theme's line spacing.
+     */
+    lineSpacing: number;
+
+    /**
+     * Adds a generated table of contents before the document body.
+     */
+    tableOfContents: boolean;
+
+    /**
+     * Page header template of paged formats, or null for no header. See
+     * PageTemplate for the placeholders and the left|center|right slots.
+     */
+    header: string | null;
+
+    /**
+     * Page footer template of paged formats, or null for no footer.
+     */
+    footer: string | null;
+
+    /**
+     * Leaves the header and footer off the first page, e.g. for title pages.
+     */
+    omitFirstPageHeaderFooter: boolean;
+
+    /**
+     * Document class of LaTeX output, e.g. "article" or "scrartcl".
+     */
+    latexDocumentClass: string;
+
+    /**
+     * Preamble lines of LaTeX output, inserted after the packages the
+     * exporter loads and before hyperref, or null for none.
+     */
+    latexPreamble: string | null;
+
+    /**
+     * Output filename without extension. null derives the name from the
+     * document title in the front matter, falling back to "document".
+     */
+    filename: string | null;
+}
+
+/**
+ * Supported paper sizes.
+ */
+export type PageSize = 'a4' | 'a5' | 'letter' | 'legal';
+
+/**
+ * Page orientation.
+ */
+export type PageOrientation = 'portrait' | 'landscape';
+
+/**
+ * Page margins in millimeters.
+ */
+export interface PageMargins {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+/**
+ * Generic font families, mapped to concrete fonts by each exporter.
+ */
+export type FontFamily = 'sans-serif' | 'serif' | 'monospace';
@@ -0,0 +1,32 @@
+import type { ExportDiagnostic } from './ExportDiagnostic.interface';
+
+/**
+ * Export Result
+ * 
+ * The file generated by a DocumentExporter. Exporters only produce this
+ * result - delivering it (browser download, memory, filesystem) is the job
+ * of an ExportSink, so exporters can run outside a browser and callers can
+ * post-process the bytes.
+ */
+export interface ExportResult {
+    /**
+     * Raw file content.
+     */
+    data: Uint8Array<ArrayBuffer>;
+
+    /**
+     * MIME type of the file (e.g. 'application/pdf').
+     */
+    mimeType: string;
+
+    /**
+     * Suggested filename including extension (e.g. 'document.pdf').
+     */
+    filename: string;
+
+    /**
+     * What the format could not represent (unsupported syntax, lost
+     * formatting, images or characters that could not be embedded).
+     */
+    diagnostics?: ExportDiagnostic[];
+}
@@ -0,0 +1,18 @@
+import type { ExportResult } from './ExportResult.interface';
+
+/**
+ * Sink Interface - ExportSink
+ * 
+ * Delivers a generated ExportResult to its destination.
+ * Separating delivery from generation lets the same exporter output be
+ * downloaded in the browser, kept in memory or written to disk.
+ */
+export interface ExportSink {
+    /**
+     * Delivers the export result to the sink's destination.
+     * 
+     * @param result - Generated file
+     * @returns Promise that resolves when delivery is complete
+     */
+    deliver(result: ExportResult): Promise<void>;
+}
@@ -1,4 +1,6 @@
 import type { DocumentExporter } from './DocumentExporter.interface';
+import type { ExportFormat } from './ExportFormat.interface';
+import type { ExportOptions } from './ExportOptions.interface';
 
 /**
  * Abstract Factory Interface - ExporterFactory
@@ -12,6 +14,12 @@ import type { DocumentExporter } from './DocumentExporter.interface';
  * without modifying existing code (Open/Closed Principle).
  */
 export interface ExporterFactory {
+    /**
+     * Metadata describing the format this factory's exporters produce.
+     * Used by the ExporterRegistry for lookups and by the UI for listings.
+     */
+    readonly format: ExportFormat;
+
     /**
      * Factory Method - The core of the Factory Method pattern.
      * 
@@ -21,7 +29,8 @@ export interface ExporterFactory {
      * Each concrete factory decides which product class to instantiate,
      * enabling polymorphic behavior without the client knowing the concrete type.
      * 
+     * @param options - Export options; missing values fall back to the defaults
      * @returns A DocumentExporter instance (concrete product)
      */
-    createExporter(): DocumentExporter;
+    createExporter(options?: Partial<ExportOptions>): DocumentExporter;
 }
@@ -0,0 +1,27 @@
+/**
+ * Import Format Metadata
+ * 
+ * Self-description of an import format. Every ImporterFactory carries one,
+ * so the ImporterRegistry can pick the importer for a file by its name.
+ */
+export interface ImportFormat {
+    /**
+     * Unique format id used for lookups (e.g. 'docx').
+     */
+    id: string;
+
+    /**
+     * Human readable name shown in the UI (e.g. 'Word Document').
+     */
+    label: string;
+
+    /**
+     * File extensions without the leading dot (e.g. ['html', 'htm']).
+     */
+    extensions: string[];
+
+    /**
+     * MIME types of the accepted files.
+     */
+    mimeTypes: string[];
+}
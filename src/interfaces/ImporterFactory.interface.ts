@@ -0,0 +1,25 @@
+import type { DocumentImporter } from './DocumentImporter.interface';
+import type { ImportFormat } from './ImportFormat.interface';
+
+/**
+ * Abstract Factory Interface - ImporterFactory
+ * 
+ * The "Creator" of the importer family, parallel to ExporterFactory.
+ * It declares the factory method (createImporter) that concrete factories
+ * implement to instantiate the importer for their file format.
+ */
+export interface ImporterFactory {
+    /**
+     * Metadata describing the format this factory's importers read.
+     * Used by the ImporterRegistry for lookups and by the UI for listings.
+     */
+    readonly format: ImportFormat;
+
+    /**
+     * Factory Method - creates the concrete importer (DOCXImporter or
+     * HTMLImporter) without the client knowing its class.
+     * 
+     * @returns A DocumentImporter instance (concrete product)
+     */
+    createImporter(): DocumentImporter;
+}
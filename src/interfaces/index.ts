@@ -1,2 +1,12 @@
 export type { DocumentExporter } from './DocumentExporter.interface';
-export type { ExporterFactory } from './ExporterFactory.interface';
\ No newline at end of file
+export type { ExporterFactory } from './ExporterFactory.interface';
+export type { ExportFormat, ExportCapabilities } from './ExportFormat.interface';
+export type { ExportOptions, PageSize, PageOrientation, PageMargins, FontFamily } from './ExportOptions.interface';
+export type { DocumentTheme, ThemeTextStyle, TextAlignment } from './DocumentTheme.interface';
+export type { ExportResult } from './ExportResult.interface';
+export type { ExportControl, ExportProgress } from './ExportControl.interface';
+export type { ExportDiagnostic, DiagnosticCode, DiagnosticSeverity } from './ExportDiagnostic.interface';
+export type { ExportSink } from './ExportSink.interface';
+export type { DocumentImporter } from './DocumentImporter.interface';
+export type { ImporterFactory } from './ImporterFactory.interface';
+export type { ImportFormat } from './ImportFormat.interface';
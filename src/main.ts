@@ -1,5 +1,18 @@
-import type { ExporterFactory } from './interfaces';
-import { PDFExporterFactory, TXTExporterFactory, DOCXExporterFactory } from './factories';
+import type {
+    DocumentTheme, ExporterFactory, ExportOptions, ExportProgress, ExportSink, FontFamily, PageOrientation, PageSize,
+} from './interfaces';
+import { exporterRegistry, importerRegistry } from './registry';
+import { BrowserDownloadSink } from './sinks';
+import { DiagnosticsPanel, LivePreview } from './preview';
+import type { BundleDocument } from './bundle';
+import { parseMergeData } from './merge';
+import type { MergeRecord } from './merge';
+import { baseName, collectDroppedFiles, isMarkdownFile } from './utils';
+import { ExportWorker } from './worker';
+import { Workspace } from './workspace';
+import type { DocumentChanges, SaveStatus, WorkspaceDocument } from './workspace';
+import { DEFAULT_EXPORT_OPTIONS, sanitizeFilename } from './options';
+import { BUILT_IN_THEMES, findBuiltInTheme, parseTheme, themeTypography } from './themes';
 
 /**
  * Main Application Entry Point
@@ -14,25 +27,311 @@ import { PDFExporterFactory, TXTExporterFactory, DOCXExporterFactory } from './f
  * - Polymorphism enables working with any ExporterFactory implementation
  */
 
+/**
+ * Delivers generated files to the user as browser downloads.
+ */
+const downloadSink: ExportSink = new BrowserDownloadSink();
+
+/**
+ * Runs exports off the main thread, so long documents do not freeze the page.
+ */
+const exportWorker = new ExportWorker();
+
+/**
+ * Cancels the running export; null while no export is running.
+ */
+let exportController: AbortController | null = null;
+
+/**
+ * Buttons that start an export; only one export runs at a time.
+ */
+const EXPORT_BUTTONS = ['export-button', 'bundle-button', 'merge-button'];
+
+/**
+ * Lists the diagnostics and errors of the last export; created on init.
+ */
+let diagnosticsPanel: DiagnosticsPanel | null = null;
+
+/**
+ * Autosaved documents of the editor; null until loaded, or if the browser
+ * offers no IndexedDB storage.
+ */
+let workspace: Workspace | null = null;
+
+/**
+ * Themes imported from JSON files or restored with a document, offered
+ * after the built-in themes.
+ */
+let customThemes: DocumentTheme[] = [];
+
+/**
+ * Markdown documents added to the bundle export. When empty, the bundle
+ * contains the editor content.
+ */
+let bundleDocuments: BundleDocument[] = [];
+
+/**
+ * Data set of the mail merge with the name of its file, or null before a
+ * file is loaded.
+ */
+let mergeData: { name: string; records: MergeRecord[] } | null = null;
+
 /**
  * Gets the appropriate factory based on the selected export format.
  * This function demonstrates the Factory Method pattern - the client
- * delegates object creation to factory classes.
+ * delegates object creation to factory classes, which it looks up in
+ * the exporter registry.
  * 
- * @param format - The export format ('txt', 'pdf', 'docx')
+ * @param format - The export format id (e.g. 'txt', 'pdf', 'docx')
  * @returns The appropriate ExporterFactory instance
+ * @throws UnknownFormatError if no factory is registered for the format
  */
 function getFactory(format: string): ExporterFactory {
-    switch (format.toLowerCase()) {
-        case 'txt':
-            return new TXTExporterFactory();
-        case 'pdf':
-            return new PDFExporterFactory();
-        case 'docx':
-            return new DOCXExporterFactory();
-        default:
-            console.error(`Unknown format: ${format}. Defaulting to TXT.`);
-            return new TXTExporterFactory();
+    return exporterRegistry.get(format);
+}
+
+/**
+ * Fills the format selection with all formats from the exporter registry.
+ * 
+ * @param formatSelect - The format <select> element
+ */
+function populateFormatSelect(formatSelect: HTMLSelectElement): void {
+    exporterRegistry.formats().forEach(format => {
+        const option = document.createElement('option');
+        option.value = format.id;
+        option.textContent = `${format.label} (.${format.extension})`;
+        formatSelect.appendChild(option);
+    });
+}
+
+/**
+ * Fills the theme selection with the built-in and custom themes.
+ * 
+ * @param themeSelect - The theme <select> element
+ */
+function populateThemeSelect(themeSelect: HTMLSelectElement): void {
+    const selected = themeSelect.value;
+
+    themeSelect.replaceChildren(...[...BUILT_IN_THEMES, ...customThemes].map(theme => {
+        const option = document.createElement('option');
+        option.value = theme.name;
+        option.textContent = theme.name;
+        return option;
+    }));
+    themeSelect.value = selected || DEFAULT_EXPORT_OPTIONS.theme.name;
+}
+
+/**
+ * Looks up a built-in or custom theme by name.
+ * 
+ * @param name - Theme name
+ * @returns The theme, or undefined if there is none with this name
+ */
+function findTheme(name: string): DocumentTheme | undefined {
+    return findBuiltInTheme(name) ?? customThemes.find(theme => theme.name === name);
+}
+
+/**
+ * Adds a custom theme to the theme selection, replacing a custom theme
+ * of the same name.
+ * 
+ * @param theme - Theme to add
+ */
+function addCustomTheme(theme: DocumentTheme): void {
+    const themeSelect = document.getElementById('option-theme') as HTMLSelectElement | null;
+
+    customThemes = [...customThemes.filter(custom => custom.name !== theme.name), theme];
+    if (themeSelect) {
+        populateThemeSelect(themeSelect);
+    }
+}
+
+/**
+ * Imports a theme from a JSON file and selects it.
+ * 
+ * @param file - Theme definition
+ */
+async function importTheme(file: File): Promise<void> {
+    const themeSelect = document.getElementById('option-theme') as HTMLSelectElement | null;
+
+    try {
+        const theme = parseTheme(await file.text());
+
+        if (findBuiltInTheme(theme.name)) {
+            throw new Error(`A built-in theme is already named "${theme.name}"`);
+        }
+        addCustomTheme(theme);
+        if (themeSelect) {
+            themeSelect.value = theme.name;
+            themeSelect.dispatchEvent(new Event('input', { bubbles: true }));
+        }
+    } catch (error) {
+        console.error(error);
+        alert(error instanceof Error ? error.message : String(error));
+    }
+}
+
+/**
+ * Shows the body typography of the selected theme in the font, font
+ * size and line spacing fields, which then apply the theme as it is.
+ */
+function applyThemeTypography(): void {
+    const theme = findTheme((document.getElementById('option-theme') as HTMLSelectElement | null)?.value ?? '');
+
+    if (!theme) {
+        return;
+    }
+
+    const typography = themeTypography(theme);
+    const setValue = (id: string, value: string | number): void => {
+        const field = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null;
+        if (field) {
+            field.value = String(value);
+        }
+    };
+
+    setValue('option-font-family', typography.fontFamily);
+    setValue('option-font-size', typography.fontSize);
+    setValue('option-line-spacing', typography.lineSpacing);
+}
+
+/**
+ * Reads the export options from the options panel. Empty or invalid
+ * fields are left out, so the exporter falls back to its defaults.
+ * 
+ * @returns Export options entered by the user
+ */
+function readExportOptions(): Partial<ExportOptions> {
+    const value = (id: string): string =>
+        (document.getElementById(id) as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement | null)?.value.trim() ?? '';
+    const checked = (id: string): boolean =>
+        (document.getElementById(id) as HTMLInputElement | null)?.checked ?? false;
+    const number = (id: string): number | null => {
+        const parsed = parseFloat(value(id));
+        return Number.isFinite(parsed) ? parsed : null;
+    };
+
+    const options: Partial<ExportOptions> = {};
+    const margin = number('option-margin');
+    const fontSize = number('option-font-size');
+    const lineSpacing = number('option-line-spacing');
+    const filename = value('option-filename');
+    const header = value('option-header');
+    const footer = value('option-footer');
+    const latexClass = value('option-latex-class');
+    const latexPreamble = value('option-latex-preamble');
+    const theme = findTheme(value('option-theme'));
+
+    if (theme) {
+        options.theme = theme;
+    }
+    if (value('option-page-size')) {
+        options.pageSize = value('option-page-size') as PageSize;
+    }
+    if (value('option-orientation')) {
+        options.orientation = value('option-orientation') as PageOrientation;
+    }
+    if (value('option-font-family')) {
+        options.fontFamily = value('option-font-family') as FontFamily;
+    }
+    if (margin !== null) {
+        options.margins = { top: margin, right: margin, bottom: margin, left: margin };
+    }
+    if (fontSize !== null) {
+        options.fontSize = fontSize;
+    }
+    if (lineSpacing !== null) {
+        options.lineSpacing = lineSpacing;
+    }
+    if (header) {
+        options.header = header;
+    }
+    if (footer) {
+        options.footer = footer;
+    }
+    if (latexClass) {
+        options.latexDocumentClass = latexClass;
+    }
+    if (latexPreamble) {
+        options.latexPreamble = latexPreamble;
+    }
+    if (filename) {
+        options.filename = filename;
+    }
+    options.tableOfContents = checked('option-toc');
+    options.omitFirstPageHeaderFooter = checked('option-omit-first-page');
+
+    return options;
+}
+
+/**
+ * Fills the options panel with the given options. Options that are not
+ * set show their defaults.
+ * 
+ * @param options - Export options to show
+ */
+function writeExportOptions(options: Partial<ExportOptions>): void {
+    const setValue = (id: string, value: string | number | null): void => {
+        const field = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement | null;
+        if (field) {
+            field.value = value === null ? '' : String(value);
+        }
+    };
+    const setChecked = (id: string, checked: boolean): void => {
+        const field = document.getElementById(id) as HTMLInputElement | null;
+        if (field) {
+            field.checked = checked;
+        }
+    };
+    const resolved = { ...DEFAULT_EXPORT_OPTIONS, ...options };
+
+    // Documents keep a copy of their theme, so custom themes come back with them
+    if (!findTheme(resolved.theme.name)) {
+        addCustomTheme(resolved.theme);
+    }
+    setValue('option-theme', resolved.theme.name);
+    setValue('option-page-size', resolved.pageSize);
+    setValue('option-orientation', resolved.orientation);
+    setValue('option-margin', resolved.margins.top);
+    setValue('option-header', resolved.header);
+    setValue('option-footer', resolved.footer);
+    setValue('option-font-family', resolved.fontFamily);
+    setValue('option-font-size', resolved.fontSize);
+    setValue('option-line-spacing', resolved.lineSpacing);
+    setValue('option-latex-class', resolved.latexDocumentClass);
+    setValue('option-latex-preamble', resolved.latexPreamble);
+    setValue('option-filename', resolved.filename);
+    setChecked('option-toc', resolved.tableOfContents);
+    setChecked('option-omit-first-page', resolved.omitFirstPageHeaderFooter);
+}
+
+/**
+ * Enables only the option groups the selected format honors.
+ * 
+ * @param format - The export format id
+ */
+function updateOptionControls(format: string): void {
+    if (!exporterRegistry.has(format)) {
+        return;
+    }
+
+    const { capabilities } = exporterRegistry.get(format).format;
+    const pageOptions = document.getElementById('page-options') as HTMLFieldSetElement | null;
+    const typographyOptions = document.getElementById('typography-options') as HTMLFieldSetElement | null;
+    const structureOptions = document.getElementById('structure-options') as HTMLFieldSetElement | null;
+    const latexOptions = document.getElementById('latex-options') as HTMLFieldSetElement | null;
+
+    if (pageOptions) {
+        pageOptions.disabled = !capabilities.pageLayout;
+    }
+    if (typographyOptions) {
+        typographyOptions.disabled = !capabilities.typography;
+    }
+    if (structureOptions) {
+        structureOptions.disabled = !capabilities.richText;
+    }
+    if (latexOptions) {
+        latexOptions.disabled = format !== 'latex';
     }
 }
 
@@ -43,10 +342,16 @@ function getFactory(format: string): ExporterFactory {
  * 1. Get user input (markdown content and format selection)
  * 2. Validate input
  * 3. Get appropriate factory using Factory Method pattern
- * 4. Use factory to create exporter (Factory Method)
- * 5. Export using the created product
+ * 4. Hand the export to the worker, which creates the exporter through the
+ *    same factory (Factory Method) and runs it with the chosen options
+ * 5. Show the progress until the export is done or cancelled
+ * 6. Deliver the generated file through the download sink
  */
 async function handleExport(): Promise<void> {
+    if (exportController) {
+        return;
+    }
+
     // Get DOM elements
     const markdownInput = document.getElementById('markdown-input') as HTMLTextAreaElement;
     const formatSelect = document.getElementById('format-select') as HTMLSelectElement;
@@ -68,14 +373,693 @@ async function handleExport(): Promise<void> {
 
     // Factory Method Pattern in action:
     // 1. Get the appropriate factory
-    const factory = getFactory(format);
+    let factory: ExporterFactory;
+    try {
+        factory = getFactory(format);
+    } catch (error) {
+        console.error(error);
+        alert(error instanceof Error ? error.message : String(error));
+        return;
+    }
     
-    // 2. Use factory method to create the product
-    const exporter = factory.createExporter();
+    // 2. The worker uses the factory method to create the product
+    const exporter = exportWorker.createExporter(factory.format.id, readExportOptions());
+    const controller = new AbortController();
+    exportController = controller;
+    setExportRunning(true);
+    diagnosticsPanel?.clear();
     
-    // 3. Use the product
-    console.log(`Exporting as ${format.toUpperCase()}...`);
-    await exporter.export(content.trim());
+    try {
+        // 3. Use the product
+        console.log(`Exporting as ${format.toUpperCase()}...`);
+        const result = await exporter.export(content.trim(), {
+            signal: controller.signal,
+            onProgress: showExportProgress,
+        });
+        
+        // 4. Deliver the generated file
+        await downloadSink.deliver(result);
+        diagnosticsPanel?.show(result.diagnostics ?? [], factory.format.label);
+    } catch (error) {
+        if (!controller.signal.aborted) {
+            console.error(error);
+            diagnosticsPanel?.showError(error);
+        }
+    } finally {
+        exportController = null;
+        setExportRunning(false);
+    }
+}
+
+/**
+ * Disables the export buttons and shows the progress bar below the button
+ * that started the export while it runs, and restores both afterwards.
+ * 
+ * @param running - Whether an export is running
+ * @param button - Id of the button that started the export
+ */
+function setExportRunning(running: boolean, button = 'export-button'): void {
+    const progress = document.getElementById('export-progress');
+    const bar = document.getElementById('export-progress-bar') as HTMLProgressElement | null;
+    const label = document.getElementById('export-progress-label');
+
+    EXPORT_BUTTONS.forEach(id => {
+        const exportButton = document.getElementById(id) as HTMLButtonElement | null;
+        if (exportButton) {
+            exportButton.disabled = running;
+        }
+    });
+    progress?.classList.toggle('hidden', !running);
+    if (running) {
+        if (progress) {
+            document.getElementById(button)?.after(progress);
+        }
+        bar?.removeAttribute('value');
+        if (label) {
+            label.textContent = 'Starting export…';
+        }
+    }
+}
+
+/**
+ * Shows the progress of the running export. For bundles the bar covers
+ * all files and the label counts them.
+ * 
+ * @param progress - Progress reported by the exporter
+ */
+function showExportProgress(progress: ExportProgress): void {
+    const bar = document.getElementById('export-progress-bar') as HTMLProgressElement | null;
+    const label = document.getElementById('export-progress-label');
+    const pages = progress.pages > 0 ? `, ${progress.pages} ${progress.pages === 1 ? 'page' : 'pages'} laid out` : '';
+    const file = progress.file !== undefined && progress.totalFiles ? `File ${progress.file} of ${progress.totalFiles}: ` : '';
+    const share = progress.totalBlocks > 0 ? progress.blocks / progress.totalBlocks : 1;
+
+    if (bar) {
+        bar.value = progress.file !== undefined && progress.totalFiles ? (progress.file - 1 + share) / progress.totalFiles : share;
+    }
+    if (label) {
+        label.textContent = `${file}${progress.blocks} of ${progress.totalBlocks} blocks${pages}`;
+    }
+}
+
+/**
+ * Schedules a preview update with the current content, format and options.
+ * 
+ * @param preview - Live preview of the output section
+ */
+function refreshPreview(preview: LivePreview): void {
+    const markdownInput = document.getElementById('markdown-input') as HTMLTextAreaElement | null;
+    const formatSelect = document.getElementById('format-select') as HTMLSelectElement | null;
+
+    if (!markdownInput || !formatSelect || !exporterRegistry.has(formatSelect.value)) {
+        return;
+    }
+
+    preview.schedule(markdownInput.value, getFactory(formatSelect.value), readExportOptions());
+}
+
+/**
+ * Fills the bundle format list with a checkbox per registered format.
+ * 
+ * @param container - Element holding the checkboxes
+ */
+function populateBundleFormats(container: HTMLElement): void {
+    exporterRegistry.formats().forEach(format => {
+        const label = document.createElement('label');
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.name = 'bundle-format';
+        checkbox.value = format.id;
+        checkbox.checked = true;
+        label.append(checkbox, format.extension.toUpperCase());
+        container.appendChild(label);
+    });
+}
+
+/**
+ * Adds Markdown files to the bundle. Other files are ignored.
+ * 
+ * @param files - Selected or dropped files
+ */
+async function addBundleFiles(files: File[]): Promise<void> {
+    const markdownFiles = files.filter(file => isMarkdownFile(file));
+
+    if (files.length > 0 && markdownFiles.length === 0) {
+        alert('No Markdown files (.md) found.');
+        return;
+    }
+
+    const added = await Promise.all(markdownFiles.map(async file => ({
+        name: baseName(file.name),
+        content: await file.text(),
+    })));
+    bundleDocuments = [...bundleDocuments, ...added];
+    renderBundleFileList();
+}
+
+/**
+ * Shows the documents of the bundle, each with a remove button.
+ */
+function renderBundleFileList(): void {
+    const list = document.getElementById('bundle-file-list');
+
+    if (!list) {
+        return;
+    }
+
+    if (bundleDocuments.length === 0) {
+        const placeholder = document.createElement('li');
+        placeholder.className = 'placeholder';
+        placeholder.textContent = 'Current editor content';
+        list.replaceChildren(placeholder);
+        return;
+    }
+
+    list.replaceChildren(...bundleDocuments.map((bundleDocument, index) => {
+        const item = document.createElement('li');
+        const name = document.createElement('span');
+        const remove = document.createElement('button');
+        name.textContent = `${bundleDocument.name}.md`;
+        remove.type = 'button';
+        remove.textContent = '×';
+        remove.title = `Remove ${bundleDocument.name}.md`;
+        remove.addEventListener('click', () => {
+            bundleDocuments = bundleDocuments.filter((_, other) => other !== index);
+            renderBundleFileList();
+        });
+        item.append(name, remove);
+        return item;
+    }));
+}
+
+/**
+ * Handles the bundle button click event.
+ * Runs every selected factory on every bundle document (or the editor
+ * content) in the export worker and delivers a single ZIP archive.
+ */
+async function handleBundleExport(): Promise<void> {
+    if (exportController) {
+        return;
+    }
+
+    const markdownInput = document.getElementById('markdown-input') as HTMLTextAreaElement | null;
+    const selected = Array.from(document.querySelectorAll<HTMLInputElement>('input[name="bundle-format"]:checked'));
+    const options = readExportOptions();
+
+    if (selected.length === 0) {
+        alert('Please select at least one format for the bundle.');
+        return;
+    }
+
+    const documents = bundleDocuments.length > 0
+        ? bundleDocuments
+        : [{ ...(options.filename ? { name: options.filename } : {}), content: markdownInput?.value.trim() ?? '' }];
+
+    if (documents.every(bundleDocument => bundleDocument.content.trim().length === 0)) {
+        alert('Please enter some content to export.');
+        return;
+    }
+
+    const controller = new AbortController();
+    exportController = controller;
+    setExportRunning(true, 'bundle-button');
+    diagnosticsPanel?.clear();
+    try {
+        // The worker creates every selected format through its factory, as in handleExport
+        const result = await exportWorker.bundle(selected.map(checkbox => checkbox.value), documents, options, undefined, {
+            signal: controller.signal,
+            onProgress: showExportProgress,
+        });
+        await downloadSink.deliver(result);
+        diagnosticsPanel?.show(result.diagnostics ?? [], 'Bundle');
+    } catch (error) {
+        if (!controller.signal.aborted) {
+            console.error(error);
+            diagnosticsPanel?.showError(error);
+        }
+    } finally {
+        exportController = null;
+        setExportRunning(false);
+    }
+}
+
+/**
+ * Loads the data set of the mail merge from a CSV or JSON file.
+ * 
+ * @param file - Selected or dropped file
+ */
+async function loadMergeData(file: File): Promise<void> {
+    try {
+        mergeData = { name: file.name, records: parseMergeData(await file.text(), file.name) };
+    } catch (error) {
+        console.error(error);
+        alert(error instanceof Error ? error.message : String(error));
+    }
+    renderMergeDataInfo();
+}
+
+/**
+ * Shows the loaded data set with its record count and fields.
+ */
+function renderMergeDataInfo(): void {
+    const list = document.getElementById('merge-data-info');
+
+    if (!list) {
+        return;
+    }
+
+    const item = document.createElement('li');
+
+    if (!mergeData) {
+        item.className = 'placeholder';
+        item.textContent = 'No data loaded';
+        list.replaceChildren(item);
+        return;
+    }
+
+    const { name, records } = mergeData;
+    const fields = Object.keys(records[0] ?? {});
+    const summary = document.createElement('span');
+    const remove = document.createElement('button');
+    summary.textContent = `${name}: ${records.length} ${records.length === 1 ? 'record' : 'records'} (${fields.join(', ')})`;
+    remove.type = 'button';
+    remove.textContent = '×';
+    remove.title = `Remove ${name}`;
+    remove.addEventListener('click', () => {
+        mergeData = null;
+        renderMergeDataInfo();
+    });
+    item.append(summary, remove);
+    list.replaceChildren(item);
+}
+
+/**
+ * Handles the mail merge button click event.
+ * Fills in the editor content as template for every record of the data
+ * set, exports each document in the selected format in the export worker
+ * and delivers them as a single ZIP archive.
+ */
+async function handleMergeExport(): Promise<void> {
+    if (exportController) {
+        return;
+    }
+
+    const markdownInput = document.getElementById('markdown-input') as HTMLTextAreaElement | null;
+    const formatSelect = document.getElementById('format-select') as HTMLSelectElement | null;
+    const filenameInput = document.getElementById('merge-filename') as HTMLInputElement | null;
+    const template = markdownInput?.value ?? '';
+    const options = readExportOptions();
+
+    if (!mergeData) {
+        alert('Please load a CSV or JSON data file first.');
+        return;
+    }
+    if (template.trim().length === 0) {
+        alert('Please enter a template to merge.');
+        return;
+    }
+    if (!formatSelect) {
+        return;
+    }
+
+    const settings = {
+        filenameTemplate: filenameInput?.value ?? '',
+        bundleName: options.filename ?? baseName(mergeData.name),
+    };
+    const controller = new AbortController();
+    exportController = controller;
+    setExportRunning(true, 'merge-button');
+    diagnosticsPanel?.clear();
+    try {
+        // The worker creates the selected format through its factory, as in handleExport
+        const result = await exportWorker.merge(formatSelect.value, template, mergeData.records, options, settings, {
+            signal: controller.signal,
+            onProgress: showExportProgress,
+        });
+        await downloadSink.deliver(result);
+        diagnosticsPanel?.show(result.diagnostics ?? [], 'Mail merge');
+    } catch (error) {
+        if (!controller.signal.aborted) {
+            console.error(error);
+            diagnosticsPanel?.showError(error);
+        }
+    } finally {
+        exportController = null;
+        setExportRunning(false);
+    }
+}
+
+/**
+ * Reads a file as data URI.
+ * 
+ * @param file - File to read
+ * @returns Promise resolving to the data URI
+ */
+function readAsDataUrl(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+}
+
+/**
+ * Handles image files dropped onto the editor.
+ * Each image is inserted at the cursor as Markdown image with a data URI,
+ * so the document stays self-contained and exporters can embed it.
+ * 
+ * @param event - The drop event
+ */
+async function handleImageDrop(event: DragEvent): Promise<void> {
+    const markdownInput = event.currentTarget as HTMLTextAreaElement;
+    const images = Array.from(event.dataTransfer?.files ?? []).filter(file => file.type.startsWith('image/'));
+
+    if (images.length === 0) {
+        return;
+    }
+    event.preventDefault();
+
+    const markdown = await Promise.all(images.map(async file => {
+        const alt = file.name.replace(/\.[^.]+$/, '').replace(/[\[\]]/g, '');
+        return `![${alt}](${await readAsDataUrl(file)})`;
+    }));
+
+    const position = markdownInput.selectionStart;
+    const before = markdownInput.value.substring(0, position);
+    const after = markdownInput.value.substring(markdownInput.selectionEnd);
+    markdownInput.value = `${before}${markdown.join('\n')}${after}`;
+    markdownInput.dispatchEvent(new Event('input'));
+}
+
+/**
+ * Imports a Word or HTML document into the editor, replacing its content.
+ * Like exporting, this goes through a factory: the ImporterFactory
+ * registered for the file's extension creates the importer.
+ * 
+ * @param file - Document to import
+ */
+async function importDocument(file: File): Promise<void> {
+    const markdownInput = document.getElementById('markdown-input') as HTMLTextAreaElement | null;
+
+    if (!markdownInput) {
+        return;
+    }
+
+    try {
+        const importer = importerRegistry.forFile(file.name).createImporter();
+        const markdown = await importer.import(new Uint8Array(await file.arrayBuffer()));
+
+        if (markdownInput.value.trim() && !confirm(`Replace the current content with "${file.name}"?`)) {
+            return;
+        }
+        markdownInput.value = markdown;
+        markdownInput.dispatchEvent(new Event('input'));
+    } catch (error) {
+        console.error(error);
+        alert(error instanceof Error ? error.message : String(error));
+    }
+}
+
+/**
+ * Handles Word and HTML documents dropped onto the editor.
+ * 
+ * @param event - The drop event
+ */
+function handleImportDrop(event: DragEvent): void {
+    const file = Array.from(event.dataTransfer?.files ?? []).find(candidate => importerRegistry.accepts(candidate.name));
+
+    if (file) {
+        event.preventDefault();
+        void importDocument(file);
+    }
+}
+
+/**
+ * Loads the workspace and opens the document that was open last. Without
+ * IndexedDB (e.g. storage disabled), the editor keeps working unsaved.
+ */
+async function initWorkspace(): Promise<void> {
+    const markdownInput = document.getElementById('markdown-input') as HTMLTextAreaElement | null;
+
+    try {
+        workspace = await Workspace.open({ ...currentSettings(), content: markdownInput?.value ?? '' }, showSaveStatus);
+    } catch (error) {
+        console.error('Workspace could not be opened', error);
+        showSaveStatus('failed');
+        return;
+    }
+    showDocument(workspace.active);
+}
+
+/**
+ * Reads the selected format and the export options for a new document.
+ * The filename is left out, since it belongs to a single document.
+ * 
+ * @returns Format and options of the editor
+ */
+function currentSettings(): DocumentChanges {
+    const formatSelect = document.getElementById('format-select') as HTMLSelectElement | null;
+    const options = readExportOptions();
+    delete options.filename;
+
+    return { format: formatSelect?.value || null, options };
+}
+
+/**
+ * Records the editor content, format and options in the open document.
+ * The workspace saves them after a short pause.
+ */
+function recordChanges(): void {
+    const markdownInput = document.getElementById('markdown-input') as HTMLTextAreaElement | null;
+    const formatSelect = document.getElementById('format-select') as HTMLSelectElement | null;
+
+    workspace?.update({
+        content: markdownInput?.value ?? '',
+        format: formatSelect?.value || null,
+        options: readExportOptions(),
+    });
+}
+
+/**
+ * Shows a document in the editor with its format and export options.
+ * 
+ * @param workspaceDocument - Document to show
+ */
+function showDocument(workspaceDocument: WorkspaceDocument): void {
+    const markdownInput = document.getElementById('markdown-input') as HTMLTextAreaElement | null;
+    const formatSelect = document.getElementById('format-select') as HTMLSelectElement | null;
+
+    if (formatSelect && workspaceDocument.format && exporterRegistry.has(workspaceDocument.format)) {
+        formatSelect.value = workspaceDocument.format;
+    }
+    writeExportOptions(workspaceDocument.options);
+    if (markdownInput) {
+        markdownInput.value = workspaceDocument.content;
+    }
+
+    // Updates the option controls and the preview
+    formatSelect?.dispatchEvent(new Event('change'));
+    markdownInput?.dispatchEvent(new Event('input'));
+    diagnosticsPanel?.clear();
+    renderDocumentList();
+}
+
+/**
+ * Shows the workspace documents, each with rename and delete buttons.
+ */
+function renderDocumentList(): void {
+    const list = document.getElementById('document-list');
+
+    if (!list || !workspace) {
+        return;
+    }
+
+    const activeId = workspace.active.id;
+    const button = (text: string, title: string, className: string, action: () => void): HTMLButtonElement => {
+        const element = document.createElement('button');
+        element.type = 'button';
+        element.className = className;
+        element.textContent = text;
+        element.title = title;
+        element.addEventListener('click', action);
+        return element;
+    };
+
+    list.replaceChildren(...workspace.list().map(workspaceDocument => {
+        const item = document.createElement('li');
+        const { id, name } = workspaceDocument;
+
+        item.classList.toggle('active', id === activeId);
+        item.append(
+            button(name, `Open ${name}`, 'document-name', () => void openDocument(id)),
+            button('✎', `Rename ${name}`, 'document-action', () => void renameDocument(workspaceDocument)),
+            button('×', `Delete ${name}`, 'document-action', () => void deleteDocument(workspaceDocument)),
+        );
+        return item;
+    }));
+}
+
+/**
+ * Runs a workspace operation and reports failures. Does nothing while the
+ * workspace is not available.
+ * 
+ * @param action - Operation on the workspace
+ */
+async function withWorkspace(action: (current: Workspace) => Promise<void>): Promise<void> {
+    if (!workspace) {
+        return;
+    }
+
+    try {
+        await action(workspace);
+    } catch (error) {
+        console.error(error);
+        alert(error instanceof Error ? error.message : String(error));
+    }
+}
+
+/**
+ * Saves pending changes and opens another document.
+ * 
+ * @param id - Id of the document to open
+ */
+function openDocument(id: string): Promise<void> {
+    return withWorkspace(async current => {
+        await current.flush();
+        await current.select(id);
+        showDocument(current.active);
+    });
+}
+
+/**
+ * Creates an empty document with the current format and options.
+ */
+function createDocument(): Promise<void> {
+    return withWorkspace(async current => {
+        await current.flush();
+        showDocument(await current.create(undefined, currentSettings()));
+    });
+}
+
+/**
+ * Asks for a new name of a document.
+ * 
+ * @param workspaceDocument - Document to rename
+ */
+function renameDocument(workspaceDocument: WorkspaceDocument): Promise<void> {
+    const name = prompt('Document name', workspaceDocument.name);
+
+    if (name === null) {
+        return Promise.resolve();
+    }
+    return withWorkspace(async current => {
+        await current.rename(workspaceDocument.id, name);
+        renderDocumentList();
+    });
+}
+
+/**
+ * Deletes a document after confirmation (unless it is empty).
+ * 
+ * @param workspaceDocument - Document to delete
+ */
+function deleteDocument(workspaceDocument: WorkspaceDocument): Promise<void> {
+    if (workspaceDocument.content.trim() && !confirm(`Delete "${workspaceDocument.name}"? This cannot be undone.`)) {
+        return Promise.resolve();
+    }
+    return withWorkspace(async current => {
+        await current.remove(workspaceDocument.id);
+        showDocument(current.active);
+    });
+}
+
+/**
+ * Opens Markdown files as new documents, named after the files. Without
+ * a workspace, the first file replaces the editor content.
+ * 
+ * @param files - Files to open; other than Markdown files are ignored
+ */
+async function openMarkdownFiles(files: File[]): Promise<void> {
+    const markdownFiles = files.filter(file => isMarkdownFile(file));
+    const markdownInput = document.getElementById('markdown-input') as HTMLTextAreaElement | null;
+
+    if (markdownFiles.length === 0) {
+        return;
+    }
+
+    if (!workspace) {
+        const [file] = markdownFiles;
+        if (markdownInput && file && (!markdownInput.value.trim() || confirm(`Replace the current content with "${file.name}"?`))) {
+            markdownInput.value = await file.text();
+            markdownInput.dispatchEvent(new Event('input'));
+        }
+        return;
+    }
+
+    await withWorkspace(async current => {
+        await current.flush();
+        for (const file of markdownFiles) {
+            await current.create(baseName(file.name), { ...currentSettings(), content: await file.text() });
+        }
+        showDocument(current.active);
+    });
+}
+
+/**
+ * Handles Markdown files dropped onto the editor.
+ * 
+ * @param event - The drop event
+ */
+function handleMarkdownDrop(event: DragEvent): void {
+    const files = Array.from(event.dataTransfer?.files ?? []).filter(file => isMarkdownFile(file));
+
+    if (files.length > 0) {
+        event.preventDefault();
+        void openMarkdownFiles(files);
+    }
+}
+
+/**
+ * Downloads the editor content as a Markdown file named after the document.
+ */
+async function saveMarkdown(): Promise<void> {
+    const markdownInput = document.getElementById('markdown-input') as HTMLTextAreaElement | null;
+    const name = workspace?.active.name ?? readExportOptions().filename ?? '';
+
+    if (!markdownInput) {
+        return;
+    }
+
+    try {
+        await downloadSink.deliver({
+            data: new TextEncoder().encode(markdownInput.value),
+            mimeType: 'text/markdown;charset=utf-8',
+            filename: `${sanitizeFilename(name) || 'document'}.md`,
+        });
+    } catch (error) {
+        console.error(error);
+        alert(error instanceof Error ? error.message : String(error));
+    }
+}
+
+/**
+ * Shows the autosave state below the document list.
+ * 
+ * @param status - State of the autosave
+ */
+function showSaveStatus(status: SaveStatus): void {
+    const label = document.getElementById('save-status');
+    const messages: Record<SaveStatus, string> = {
+        pending: 'Saving…',
+        saved: 'All changes saved',
+        failed: 'Changes could not be saved in this browser',
+    };
+
+    if (label) {
+        label.textContent = messages[status];
+        label.classList.toggle('failed', status === 'failed');
+    }
 }
 
 /**
@@ -86,6 +1070,166 @@ function init(): void {
     console.log('Document Exporter - Factory Method Pattern Demo');
     console.log('Application initialized');
 
+    // Generate the format options from the registry
+    const formatSelect = document.getElementById('format-select') as HTMLSelectElement | null;
+    
+    if (formatSelect) {
+        populateFormatSelect(formatSelect);
+        updateOptionControls(formatSelect.value);
+        formatSelect.addEventListener('change', () => updateOptionControls(formatSelect.value));
+    } else {
+        console.error('Format select not found');
+    }
+
+    // Accept images, Markdown files and importable documents dropped onto the editor
+    const markdownInput = document.getElementById('markdown-input');
+    
+    if (markdownInput) {
+        markdownInput.addEventListener('dragover', event => event.preventDefault());
+        markdownInput.addEventListener('drop', handleImageDrop);
+        markdownInput.addEventListener('drop', handleMarkdownDrop);
+        markdownInput.addEventListener('drop', handleImportDrop);
+    }
+
+    // Open and save Markdown files
+    const openInput = document.getElementById('open-file') as HTMLInputElement | null;
+
+    if (openInput) {
+        openInput.addEventListener('change', () => {
+            void openMarkdownFiles(Array.from(openInput.files ?? []));
+            openInput.value = '';
+        });
+    }
+    document.getElementById('save-markdown')?.addEventListener('click', saveMarkdown);
+
+    // Select and import themes
+    const themeSelect = document.getElementById('option-theme') as HTMLSelectElement | null;
+    const themeInput = document.getElementById('import-theme') as HTMLInputElement | null;
+
+    if (themeSelect) {
+        populateThemeSelect(themeSelect);
+        // Runs before the options panel listeners, which read the updated fields
+        themeSelect.addEventListener('input', applyThemeTypography);
+    }
+    if (themeInput) {
+        themeInput.addEventListener('change', () => {
+            const file = themeInput.files?.[0];
+            if (file) {
+                void importTheme(file);
+            }
+            themeInput.value = '';
+        });
+    }
+
+    // Import Word and HTML documents through the file picker
+    const importInput = document.getElementById('import-file') as HTMLInputElement | null;
+
+    if (importInput) {
+        importInput.accept = importerRegistry.formats()
+            .flatMap(format => format.extensions.map(extension => `.${extension}`))
+            .join(',');
+        importInput.addEventListener('change', () => {
+            const file = importInput.files?.[0];
+            if (file) {
+                void importDocument(file);
+            }
+            importInput.value = '';
+        });
+    }
+
+    // Re-render the preview whenever content, format or options change
+    const outputSection = document.getElementById('output-section');
+    const outputContent = document.getElementById('output-content');
+    const diagnosticsList = document.getElementById('export-diagnostics');
+    
+    if (outputSection && diagnosticsList) {
+        diagnosticsPanel = new DiagnosticsPanel(outputSection, diagnosticsList);
+    }
+    if (outputSection && outputContent) {
+        const preview = new LivePreview(outputSection, outputContent, exportWorker);
+        const refresh = (): void => refreshPreview(preview);
+        
+        markdownInput?.addEventListener('input', refresh);
+        formatSelect?.addEventListener('change', refresh);
+        document.querySelector('.options-panel')?.addEventListener('input', refresh);
+        refresh();
+    }
+
+    // Set up the bundle export
+    const bundleFormats = document.getElementById('bundle-formats');
+    const bundleDropZone = document.getElementById('bundle-drop-zone');
+    const bundleFiles = document.getElementById('bundle-files') as HTMLInputElement | null;
+    const bundleButton = document.getElementById('bundle-button');
+
+    if (bundleFormats) {
+        populateBundleFormats(bundleFormats);
+    }
+    if (bundleFiles) {
+        bundleFiles.addEventListener('change', () => {
+            void addBundleFiles(Array.from(bundleFiles.files ?? []));
+            bundleFiles.value = '';
+        });
+    }
+    if (bundleDropZone) {
+        bundleDropZone.addEventListener('dragover', event => {
+            event.preventDefault();
+            bundleDropZone.classList.add('dragover');
+        });
+        bundleDropZone.addEventListener('dragleave', () => bundleDropZone.classList.remove('dragover'));
+        bundleDropZone.addEventListener('drop', event => {
+            event.preventDefault();
+            bundleDropZone.classList.remove('dragover');
+            if (event.dataTransfer) {
+                void collectDroppedFiles(event.dataTransfer).then(addBundleFiles);
+            }
+        });
+    }
+    bundleButton?.addEventListener('click', handleBundleExport);
+    renderBundleFileList();
+
+    // Set up the mail merge
+    const mergeDropZone = document.getElementById('merge-drop-zone');
+    const mergeInput = document.getElementById('merge-data') as HTMLInputElement | null;
+
+    if (mergeInput) {
+        mergeInput.addEventListener('change', () => {
+            const file = mergeInput.files?.[0];
+            if (file) {
+                void loadMergeData(file);
+            }
+            mergeInput.value = '';
+        });
+    }
+    if (mergeDropZone) {
+        mergeDropZone.addEventListener('dragover', event => {
+            event.preventDefault();
+            mergeDropZone.classList.add('dragover');
+        });
+        mergeDropZone.addEventListener('dragleave', () => mergeDropZone.classList.remove('dragover'));
+        mergeDropZone.addEventListener('drop', event => {
+            event.preventDefault();
+            mergeDropZone.classList.remove('dragover');
+            const file = event.dataTransfer?.files[0];
+            if (file) {
+                void loadMergeData(file);
+            }
+        });
+    }
+    document.getElementById('merge-button')?.addEventListener('click', handleMergeExport);
+    renderMergeDataInfo();
+
+    // Autosave the documents, with their format and options
+    markdownInput?.addEventListener('input', recordChanges);
+    formatSelect?.addEventListener('change', recordChanges);
+    document.querySelector('.options-panel')?.addEventListener('input', recordChanges);
+    document.getElementById('new-document')?.addEventListener('click', createDocument);
+    document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') {
+            void workspace?.flush();
+        }
+    });
+    void initWorkspace();
+
     // Get export button and attach event listener
     const exportButton = document.getElementById('export-button');
     
@@ -95,6 +1239,8 @@ function init(): void {
     } else {
         console.error('Export button not found');
     }
+
+    document.getElementById('export-cancel')?.addEventListener('click', () => exportController?.abort());
 }
 
 // Initialize when DOM is ready
@@ -0,0 +1,115 @@
+import type { ExportControl, ExportDiagnostic, ExporterFactory, ExportOptions, ExportResult } from '../interfaces';
+import { ExportBundler } from '../bundle';
+import type { BundleDocument } from '../bundle';
+import { DiagnosticCollector } from '../utils';
+import { InvalidMergeDataError } from '../errors';
+import { MergeTemplate } from './MergeTemplate';
+import type { MergeRecord } from './mergeData';
+
+/**
+ * Settings of a mail merge besides the export options.
+ */
+export interface MergeSettings {
+    /**
+     * Template of the output filenames, e.g. "{{lastName}}-offer.pdf". The
+     * format's extension may be left out. When not set, the filenames are
+     * derived from each document's front matter title.
+     */
+    filenameTemplate?: string;
+
+    /**
+     * Filename of the archive without extension (default "mail-merge").
+     */
+    bundleName?: string;
+}
+
+/**
+ * MailMerge
+ * 
+ * Combines a Markdown template with a data set: every record fills in the
+ * template (see MergeTemplate) and the resulting document is exported
+ * through the given ExporterFactory. All documents are packed into one ZIP
+ * archive by the ExportBundler, so the merge is delivered like a bundle.
+ * 
+ * Variables a record has no value for are left blank and reported as
+ * diagnostics naming the record's row, ahead of the diagnostics of the
+ * exported files.
+ */
+export class MailMerge {
+    /**
+     * @param factory - Factory of the output format
+     */
+    constructor(private readonly factory: ExporterFactory) {}
+
+    /**
+     * Fills in the template for every record and exports the documents.
+     * 
+     * @param template - Markdown template
+     * @param records - Data set, one document per record
+     * @param options - Export options applied to all documents (the filename is taken from the filename template)
+     * @param settings - Filename template and archive name
+     * @param control - Progress callback and abort signal, passed on to the bundle
+     * @returns The generated ZIP archive
+     * @throws InvalidTemplateError if the template or the filename template is malformed
+     * @throws InvalidMergeDataError if there are no records
+     * @throws ExportError if an export fails
+     * @throws ExportAbortedError once the merge is aborted
+     */
+    async merge(
+        template: string,
+        records: MergeRecord[],
+        options: Partial<ExportOptions> = {},
+        settings: MergeSettings = {},
+        control: ExportControl = {},
+    ): Promise<ExportResult> {
+        console.log('MailMerge: Starting mail merge...');
+        
+        if (records.length === 0) {
+            throw new InvalidMergeDataError('the data set has no records');
+        }
+        
+        const content = new MergeTemplate(template);
+        const filename = settings.filenameTemplate?.trim()
+            ? new MergeTemplate(this.stripExtension(settings.filenameTemplate.trim()), false)
+            : null;
+        const documents: BundleDocument[] = [];
+        const diagnostics: ExportDiagnostic[] = [];
+        
+        records.forEach((record, index) => {
+            const row = index + 1;
+            const collector = new DiagnosticCollector();
+            const output = content.render(record, row);
+            
+            output.problems.forEach(problem =>
+                collector.add('warning', 'missing-variable', `row ${row}: ${problem.message}, left blank`, problem.position));
+            
+            if (filename) {
+                const name = filename.render(record, row);
+                name.problems.forEach(problem =>
+                    collector.add('warning', 'missing-variable', `row ${row}: ${problem.message} in the filename, left blank`));
+                documents.push({ name: name.text, content: output.text });
+            } else {
+                documents.push({ content: output.text });
+            }
+            diagnostics.push(...collector.toArray());
+        });
+        
+        const result = await new ExportBundler([this.factory]).bundle(documents, options, settings.bundleName ?? 'mail-merge', control);
+        
+        console.log('MailMerge: Merge completed successfully');
+        return { ...result, diagnostics: [...diagnostics, ...(result.diagnostics ?? [])] };
+    }
+
+    /**
+     * Removes the extension of the output format from the filename
+     * template; the exporter adds it.
+     * 
+     * @param template - Filename template
+     * @returns Template without the extension
+     */
+    private stripExtension(template: string): string {
+        const extension = `.${this.factory.format.extension}`;
+        
+        return template.toLowerCase().endsWith(extension) ? template.substring(0, template.length - extension.length) : template;
+    }
+}
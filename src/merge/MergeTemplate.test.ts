@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { MergeTemplate } from './MergeTemplate';
+import { parseMergeData } from './mergeData';
+import { InvalidMergeDataError, InvalidTemplateError } from '../errors';
+import type { MergeRecord } from './mergeData';
+
+/**
+ * Renders a template for one record and returns the text.
+ */
+function render(source: string, record: MergeRecord, row = 1): string {
+    return new MergeTemplate(source).render(record, row).text;
+}
+
+describe('MergeTemplate', () => {
+    it('escapes Markdown characters unless the tag is triple', () => {
+        const record = { name: '*Ada* [L]_' };
+
+        expect(render('Hi {{name}}', record)).toBe('Hi \\*Ada\\* \\[L\\]\\_');
+        expect(render('Hi {{{name}}}', record)).toBe('Hi *Ada* [L]_');
+        expect(new MergeTemplate('Hi {{name}}', false).render(record, 1).text).toBe('Hi *Ada* [L]_');
+    });
+
+    it('does not escape values in the front matter', () => {
+        const source = '---\ntitle: {{title}}\n---\n# {{title}}\n';
+
+        expect(render(source, { title: 'a_b' })).toBe('---\ntitle: a_b\n---\n# a\\_b\n');
+    });
+
+    it('reads dotted paths and names with spaces', () => {
+        const record = { 'first name': 'Ada', address: { city: 'London' } };
+
+        expect(render('{{ first name }} in {{address.city}}', record)).toBe('Ada in London');
+    });
+
+    it('formats lists, objects and null', () => {
+        expect(render('{{a}}|{{{b}}}|{{c}}', { a: [1, 2], b: { x: 1 }, c: null })).toBe('1, 2|{"x":1}|');
+    });
+
+    it('chooses branches of #if, else and #unless', () => {
+        const source = '{{#if vip}}VIP{{else}}guest{{/if}}/{{#unless vip}}no{{/unless}}';
+
+        expect(render(source, { vip: true })).toBe('VIP/');
+        expect(render(source, { vip: '  ' })).toBe('guest/no');
+        expect(render(source, { vip: [] })).toBe('guest/no');
+        expect(render(source, { vip: 0 })).toBe('guest/no');
+        expect(render(source, {})).toBe('guest/no');
+    });
+
+    it('repeats #each with this, @number, @row and outer fields', () => {
+        const source = '{{#each items}}{{@number}}. {{this}} ({{@row}}, {{owner}})\n{{/each}}';
+
+        expect(render(source, { items: ['a', 'b'], owner: 'Ada' }, 7)).toBe('1. a (7, Ada)\n2. b (7, Ada)\n');
+        expect(render('{{#each items}}{{name}} {{/each}}', { items: [{ name: 'x' }, { name: 'y' }] })).toBe('x y ');
+    });
+
+    it('removes block tags that stand alone on their line', () => {
+        const source = 'Dear {{name}},\n  {{#if vip}}\nThanks!\n  {{/if}}\nBye\n';
+
+        expect(render(source, { name: 'Ada', vip: true })).toBe('Dear Ada,\nThanks!\nBye\n');
+        expect(render(source, { name: 'Ada', vip: false })).toBe('Dear Ada,\nBye\n');
+    });
+
+    it('leaves missing variables blank and reports them', () => {
+        const output = new MergeTemplate('Hi {{name}}\n{{#each list}}x{{/each}}{{constructor}}').render({ list: 'no' }, 1);
+
+        expect(output.text).toBe('Hi \n');
+        expect(output.problems.map(problem => problem.message)).toEqual([
+            'variable "name" is missing',
+            'variable "list" is not a list',
+            'variable "constructor" is missing',
+        ]);
+        expect(output.problems[0]!.position.start).toMatchObject({ line: 1, column: 4 });
+    });
+
+    it('rejects malformed templates with the line number', () => {
+        expect(() => new MergeTemplate('a\n{{#if x}}\nb')).toThrow(InvalidTemplateError);
+        expect(() => new MergeTemplate('a\n{{#if x}}\nb')).toThrow(/line 2: \{\{#if x\}\} is not closed/);
+        expect(() => new MergeTemplate('{{#if x}}{{/each}}')).toThrow(/closes \{\{#if\}\}/);
+        expect(() => new MergeTemplate('{{/if}}')).toThrow(/without opening tag/);
+        expect(() => new MergeTemplate('{{else}}')).toThrow(/outside of/);
+        expect(() => new MergeTemplate('{{#with x}}{{/with}}')).toThrow(/unknown block/);
+        expect(() => new MergeTemplate('{{a..b}}')).toThrow(/invalid variable name/);
+    });
+});
+
+describe('parseMergeData', () => {
+    it('reads CSV with quoted fields and a semicolon separator', () => {
+        const csv = '\uFEFFname;note\n"Ada";"a; ""b""\nc"\n\nBob;x\n';
+
+        expect(parseMergeData(csv, 'data.csv')).toEqual([
+            { name: 'Ada', note: 'a; "b"\nc' },
+            { name: 'Bob', note: 'x' },
+        ]);
+    });
+
+    it('reads JSON lists of objects', () => {
+        expect(parseMergeData('[{"a": {"b": 1}}]')).toEqual([{ a: { b: 1 } }]);
+    });
+
+    it('rejects data it cannot merge', () => {
+        expect(() => parseMergeData('name\n', 'data.csv')).toThrow(InvalidMergeDataError);
+        expect(() => parseMergeData('a,b\n1\n', 'data.csv')).toThrow(/line 2 has 1 fields/);
+        expect(() => parseMergeData('a,a\n1,2\n', 'data.csv')).toThrow(/appears twice/);
+        expect(() => parseMergeData('{"a": 1}', 'data.json')).toThrow(/list of objects/);
+        expect(() => parseMergeData('[1]')).toThrow(/record 1 is not an object/);
+    });
+});
@@ -0,0 +1,379 @@
+import type { SourcePosition } from '../parser';
+import { InvalidTemplateError } from '../errors';
+import type { MergeRecord, MergeValue } from './mergeData';
+
+/**
+ * Characters with a meaning in inline Markdown, escaped in inserted values.
+ */
+const MARKDOWN_SPECIAL = /[\\`*_\[\]|]/g;
+
+/**
+ * A {{...}} or {{{...}}} tag.
+ */
+const TAG = /\{\{\{\s*([^}]*?)\s*\}\}\}|\{\{\s*([^}]*?)\s*\}\}/g;
+
+/**
+ * Leading YAML front matter block. Values inserted there are not escaped,
+ * since the front matter is not Markdown.
+ */
+const FRONT_MATTER = /^---[ \t]*\r?\n[\s\S]*?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Variable names: "this", the special variables @row and @number, or
+ * field names separated by dots. Field names may contain spaces, as CSV
+ * column names often do.
+ */
+const PATH = /^(?:this|@row|@number|[^\s.#/@{}][^.{}]*(?:\.[^.{}]+)*)$/;
+
+/**
+ * Compiled template: text, variables and blocks.
+ */
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | { type: 'value'; path: string; raw: boolean; position: SourcePosition }
+    | { type: 'if'; path: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+    | { type: 'each'; path: string; body: TemplateNode[]; position: SourcePosition };
+
+/**
+ * An open block while compiling.
+ */
+interface OpenBlock {
+    node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+    tag: string;
+    line: number;
+
+    /**
+     * Nodes the content of the block is added to.
+     */
+    children: TemplateNode[];
+}
+
+/**
+ * A variable that could not be filled in for a record.
+ */
+export interface MergeProblem {
+    /**
+     * Description, e.g. 'variable "lastName" is missing'.
+     */
+    message: string;
+
+    /**
+     * Location of the variable in the template.
+     */
+    position: SourcePosition;
+}
+
+/**
+ * Result of rendering a template for one record.
+ */
+export interface MergeOutput {
+    text: string;
+    problems: MergeProblem[];
+}
+
+/**
+ * MergeTemplate
+ * 
+ * A Markdown template for mail merge. Supported tags:
+ * - {{name}} - the value of a variable, with Markdown characters escaped
+ *   so the data appears as written; {{{name}}} inserts it unescaped
+ * - {{address.city}} - a field of an object value (JSON data)
+ * - {{#if name}} ... {{else}} ... {{/if}} and {{#unless name}} ... {{/unless}}
+ * - {{#each items}} ... {{/each}} - repeats its content per list item;
+ *   inside, {{this}} is the item, {{field}} a field of the item and
+ *   {{@number}} its position (1, 2, ...)
+ * - {{@row}} - the number of the record in the data set
+ * 
+ * Values in the front matter block are always inserted unescaped.
+ * 
+ * A variable is false in a condition when it is missing, empty, null,
+ * false, 0 or an empty list. Block tags on a line of their own remove
+ * the whole line, so they do not leave blank lines in the output.
+ */
+export class MergeTemplate {
+    private readonly nodes: TemplateNode[];
+
+    /**
+     * @param source - Template text
+     * @param escapeMarkdown - Whether {{name}} escapes Markdown characters in values
+     * @throws InvalidTemplateError if a tag is malformed or a block is not closed
+     */
+    constructor(source: string, private readonly escapeMarkdown = true) {
+        this.nodes = this.compile(source);
+    }
+
+    /**
+     * Fills in the template for one record. Variables that are missing in
+     * the record are left blank and reported.
+     * 
+     * @param record - Values of the record
+     * @param row - Number of the record in the data set (1-based)
+     * @returns The filled-in text and the variables that could not be filled in
+     */
+    render(record: MergeRecord, row: number): MergeOutput {
+        const problems: MergeProblem[] = [];
+        const scopes: MergeScope[] = [{ value: record, number: row }];
+        const text = this.renderNodes(this.nodes, scopes, row, problems);
+        
+        return { text, problems };
+    }
+
+    /**
+     * Splits the template into nodes.
+     * 
+     * @param source - Template text
+     * @returns Top-level nodes
+     * @throws InvalidTemplateError if a tag is malformed or a block is not closed
+     */
+    private compile(source: string): TemplateNode[] {
+        const root: TemplateNode[] = [];
+        const stack: OpenBlock[] = [];
+        const target = (): TemplateNode[] => stack[stack.length - 1]?.children ?? root;
+        const frontMatterEnd = source.match(FRONT_MATTER)?.[0].length ?? 0;
+        let cursor = 0;
+        
+        for (const match of source.matchAll(TAG)) {
+            const start = match.index!;
+            const raw = match[1] !== undefined || start < frontMatterEnd;
+            const content = (match[1] ?? match[2])!;
+            let end = start + match[0].length;
+            const position = positionOf(source, start, end);
+            const line = position.start.line;
+            let textEnd = start;
+            
+            // A block tag alone on its line takes the line with it
+            if (match[1] === undefined && /^[#/]|^else$/.test(content)) {
+                const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+                const lineEnd = source.indexOf('\n', end);
+                const after = source.substring(end, lineEnd === -1 ? source.length : lineEnd);
+                
+                if (lineStart >= cursor && /^[ \t]*$/.test(source.substring(lineStart, start)) && /^[ \t\r]*$/.test(after)) {
+                    textEnd = lineStart;
+                    end = lineEnd === -1 ? source.length : lineEnd + 1;
+                }
+            }
+            if (textEnd > cursor) {
+                target().push({ type: 'text', text: source.substring(cursor, textEnd) });
+            }
+            cursor = end;
+            
+            if (match[1] !== undefined) {
+                target().push({ type: 'value', path: this.readPath(content, line), raw: true, position });
+                continue;
+            }
+            
+            const block = content.match(/^#(if|unless|each)\s+(.+)$/);
+            if (block) {
+                const [, tag, path] = block as [string, string, string];
+                const node: OpenBlock['node'] = tag === 'each'
+                    ? { type: 'each', path: this.readPath(path, line), body: [], position }
+                    : { type: 'if', path: this.readPath(path, line), negate: tag === 'unless', then: [], otherwise: [] };
+                target().push(node);
+                stack.push({ node, tag, line, children: node.type === 'each' ? node.body : node.then });
+            } else if (content === 'else') {
+                const open = stack[stack.length - 1];
+                if (!open || open.node.type !== 'if' || open.children === open.node.otherwise) {
+                    throw new InvalidTemplateError(`line ${line}: {{else}} outside of {{#if}} or {{#unless}}`);
+                }
+                open.children = open.node.otherwise;
+            } else if (content.startsWith('/')) {
+                const tag = content.substring(1).trim();
+                const open = stack.pop();
+                if (!open) {
+                    throw new InvalidTemplateError(`line ${line}: {{/${tag}}} without opening tag`);
+                }
+                if (open.tag !== tag) {
+                    throw new InvalidTemplateError(`line ${line}: {{/${tag}}} closes {{#${open.tag}}} from line ${open.line}`);
+                }
+            } else if (content.startsWith('#')) {
+                throw new InvalidTemplateError(`line ${line}: unknown block {{${content}}}, expected #if, #unless or #each`);
+            } else {
+                target().push({ type: 'value', path: this.readPath(content, line), raw, position });
+            }
+        }
+        
+        if (cursor < source.length) {
+            target().push({ type: 'text', text: source.substring(cursor) });
+        }
+        
+        const unclosed = stack.pop();
+        if (unclosed) {
+            throw new InvalidTemplateError(`line ${unclosed.line}: {{#${unclosed.tag} ${unclosed.node.path}}} is not closed`);
+        }
+        
+        return root;
+    }
+
+    /**
+     * Checks a variable name.
+     * 
+     * @param path - Variable name from a tag
+     * @param line - Line of the tag for the error message
+     * @returns The variable name
+     * @throws InvalidTemplateError if it is not a valid name
+     */
+    private readPath(path: string, line: number): string {
+        const trimmed = path.trim();
+        
+        if (!PATH.test(trimmed)) {
+            throw new InvalidTemplateError(`line ${line}: invalid variable name "{{${trimmed}}}"`);
+        }
+        return trimmed;
+    }
+
+    /**
+     * Renders nodes with the given variable scopes.
+     * 
+     * @param nodes - Nodes to render
+     * @param scopes - Variable scopes, innermost last
+     * @param row - Number of the record
+     * @param problems - Receives the variables that could not be filled in
+     * @returns The rendered text
+     */
+    private renderNodes(nodes: TemplateNode[], scopes: MergeScope[], row: number, problems: MergeProblem[]): string {
+        return nodes.map(node => {
+            switch (node.type) {
+                case 'text':
+                    return node.text;
+                case 'value': {
+                    const value = lookup(node.path, scopes, row);
+                    if (value === undefined) {
+                        problems.push({ message: `variable "${node.path}" is missing`, position: node.position });
+                        return '';
+                    }
+                    const text = formatValue(value);
+                    return node.raw || !this.escapeMarkdown ? text : text.replace(MARKDOWN_SPECIAL, '\\$&');
+                }
+                case 'if': {
+                    const truthy = isTruthy(lookup(node.path, scopes, row));
+                    return this.renderNodes(truthy !== node.negate ? node.then : node.otherwise, scopes, row, problems);
+                }
+                case 'each': {
+                    const value = lookup(node.path, scopes, row);
+                    if (!Array.isArray(value)) {
+                        const message = value === undefined ? `variable "${node.path}" is missing` : `variable "${node.path}" is not a list`;
+                        problems.push({ message, position: node.position });
+                        return '';
+                    }
+                    return value.map((item, index) =>
+                        this.renderNodes(node.body, [...scopes, { value: item, number: index + 1 }], row, problems)).join('');
+                }
+            }
+        }).join('');
+    }
+}
+
+/**
+ * A level of variable lookup: the record, or the current item of a loop.
+ */
+interface MergeScope {
+    value: MergeValue;
+    number: number;
+}
+
+/**
+ * Looks up a variable, from the innermost scope outwards.
+ * 
+ * @param path - Variable name
+ * @param scopes - Variable scopes, innermost last
+ * @param row - Number of the record
+ * @returns The value, or undefined if no scope has it
+ */
+function lookup(path: string, scopes: MergeScope[], row: number): MergeValue | undefined {
+    const innermost = scopes[scopes.length - 1]!;
+
+    if (path === '@row') {
+        return row;
+    }
+    if (path === '@number') {
+        return innermost.number;
+    }
+    if (path === 'this') {
+        return innermost.value;
+    }
+
+    const [first, ...rest] = path.split('.') as [string, ...string[]];
+
+    for (let index = scopes.length - 1; index >= 0; index--) {
+        const scope = scopes[index]!.value;
+        if (isObject(scope) && hasField(scope, first)) {
+            return rest.reduce<MergeValue | undefined>(
+                (value, key) => (isObject(value) && hasField(value, key) ? value[key] : undefined),
+                scope[first],
+            );
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Checks whether a value is an object with fields.
+ * 
+ * @param value - Value to check
+ * @returns true for objects that are not lists
+ */
+function isObject(value: MergeValue | undefined): value is { [key: string]: MergeValue } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether an object has a field of its own, so names like
+ * "constructor" are not taken from the prototype.
+ * 
+ * @param value - Object to check
+ * @param key - Field name
+ * @returns true if the object has the field
+ */
+function hasField(value: { [key: string]: MergeValue }, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+/**
+ * Decides a condition.
+ * 
+ * @param value - Value of the variable, undefined if missing
+ * @returns false for missing, empty, null, false, 0 and empty lists
+ */
+function isTruthy(value: MergeValue | undefined): boolean {
+    if (Array.isArray(value)) {
+        return value.length > 0;
+    }
+    if (typeof value === 'string') {
+        return value.trim() !== '';
+    }
+    return Boolean(value);
+}
+
+/**
+ * Converts a value to text. Lists are joined with commas, objects are
+ * written as JSON.
+ * 
+ * @param value - Value to convert
+ * @returns Text of the value
+ */
+function formatValue(value: MergeValue): string {
+    if (value === null) {
+        return '';
+    }
+    if (Array.isArray(value)) {
+        return value.map(formatValue).join(', ');
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Computes the source position of a tag.
+ * 
+ * @param source - Template text
+ * @param start - Offset of the tag
+ * @param end - Offset after the tag
+ * @returns Position of the tag
+ */
+function positionOf(source: string, start: number, end: number): SourcePosition {
+    const point = (offset: number) => {
+        const before = source.substring(0, offset);
+        return { line: before.split('\n').length, column: offset - before.lastIndexOf('\n'), offset };
+    };
+
+    return { start: point(start), end: point(end) };
+}
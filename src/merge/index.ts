@@ -0,0 +1,6 @@
+export { MailMerge } from './MailMerge';
+export type { MergeSettings } from './MailMerge';
+export { MergeTemplate } from './MergeTemplate';
+export type { MergeOutput, MergeProblem } from './MergeTemplate';
+export { parseMergeData } from './mergeData';
+export type { MergeRecord, MergeValue } from './mergeData';
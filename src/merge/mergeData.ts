@@ -0,0 +1,198 @@
+import { InvalidMergeDataError } from '../errors';
+
+/**
+ * Merge Data
+ * 
+ * Reads the data set of a mail merge from CSV or JSON. Every record
+ * becomes one document.
+ */
+
+/**
+ * A value of a record. CSV values are always strings; JSON data may
+ * contain numbers, booleans, lists and nested objects.
+ */
+export type MergeValue = string | number | boolean | null | MergeValue[] | { [key: string]: MergeValue };
+
+/**
+ * One record of the data set, by field name.
+ */
+export type MergeRecord = { [key: string]: MergeValue };
+
+/**
+ * Parses a data set. The format is taken from the file extension, or
+ * from the content when the name has neither .csv nor .json.
+ * 
+ * @param text - Content of the data file
+ * @param filename - Name of the data file, if any
+ * @returns The records in file order
+ * @throws InvalidMergeDataError if the data cannot be read or has no records
+ */
+export function parseMergeData(text: string, filename = ''): MergeRecord[] {
+    const content = text.replace(/^\uFEFF/, '');
+    const extension = filename.toLowerCase().match(/\.(csv|json)$/)?.[1];
+    const json = extension === 'json' || (extension === undefined && /^\s*[\[{]/.test(content));
+    const records = json ? parseJson(content) : parseCsv(content);
+
+    if (records.length === 0) {
+        throw new InvalidMergeDataError('the data set has no records');
+    }
+    return records;
+}
+
+/**
+ * Reads JSON data: a list of objects.
+ * 
+ * @param text - JSON text
+ * @returns The records
+ * @throws InvalidMergeDataError if the text is not a list of objects
+ */
+function parseJson(text: string): MergeRecord[] {
+    let data: unknown;
+
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new InvalidMergeDataError(error instanceof Error ? error.message : String(error));
+    }
+    if (!Array.isArray(data)) {
+        throw new InvalidMergeDataError('JSON data must be a list of objects');
+    }
+
+    return data.map((record: unknown, index) => {
+        if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+            throw new InvalidMergeDataError(`record ${index + 1} is not an object`);
+        }
+        return record as MergeRecord;
+    });
+}
+
+/**
+ * Reads CSV data (RFC 4180). The first line holds the field names; the
+ * separator is a comma, or a semicolon if the first line has more of
+ * those (as spreadsheet programs write in some locales). Empty lines are
+ * skipped.
+ * 
+ * @param text - CSV text
+ * @returns The records
+ * @throws InvalidMergeDataError for unclosed quotes or lines with the wrong number of fields
+ */
+function parseCsv(text: string): MergeRecord[] {
+    const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+    const separator = count(firstLine, ';') > count(firstLine, ',') ? ';' : ',';
+    const rows = splitCsv(text, separator);
+    const header = rows.shift();
+
+    if (!header) {
+        return [];
+    }
+
+    const names = header.fields.map(name => name.trim());
+    const empty = names.findIndex(name => name === '');
+    if (empty !== -1) {
+        throw new InvalidMergeDataError(`column ${empty + 1} of the header line has no name`);
+    }
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate !== undefined) {
+        throw new InvalidMergeDataError(`column "${duplicate}" appears twice in the header line`);
+    }
+
+    return rows.map(row => {
+        if (row.fields.length !== names.length) {
+            throw new InvalidMergeDataError(`line ${row.line} has ${row.fields.length} fields, the header line has ${names.length}`);
+        }
+        return Object.fromEntries(names.map((name, index) => [name, row.fields[index]!]));
+    });
+}
+
+/**
+ * A line of a CSV file.
+ */
+interface CsvRow {
+    /**
+     * Line number where the row starts (1-based).
+     */
+    line: number;
+    fields: string[];
+}
+
+/**
+ * Splits CSV text into rows and fields. Quoted fields may contain
+ * separators, line breaks and doubled quotes.
+ * 
+ * @param text - CSV text
+ * @param separator - Field separator
+ * @returns The non-empty rows
+ * @throws InvalidMergeDataError for an unclosed quote
+ */
+function splitCsv(text: string, separator: string): CsvRow[] {
+    const rows: CsvRow[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let line = 1;
+    let rowLine = 1;
+    let index = 0;
+
+    const endRow = (): void => {
+        fields.push(field);
+        if (fields.length > 1 || fields[0]!.trim() !== '') {
+            rows.push({ line: rowLine, fields });
+        }
+        fields = [];
+        field = '';
+    };
+
+    while (index < text.length) {
+        const char = text[index]!;
+        
+        if (char === '"' && field.trim() === '') {
+            const quoteLine = line;
+            field = '';
+            index++;
+            for (;;) {
+                if (index >= text.length) {
+                    throw new InvalidMergeDataError(`line ${quoteLine}: quoted field is not closed`);
+                }
+                if (text[index] === '"') {
+                    if (text[index + 1] !== '"') {
+                        break;
+                    }
+                    index++;
+                }
+                if (text[index] === '\n') {
+                    line++;
+                }
+                field += text[index];
+                index++;
+            }
+            index++;
+        } else if (char === separator) {
+            fields.push(field);
+            field = '';
+            index++;
+        } else if (char === '\n' || char === '\r') {
+            endRow();
+            index += char === '\r' && text[index + 1] === '\n' ? 2 : 1;
+            line++;
+            rowLine = line;
+        } else {
+            field += char;
+            index++;
+        }
+    }
+    if (field !== '' || fields.length > 0) {
+        endRow();
+    }
+
+    return rows;
+}
+
+/**
+ * Counts the occurrences of a character.
+ * 
+ * @param text - Text to search
+ * @param char - Character to count
+ * @returns Number of occurrences
+ */
+function count(text: string, char: string): number {
+    return text.split(char).length - 1;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EXPORT_OPTIONS, documentFilename, resolveExportOptions, sanitizeFilename } from './exportOptions';
+import type { DocumentMetadata } from '../parser';
+
+const METADATA: DocumentMetadata = { title: null, author: null, subject: null, keywords: [], date: null };
+
+describe('resolveExportOptions', () => {
+    it('fills in the defaults', () => {
+        expect(resolveExportOptions()).toEqual(DEFAULT_EXPORT_OPTIONS);
+    });
+
+    it('clamps numbers to their ranges', () => {
+        const options = resolveExportOptions({
+            fontSize: 500,
+            lineSpacing: 0.1,
+            margins: { top: -10, right: 1000, bottom: 20, left: 20 },
+        });
+
+        expect(options.fontSize).toBe(72);
+        expect(options.lineSpacing).toBe(0.8);
+        expect(options.margins).toEqual({ top: 0, right: 100, bottom: 20, left: 20 });
+    });
+
+    it('scales down margins that leave too little of a small page for content', () => {
+        const options = resolveExportOptions({ pageSize: 'a5', margins: { top: 100, right: 100, bottom: 100, left: 100 } });
+
+        // A5 is 148 x 210 mm; 50 mm are kept for content in both directions
+        expect(options.margins).toEqual({ top: 80, right: 49, bottom: 80, left: 49 });
+        expect(resolveExportOptions({ pageSize: 'a5', orientation: 'landscape', margins: { top: 100, right: 100, bottom: 100, left: 100 } }).margins)
+            .toEqual({ top: 49, right: 80, bottom: 49, left: 80 });
+    });
+
+    it('replaces numbers that are not finite with the defaults', () => {
+        const options = resolveExportOptions({ fontSize: Number.NaN, lineSpacing: Number.POSITIVE_INFINITY });
+
+        expect(options.fontSize).toBe(DEFAULT_EXPORT_OPTIONS.fontSize);
+        expect(options.lineSpacing).toBe(DEFAULT_EXPORT_OPTIONS.lineSpacing);
+    });
+
+    it('drops blank templates and invalid LaTeX document classes', () => {
+        const options = resolveExportOptions({ header: '  ', footer: '\n', latexPreamble: ' ', latexDocumentClass: 'article}\\evil' });
+
+        expect(options.header).toBeNull();
+        expect(options.footer).toBeNull();
+        expect(options.latexPreamble).toBeNull();
+        expect(options.latexDocumentClass).toBe('article');
+        expect(resolveExportOptions({ latexDocumentClass: ' scrartcl ' }).latexDocumentClass).toBe('scrartcl');
+    });
+
+    it('sanitizes the filename', () => {
+        expect(resolveExportOptions({ filename: '../secret/report' }).filename).toBe('secret-report');
+        expect(resolveExportOptions({ filename: ' .. ' }).filename).toBeNull();
+    });
+});
+
+describe('sanitizeFilename', () => {
+    it('replaces path separators and reserved characters', () => {
+        expect(sanitizeFilename('a/b\\c:d*e?f"g<h>i|j')).toBe('a-b-c-d-e-f-g-h-i-j');
+        expect(sanitizeFilename('tab\there\u0000')).toBe('tab-here');
+    });
+
+    it('collapses whitespace and trims dots, dashes and spaces', () => {
+        expect(sanitizeFilename('  My   Report.  ')).toBe('My Report');
+        expect(sanitizeFilename('...hidden')).toBe('hidden');
+    });
+
+    it('keeps non-ASCII names and limits the length', () => {
+        expect(sanitizeFilename('Übersicht – 2024')).toBe('Übersicht – 2024');
+        expect(sanitizeFilename('x'.repeat(300))).toHaveLength(120);
+    });
+});
+
+describe('documentFilename', () => {
+    it('prefers the option, then the title, then "document"', () => {
+        expect(documentFilename('given', { ...METADATA, title: 'Title' })).toBe('given');
+        expect(documentFilename(null, { ...METADATA, title: 'A/B Title' })).toBe('A-B Title');
+        expect(documentFilename(null, METADATA)).toBe('document');
+    });
+});
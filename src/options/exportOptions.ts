@@ -0,0 +1,159 @@
+import type { ExportOptions, PageOrientation, PageSize } from '../interfaces';
+import type { DocumentMetadata } from '../parser';
+import { DEFAULT_THEME, themeTypography } from '../themes';
+
+/**
+ * Default export options. They match the layout the exporters used before
+ * options were configurable: A4 portrait, 20 mm margins, 12 pt sans-serif.
+ */
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    pageSize: 'a4',
+    orientation: 'portrait',
+    margins: { top: 20, right: 20, bottom: 20, left: 20 },
+    theme: DEFAULT_THEME,
+    ...themeTypography(DEFAULT_THEME),
+    tableOfContents: false,
+    header: null,
+    footer: null,
+    omitFirstPageHeaderFooter: false,
+    latexDocumentClass: 'article',
+    latexPreamble: null,
+    filename: null,
+};
+
+/**
+ * Deepest heading level listed in generated tables of contents.
+ */
+export const TOC_MAX_DEPTH = 3;
+
+/**
+ * Valid LaTeX document class names.
+ */
+export const LATEX_DOCUMENT_CLASS = /^[A-Za-z][A-Za-z0-9-]*$/;
+
+/**
+ * Filename used when neither the options nor the document metadata name the output.
+ */
+const FALLBACK_FILENAME = 'document';
+
+/**
+ * Portrait paper dimensions in millimeters.
+ */
+export const PAGE_SIZES: Record<PageSize, { width: number; height: number; label: string }> = {
+    a4: { width: 210, height: 297, label: 'A4' },
+    a5: { width: 148, height: 210, label: 'A5' },
+    letter: { width: 215.9, height: 279.4, label: 'Letter' },
+    legal: { width: 215.9, height: 355.6, label: 'Legal' },
+};
+
+/**
+ * Smallest width and height in millimeters the margins leave for content.
+ */
+const MIN_CONTENT_SIZE = 50;
+
+/**
+ * Completes partial options with defaults and normalizes the values:
+ * numbers are clamped to sensible ranges, margins that would leave less
+ * than 50 mm of the page for content are scaled down, blank header and footer
+ * templates and LaTeX preambles are dropped, invalid LaTeX document class
+ * names fall back to the default and the filename is stripped of path separators
+ * and characters that are invalid in filenames. Font family, font size
+ * and line spacing default to the body typography of the theme.
+ * 
+ * @param options - Options given by the caller
+ * @returns Complete export options
+ */
+export function resolveExportOptions(options: Partial<ExportOptions> = {}): ExportOptions {
+    const resolved: ExportOptions = {
+        ...DEFAULT_EXPORT_OPTIONS,
+        ...(options.theme ? themeTypography(options.theme) : {}),
+        ...options,
+        margins: { ...DEFAULT_EXPORT_OPTIONS.margins, ...options.margins },
+    };
+
+    const clamp = (value: number, min: number, max: number, fallback: number): number =>
+        Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+    const page = pageDimensions(resolved.pageSize, resolved.orientation);
+    const [left, right] = fitMargins(
+        clamp(resolved.margins.left, 0, 100, DEFAULT_EXPORT_OPTIONS.margins.left),
+        clamp(resolved.margins.right, 0, 100, DEFAULT_EXPORT_OPTIONS.margins.right),
+        page.width,
+    );
+    const [top, bottom] = fitMargins(
+        clamp(resolved.margins.top, 0, 100, DEFAULT_EXPORT_OPTIONS.margins.top),
+        clamp(resolved.margins.bottom, 0, 100, DEFAULT_EXPORT_OPTIONS.margins.bottom),
+        page.height,
+    );
+
+    return {
+        ...resolved,
+        margins: { top, right, bottom, left },
+        fontSize: clamp(resolved.fontSize, 6, 72, DEFAULT_EXPORT_OPTIONS.fontSize),
+        lineSpacing: clamp(resolved.lineSpacing, 0.8, 3, DEFAULT_EXPORT_OPTIONS.lineSpacing),
+        header: resolved.header?.trim() ? resolved.header : null,
+        footer: resolved.footer?.trim() ? resolved.footer : null,
+        latexDocumentClass: LATEX_DOCUMENT_CLASS.test(resolved.latexDocumentClass.trim())
+            ? resolved.latexDocumentClass.trim()
+            : DEFAULT_EXPORT_OPTIONS.latexDocumentClass,
+        latexPreamble: resolved.latexPreamble?.trim() ? resolved.latexPreamble : null,
+        filename: resolved.filename === null ? null : sanitizeFilename(resolved.filename) || null,
+    };
+}
+
+/**
+ * Scales down two opposite margins in proportion so that they leave at
+ * least MIN_CONTENT_SIZE of the page for content.
+ * 
+ * @param start - Left or top margin in millimeters
+ * @param end - Right or bottom margin in millimeters
+ * @param size - Page width or height in millimeters
+ * @returns The margins, scaled down if needed
+ */
+function fitMargins(start: number, end: number, size: number): [number, number] {
+    const available = size - MIN_CONTENT_SIZE;
+
+    if (start + end <= available) {
+        return [start, end];
+    }
+    const scale = available / (start + end);
+    return [start * scale, end * scale];
+}
+
+/**
+ * Determines the output filename of a document: the filename option if
+ * set, otherwise the title from the front matter, otherwise "document".
+ * 
+ * @param filename - Filename option (null if not set)
+ * @param metadata - Metadata of the exported document
+ * @returns Filename without extension
+ */
+export function documentFilename(filename: string | null, metadata: DocumentMetadata): string {
+    return filename ?? (sanitizeFilename(metadata.title ?? '') || FALLBACK_FILENAME);
+}
+
+/**
+ * Removes characters that are not allowed in filenames on common systems.
+ * 
+ * @param name - Filename without extension
+ * @returns Safe filename (may be empty)
+ */
+export function sanitizeFilename(name: string): string {
+    return name
+        .replace(/[\u0000-\u001f<>:"/\\|?*]+/g, '-')
+        .replace(/\s+/g, ' ')
+        .replace(/^[\s.-]+|[\s.-]+$/g, '')
+        .substring(0, 120);
+}
+
+/**
+ * Page dimensions in millimeters for the given size and orientation.
+ * 
+ * @param pageSize - Paper size
+ * @param orientation - Page orientation
+ * @returns Width and height of the page
+ */
+export function pageDimensions(pageSize: PageSize, orientation: PageOrientation): { width: number; height: number } {
+    const { width, height } = PAGE_SIZES[pageSize];
+    return orientation === 'landscape' ? { width: height, height: width } : { width, height };
+}
@@ -0,0 +1,3 @@
+export { DEFAULT_EXPORT_OPTIONS, PAGE_SIZES, TOC_MAX_DEPTH, LATEX_DOCUMENT_CLASS, resolveExportOptions, documentFilename, sanitizeFilename, pageDimensions } from './exportOptions';
+export { parsePageTemplate, renderTemplateTokens, documentFields } from './pageTemplate';
+export type { PageTemplate, TemplateToken, TemplateField, DocumentFields } from './pageTemplate';
@@ -0,0 +1,107 @@
+import { collectHeadings } from '../parser';
+import type { DocumentNode } from '../parser';
+
+/**
+ * Placeholders available in header and footer templates.
+ */
+export type TemplateField = 'title' | 'date' | 'page' | 'pages';
+
+/**
+ * Literal text or a placeholder of a template.
+ */
+export type TemplateToken =
+    | { type: 'text'; text: string }
+    | { type: 'field'; field: TemplateField };
+
+/**
+ * A header or footer template split into its three slots.
+ *
+ * Templates are plain text with the placeholders {title}, {date}, {page}
+ * and {pages}. A "|" separates slots: "a" is centered, "a|b" puts a on the
+ * left and b on the right, "a|b|c" fills left, center and right.
+ * Unknown placeholders are kept as text.
+ */
+export interface PageTemplate {
+    left: TemplateToken[];
+    center: TemplateToken[];
+    right: TemplateToken[];
+}
+
+/**
+ * Values of the placeholders that are the same on every page.
+ */
+export interface DocumentFields {
+    title: string;
+    date: string;
+}
+
+const PLACEHOLDER = /\{(title|date|page|pages)\}/g;
+
+/**
+ * Splits a header or footer template into slots and tokens.
+ *
+ * @param template - Template text
+ * @returns The parsed template
+ */
+export function parsePageTemplate(template: string): PageTemplate {
+    const [first = '', second, ...rest] = template.split('|');
+
+    if (second === undefined) {
+        return { left: [], center: tokenize(first), right: [] };
+    }
+    if (rest.length === 0) {
+        return { left: tokenize(first), center: [], right: tokenize(second) };
+    }
+    return { left: tokenize(first), center: tokenize(second), right: tokenize(rest.join('|')) };
+}
+
+/**
+ * Replaces the placeholders of a slot with their values.
+ *
+ * @param tokens - Tokens of one slot
+ * @param values - Value of each placeholder
+ * @returns The text of the slot
+ */
+export function renderTemplateTokens(tokens: TemplateToken[], values: Record<TemplateField, string>): string {
+    return tokens.map(token => (token.type === 'text' ? token.text : values[token.field])).join('');
+}
+
+/**
+ * Determines the title and date placeholders of a document. The title is
+ * the front matter title or else the first heading; the date is the front
+ * matter date as written or else today's date.
+ *
+ * @param tree - Parsed document tree
+ * @returns Title and date of the document
+ */
+export function documentFields(tree: DocumentNode): DocumentFields {
+    return {
+        title: tree.metadata.title ?? collectHeadings(tree)[0]?.text ?? '',
+        date: tree.metadata.date ?? new Date().toISOString().substring(0, 10),
+    };
+}
+
+/**
+ * Splits one slot of a template into text and placeholder tokens.
+ *
+ * @param text - Slot text
+ * @returns Tokens in order
+ */
+function tokenize(text: string): TemplateToken[] {
+    const slot = text.trim();
+    const tokens: TemplateToken[] = [];
+    let last = 0;
+
+    for (const match of slot.matchAll(PLACEHOLDER)) {
+        if (match.index > last) {
+            tokens.push({ type: 'text', text: slot.substring(last, match.index) });
+        }
+        tokens.push({ type: 'field', field: match[1] as TemplateField });
+        last = match.index + match[0].length;
+    }
+    if (last < slot.length) {
+        tokens.push({ type: 'text', text: slot.substring(last) });
+    }
+
+    return tokens;
+}
@@ -0,0 +1,217 @@
+/**
+ * Markdown Document Tree
+ *
+ * Typed syntax tree produced by the MarkdownParser and consumed by every
+ * DocumentExporter. Exporters render from this tree instead of parsing the
+ * raw Markdown themselves, so all formats agree on what the source means.
+ *
+ * The tree has two layers:
+ * - Block nodes (headings, paragraphs, lists, tables, code) make up the document body
+ * - Inline nodes (text, strong, emphasis, code, links, images, breaks) make up the block content
+ *
+ * Every node carries its source position for diagnostics.
+ * Document metadata comes from an optional YAML front matter block.
+ */
+
+/**
+ * A single point in the Markdown source.
+ * Lines and columns are 1-based, offsets are 0-based.
+ */
+export interface SourcePoint {
+    line: number;
+    column: number;
+    offset: number;
+}
+
+/**
+ * Source range covered by a node (end is exclusive).
+ */
+export interface SourcePosition {
+    start: SourcePoint;
+    end: SourcePoint;
+}
+
+/**
+ * Base shape shared by all nodes.
+ */
+interface BaseNode {
+    position: SourcePosition;
+}
+
+/**
+ * Plain text without any formatting.
+ */
+export interface TextNode extends BaseNode {
+    type: 'text';
+    value: string;
+}
+
+/**
+ * Strong emphasis - **text**
+ */
+export interface StrongNode extends BaseNode {
+    type: 'strong';
+    children: InlineNode[];
+}
+
+/**
+ * Emphasis - *text*
+ */
+export interface EmphasisNode extends BaseNode {
+    type: 'emphasis';
+    children: InlineNode[];
+}
+
+/**
+ * Inline code - `code`. The value is kept verbatim.
+ */
+export interface InlineCodeNode extends BaseNode {
+    type: 'inlineCode';
+    value: string;
+}
+
+/**
+ * Link - [text](url "title")
+ */
+export interface LinkNode extends BaseNode {
+    type: 'link';
+    url: string;
+    title: string | null;
+    children: InlineNode[];
+}
+
+/**
+ * Image - ![alt](src "title"). The source may be a URL or a data URI.
+ */
+export interface ImageNode extends BaseNode {
+    type: 'image';
+    url: string;
+    alt: string;
+    title: string | null;
+}
+
+/**
+ * Line break between two source lines of the same paragraph.
+ */
+export interface BreakNode extends BaseNode {
+    type: 'break';
+}
+
+export type InlineNode = TextNode | StrongNode | EmphasisNode | InlineCodeNode | LinkNode | ImageNode | BreakNode;
+
+/**
+ * Heading level, from # (1) to ###### (6).
+ */
+export type HeadingDepth = 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Heading - # text to ###### text
+ */
+export interface HeadingNode extends BaseNode {
+    type: 'heading';
+    depth: HeadingDepth;
+    children: InlineNode[];
+}
+
+/**
+ * Paragraph - consecutive non-empty lines.
+ */
+export interface ParagraphNode extends BaseNode {
+    type: 'paragraph';
+    children: InlineNode[];
+}
+
+/**
+ * Ordered (1. item) or unordered (- item) list.
+ * Nested lists are children of the list item they are indented under.
+ */
+export interface ListNode extends BaseNode {
+    type: 'list';
+    ordered: boolean;
+    start: number;
+    children: ListItemNode[];
+}
+
+/**
+ * Single list item. Contains the item paragraphs and nested lists.
+ */
+export interface ListItemNode extends BaseNode {
+    type: 'listItem';
+    children: BlockNode[];
+}
+
+/**
+ * Column alignment of a table, from the delimiter row (:--, :-:, --:).
+ * null means no explicit alignment.
+ */
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+/**
+ * GFM pipe table. The first row is the header row.
+ */
+export interface TableNode extends BaseNode {
+    type: 'table';
+    align: TableAlign[];
+    children: TableRowNode[];
+}
+
+/**
+ * Table row. Every row has exactly one cell per column.
+ */
+export interface TableRowNode extends BaseNode {
+    type: 'tableRow';
+    header: boolean;
+    children: TableCellNode[];
+}
+
+/**
+ * Table cell with inline content.
+ */
+export interface TableCellNode extends BaseNode {
+    type: 'tableCell';
+    children: InlineNode[];
+}
+
+/**
+ * Fenced code block (``` or ~~~) with optional language tag.
+ * The value holds the code lines verbatim, including indentation.
+ */
+export interface CodeBlockNode extends BaseNode {
+    type: 'code';
+    lang: string | null;
+    value: string;
+}
+
+export type BlockNode = HeadingNode | ParagraphNode | ListNode | TableNode | CodeBlockNode;
+
+/**
+ * Document metadata from the YAML front matter. Fields that are not set
+ * in the front matter are null (keywords empty).
+ */
+export interface DocumentMetadata {
+    title: string | null;
+    author: string | null;
+    subject: string | null;
+    keywords: string[];
+    date: string | null;
+}
+
+/**
+ * Markdown syntax the parser does not support. It is kept as plain text;
+ * exporters report it as a diagnostic.
+ */
+export interface UnsupportedSyntax {
+    syntax: 'blockquote' | 'horizontal rule' | 'HTML' | 'strikethrough';
+    position: SourcePosition;
+}
+
+/**
+ * Root of the tree. A leading YAML front matter block is not part of the
+ * children; its fields are available as metadata.
+ */
+export interface DocumentNode extends BaseNode {
+    type: 'document';
+    metadata: DocumentMetadata;
+    children: BlockNode[];
+    unsupported: UnsupportedSyntax[];
+}
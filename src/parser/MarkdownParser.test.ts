@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { MarkdownParser } from './MarkdownParser';
+import { flattenInline } from './astUtils';
+import type { BlockNode, EmphasisNode, InlineNode, StrongNode } from './MarkdownAST';
+
+/**
+ * Reduces inline nodes to their type and text, leaving out positions.
+ */
+function outline(nodes: InlineNode[]): unknown[] {
+    return nodes.map(node => {
+        switch (node.type) {
+            case 'text':
+            case 'inlineCode':
+                return [node.type, node.value];
+            case 'strong':
+            case 'emphasis':
+                return [node.type, outline(node.children)];
+            case 'link':
+                return [node.type, node.url, outline(node.children)];
+            case 'image':
+                return [node.type, node.url, node.alt];
+            case 'break':
+                return [node.type];
+        }
+    });
+}
+
+/**
+ * Finds the first bold or italic node among inline nodes.
+ */
+function nested(nodes: InlineNode[]): StrongNode | EmphasisNode | undefined {
+    return nodes.find((node): node is StrongNode | EmphasisNode => node.type === 'strong' || node.type === 'emphasis');
+}
+
+/**
+ * Parses a single paragraph and returns its inline outline.
+ */
+function inline(markdown: string): unknown[] {
+    const [paragraph] = new MarkdownParser().parse(markdown).children as BlockNode[];
+
+    if (paragraph?.type !== 'paragraph') {
+        throw new Error(`expected a paragraph, got ${paragraph?.type}`);
+    }
+    return outline(paragraph.children);
+}
+
+describe('MarkdownParser', () => {
+    it('reads block structure', () => {
+        const document = new MarkdownParser().parse('# Title\n\nText\n\n- one\n- two\n\n```ts\ncode\n```\n\n| a | b |\n|:--|--:|\n| 1 | 2 |');
+
+        expect(document.children.map(block => block.type)).toEqual(['heading', 'paragraph', 'list', 'code', 'table']);
+    });
+
+    it('parses bold, italic and their nesting', () => {
+        expect(inline('**bold** and *italic*')).toEqual([
+            ['strong', [['text', 'bold']]],
+            ['text', ' and '],
+            ['emphasis', [['text', 'italic']]],
+        ]);
+        expect(inline('**a *b* c**')).toEqual([
+            ['strong', [['text', 'a '], ['emphasis', [['text', 'b']]], ['text', ' c']]],
+        ]);
+        expect(inline('*a **b** c*')).toEqual([
+            ['emphasis', [['text', 'a '], ['strong', [['text', 'b']]], ['text', ' c']]],
+        ]);
+    });
+
+    it('keeps unmatched and spaced asterisks literal', () => {
+        expect(inline('5 * 3 * 2')).toEqual([['text', '5 * 3 * 2']]);
+        expect(inline('*open only')).toEqual([['text', '*open only']]);
+        expect(inline('\\*escaped\\*')).toEqual([['text', '*escaped*']]);
+    });
+
+    it('does not close emphasis inside code spans and link destinations', () => {
+        expect(inline('*a `*` b*')).toEqual([
+            ['emphasis', [['text', 'a '], ['inlineCode', '*'], ['text', ' b']]],
+        ]);
+        expect(inline('*see [docs](http://x/*a) now*')).toEqual([
+            ['emphasis', [['text', 'see '], ['link', 'http://x/*a', [['text', 'docs']]], ['text', ' now']]],
+        ]);
+    });
+
+    it('parses links with nested brackets and code in the label', () => {
+        expect(inline('[a [b] `]` c](u)')).toEqual([
+            ['link', 'u', [['text', 'a [b] '], ['inlineCode', ']'], ['text', ' c']]],
+        ]);
+        expect(inline('[open [x](u)')).toEqual([['text', '[open '], ['link', 'u', [['text', 'x']]]]);
+    });
+
+    it('parses long runs of unmatched delimiters in linear time', () => {
+        // Each repetition used to double the parse time
+        for (const pattern of ['*a ', '**a *', '[a ', '![a', '*[a ', '`` `']) {
+            const started = performance.now();
+            const [paragraph] = new MarkdownParser().parse(pattern.repeat(20_000)).children;
+
+            expect(paragraph?.type).toBe('paragraph');
+            expect(performance.now() - started).toBeLessThan(2000);
+        }
+    });
+
+    it('keeps delimiters nested too deeply as text', () => {
+        // 10 000 levels of alternating ** and * used to overflow the call stack
+        const [paragraph] = new MarkdownParser().parse('**a *a '.repeat(5000) + 'a* a**'.repeat(5000)).children;
+        const nodes = paragraph?.type === 'paragraph' ? paragraph.children : [];
+        let children = nodes;
+        let depth = 0;
+
+        for (let node = nested(children); node; node = nested(children)) {
+            children = node.children;
+            depth++;
+        }
+
+        expect(depth).toBe(32);
+        expect(children.map(node => node.type)).toEqual(['text']);
+        expect(() => flattenInline(nodes)).not.toThrow();
+    });
+});
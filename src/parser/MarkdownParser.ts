@@ -0,0 +1,1077 @@
+import type {
+    BlockNode,
+    CodeBlockNode,
+    DocumentNode,
+    HeadingNode,
+    InlineNode,
+    ListItemNode,
+    ListNode,
+    ParagraphNode,
+    SourcePoint,
+    SourcePosition,
+    TableAlign,
+    TableCellNode,
+    TableNode,
+    TableRowNode,
+    UnsupportedSyntax,
+} from './MarkdownAST';
+import { inlineToPlainText } from './astUtils';
+import { EMPTY_METADATA, parseFrontMatter, toDocumentMetadata } from './frontMatter';
+
+/**
+ * A single line of the Markdown source with its location.
+ */
+interface SourceLine {
+    text: string;
+    line: number;
+    offset: number;
+}
+
+/**
+ * Part of a source line that belongs to a paragraph, starting at a column.
+ */
+interface LineSegment {
+    line: SourceLine;
+    column: number;
+}
+
+/**
+ * List marker found at the start of a line.
+ */
+interface ListMarker {
+    indent: number;
+    ordered: boolean;
+    number: number;
+    markerColumn: number;
+    contentColumn: number;
+}
+
+/**
+ * Table cell text found between pipes, with its start column.
+ */
+interface CellSegment {
+    text: string;
+    column: number;
+}
+
+/**
+ * Line starts of block syntax that is not supported and read as paragraph text.
+ */
+const UNSUPPORTED_BLOCKS: Array<{ syntax: UnsupportedSyntax['syntax']; pattern: RegExp }> = [
+    { syntax: 'blockquote', pattern: /^ {0,3}>/ },
+    { syntax: 'horizontal rule', pattern: /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/ },
+    { syntax: 'HTML', pattern: /^ {0,3}<\/?[A-Za-z][A-Za-z0-9-]*(?:\s[^>]*)?\/?>/ },
+];
+
+/**
+ * Strikethrough (~~text~~), which is not supported and kept as text.
+ */
+const STRIKETHROUGH = /~~[^~\s](?:[^~]*[^~\s])?~~/;
+
+/**
+ * Characters that may be escaped with a backslash (ASCII punctuation).
+ */
+const ESCAPABLE = /[!-\/:-@\[-`{-~]/;
+
+/**
+ * Deepest nesting of emphasis, links and images. Delimiters and brackets
+ * nested deeper stay literal text, so the exporters, which walk the tree
+ * recursively, cannot overflow the call stack.
+ */
+const MAX_INLINE_DEPTH = 32;
+
+/**
+ * MarkdownParser
+ *
+ * Turns Markdown text into a typed document tree (see MarkdownAST).
+ * This is the single place where Markdown syntax is interpreted - all
+ * exporters render from the resulting tree, so a syntax fix made here
+ * shows up in every export format at once.
+ *
+ * Supported syntax:
+ * - # Heading 1 to ###### Heading 6
+ * - Paragraphs (consecutive lines, each line kept on its own line)
+ * - Unordered (-, *, +) and ordered (1. or 1)) lists, nested by indentation
+ * - GFM pipe tables with column alignment
+ * - Fenced code blocks (``` or ~~~ with optional language), kept verbatim
+ * - **bold** and *italic*, nestable in each other
+ * - `inline code`, kept verbatim
+ * - [links](url "title") and ![images](src "title"), including data URIs
+ * - Backslash escapes such as \* for a literal asterisk
+ * - A leading YAML front matter block (--- ... ---), read into the document metadata
+ *
+ * Blockquotes, horizontal rules, HTML and ~~strikethrough~~ are not
+ * supported: they stay plain text and are listed in the document's
+ * `unsupported` entries, so exporters can report them.
+ */
+export class MarkdownParser {
+    private unsupported: UnsupportedSyntax[] = [];
+
+    /**
+     * Parses markdown content into a document tree.
+     *
+     * @param content - Markdown formatted text
+     * @returns Root node of the document tree
+     */
+    parse(content: string): DocumentNode {
+        const lines = this.splitLines(content);
+        const children: BlockNode[] = [];
+        this.unsupported = [];
+        const frontMatter = parseFrontMatter(lines.map(line => line.text));
+        // Body parsing starts after the front matter, so positions still refer to the full source
+        let index = frontMatter?.lineCount ?? 0;
+
+        while (index < lines.length) {
+            const line = lines[index]!;
+
+            if (this.isBlank(line)) {
+                index++;
+            } else {
+                const heading = this.parseHeading(line);
+
+                if (heading) {
+                    children.push(heading);
+                    index++;
+                } else if (this.matchFence(line)) {
+                    index = this.parseCodeBlock(lines, index, children);
+                } else if (this.matchListItem(line)) {
+                    index = this.parseList(lines, index, children);
+                } else if (this.isTableStart(lines, index)) {
+                    index = this.parseTable(lines, index, children);
+                } else {
+                    index = this.parseParagraph(lines, index, children);
+                }
+            }
+        }
+
+        return {
+            type: 'document',
+            metadata: frontMatter ? toDocumentMetadata(frontMatter.data) : { ...EMPTY_METADATA, keywords: [] },
+            children,
+            unsupported: this.unsupported,
+            position: {
+                start: { line: 1, column: 1, offset: 0 },
+                end: this.endOfContent(content, lines),
+            },
+        };
+    }
+
+    /**
+     * Splits content into lines while keeping track of their offsets.
+     * Handles both \n and \r\n line endings.
+     *
+     * @param content - Markdown formatted text
+     * @returns Array of source lines
+     */
+    private splitLines(content: string): SourceLine[] {
+        const lines: SourceLine[] = [];
+        const pattern = /\r?\n/g;
+        let offset = 0;
+        let match: RegExpExecArray | null;
+
+        while ((match = pattern.exec(content)) !== null) {
+            lines.push({ text: content.substring(offset, match.index), line: lines.length + 1, offset });
+            offset = match.index + match[0].length;
+        }
+        lines.push({ text: content.substring(offset), line: lines.length + 1, offset });
+
+        return lines;
+    }
+
+    /**
+     * Checks whether a line contains only whitespace.
+     *
+     * @param line - Source line
+     * @returns True if the line is blank
+     */
+    private isBlank(line: SourceLine): boolean {
+        return line.text.trim().length === 0;
+    }
+
+    /**
+     * Parses a heading line (# to ######).
+     *
+     * @param line - Source line
+     * @returns Heading node, or null if the line is not a heading
+     */
+    private parseHeading(line: SourceLine): HeadingNode | null {
+        const match = line.text.match(/^( {0,3})(#{1,6})[ \t]+(.*?)[ \t]*$/);
+
+        if (!match) {
+            return null;
+        }
+
+        const [, indent = '', marker = '', text = ''] = match;
+        const textColumn = line.text.indexOf(text, indent.length + marker.length);
+
+        return {
+            type: 'heading',
+            depth: marker.length as HeadingNode['depth'],
+            children: this.parseInline(text, this.pointAt(line, textColumn)),
+            position: this.lineRange(line, indent.length, line.text.length),
+        };
+    }
+
+    /**
+     * Parses a paragraph starting at the given line. A paragraph continues
+     * until a blank line or a line that starts another block.
+     *
+     * @param lines - All source lines
+     * @param start - Index of the first paragraph line
+     * @param children - Block list to append the paragraph to
+     * @returns Index of the first line after the paragraph
+     */
+    private parseParagraph(lines: SourceLine[], start: number, children: BlockNode[]): number {
+        const segments: LineSegment[] = [];
+        let index = start;
+
+        while (index < lines.length) {
+            const line = lines[index]!;
+
+            if (this.isBlank(line) || (index > start && (this.startsBlock(line) || this.isTableStart(lines, index)))) {
+                break;
+            }
+
+            segments.push({ line, column: 0 });
+            index++;
+        }
+
+        segments.forEach(({ line }) => {
+            const block = UNSUPPORTED_BLOCKS.find(({ pattern }) => pattern.test(line.text));
+            if (block) {
+                this.unsupported.push({ syntax: block.syntax, position: this.lineRange(line, 0, line.text.length) });
+            }
+        });
+        children.push(this.createParagraph(segments));
+        return index;
+    }
+
+    /**
+     * Checks whether a line interrupts a paragraph by starting another block.
+     *
+     * @param line - Source line
+     * @returns True if the line starts a heading, code block or list item
+     */
+    private startsBlock(line: SourceLine): boolean {
+        return this.parseHeading(line) !== null || this.matchFence(line) !== null || this.matchListItem(line) !== null;
+    }
+
+    /**
+     * Matches an opening code fence (three or more ` or ~).
+     *
+     * @param line - Source line
+     * @returns Fence indentation, marker and language, or null if the line is no fence
+     */
+    private matchFence(line: SourceLine): { indent: number; marker: string; lang: string | null } | null {
+        const match = line.text.match(/^( {0,3})(`{3,}|~{3,})[ \t]*([^\s`]*)[^`]*$/);
+
+        if (!match) {
+            return null;
+        }
+
+        const [, indent = '', marker = '', lang = ''] = match;
+        return { indent: indent.length, marker, lang: lang || null };
+    }
+
+    /**
+     * Parses a fenced code block. Content lines are kept verbatim, only the
+     * indentation of the opening fence is removed from them. A missing
+     * closing fence extends the block to the end of the document.
+     *
+     * @param lines - All source lines
+     * @param start - Index of the opening fence line
+     * @param children - Block list to append the code block to
+     * @returns Index of the first line after the code block
+     */
+    private parseCodeBlock(lines: SourceLine[], start: number, children: BlockNode[]): number {
+        const fence = this.matchFence(lines[start]!)!;
+        const closing = new RegExp(`^ {0,3}${fence.marker[0] === '`' ? '`' : '~'}{${fence.marker.length},}[ \\t]*$`);
+        const content: string[] = [];
+        let index = start + 1;
+        let closed = false;
+
+        while (index < lines.length) {
+            const line = lines[index]!;
+            index++;
+
+            if (closing.test(line.text)) {
+                closed = true;
+                break;
+            }
+
+            const indent = line.text.match(/^ */)![0].length;
+            content.push(line.text.substring(Math.min(indent, fence.indent)));
+        }
+
+        const last = lines[index - 1]!;
+        const code: CodeBlockNode = {
+            type: 'code',
+            lang: fence.lang,
+            value: content.join('\n'),
+            position: {
+                start: this.pointAt(lines[start]!, fence.indent),
+                end: closed || content.length > 0 ? this.pointAt(last, last.text.length) : this.lineEnd(lines[start]!),
+            },
+        };
+        children.push(code);
+
+        return index;
+    }
+
+    /**
+     * Creates a paragraph node from line segments. Each segment is trimmed
+     * and segments are joined with line breaks.
+     *
+     * @param segments - Paragraph lines with their start columns
+     * @returns Paragraph node
+     */
+    private createParagraph(segments: LineSegment[]): ParagraphNode {
+        const inline: InlineNode[] = [];
+        const columns = segments.map(({ line, column }) => {
+            const rest = line.text.substring(column);
+            const start = column + rest.length - rest.trimStart().length;
+            return { line, start, end: line.text.trimEnd().length };
+        });
+
+        columns.forEach(({ line, start, end }, index) => {
+            if (index > 0) {
+                const previous = columns[index - 1]!;
+                inline.push({
+                    type: 'break',
+                    position: {
+                        start: this.pointAt(previous.line, previous.end),
+                        end: this.pointAt(line, start),
+                    },
+                });
+            }
+
+            inline.push(...this.parseInline(line.text.substring(start, end), this.pointAt(line, start)));
+        });
+
+        const first = columns[0]!;
+        const last = columns[columns.length - 1]!;
+
+        return {
+            type: 'paragraph',
+            children: inline,
+            position: {
+                start: this.pointAt(first.line, first.start),
+                end: this.pointAt(last.line, last.end),
+            },
+        };
+    }
+
+    /**
+     * Checks whether a table starts at the given line: a row with pipes
+     * followed by a delimiter row with the same number of columns.
+     *
+     * @param lines - All source lines
+     * @param index - Index of the candidate header line
+     * @returns True if a table starts at the line
+     */
+    private isTableStart(lines: SourceLine[], index: number): boolean {
+        const header = lines[index];
+        const delimiter = lines[index + 1];
+
+        if (!header || !delimiter || !header.text.includes('|')) {
+            return false;
+        }
+
+        const alignment = this.parseTableAlignment(delimiter);
+        return alignment !== null && alignment.length === this.splitTableRow(header).length;
+    }
+
+    /**
+     * Parses the delimiter row of a table (e.g. | :-- | :-: | --: |).
+     *
+     * @param line - Source line
+     * @returns Column alignments, or null if the line is not a delimiter row
+     */
+    private parseTableAlignment(line: SourceLine): TableAlign[] | null {
+        if (!/^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/.test(line.text)) {
+            return null;
+        }
+
+        return this.splitTableRow(line).map(({ text }) => {
+            const left = text.startsWith(':');
+            const right = text.endsWith(':');
+
+            if (left && right) {
+                return 'center';
+            }
+            if (right) {
+                return 'right';
+            }
+            return left ? 'left' : null;
+        });
+    }
+
+    /**
+     * Splits a table row into cells. Leading and trailing pipes are optional
+     * and escaped pipes (\|) do not split cells.
+     *
+     * @param line - Source line
+     * @returns Trimmed cell texts with their start columns
+     */
+    private splitTableRow(line: SourceLine): CellSegment[] {
+        const text = line.text;
+        const cells: CellSegment[] = [];
+        let start = text.length - text.trimStart().length;
+        let end = text.trimEnd().length;
+
+        if (text[start] === '|') {
+            start++;
+        }
+        if (end > start && text[end - 1] === '|' && text[end - 2] !== '\\') {
+            end--;
+        }
+
+        let cellStart = start;
+
+        for (let index = start; index <= end; index++) {
+            if (text[index] === '\\') {
+                index++;
+            } else if (index === end || text[index] === '|') {
+                const raw = text.substring(cellStart, index);
+                const leading = raw.length - raw.trimStart().length;
+                cells.push({ text: raw.trim(), column: cellStart + leading });
+                cellStart = index + 1;
+            }
+        }
+
+        return cells;
+    }
+
+    /**
+     * Parses a table starting at the given header line. Body rows continue
+     * until a blank line or a line without pipes. Rows are padded or cut to
+     * the number of header columns.
+     *
+     * @param lines - All source lines
+     * @param start - Index of the header line
+     * @param children - Block list to append the table to
+     * @returns Index of the first line after the table
+     */
+    private parseTable(lines: SourceLine[], start: number, children: BlockNode[]): number {
+        const headerLine = lines[start]!;
+        const align = this.parseTableAlignment(lines[start + 1]!)!;
+        const rows: TableRowNode[] = [this.createTableRow(headerLine, align.length, true)];
+        let index = start + 2;
+
+        while (index < lines.length) {
+            const line = lines[index]!;
+
+            if (this.isBlank(line) || !line.text.includes('|') || this.startsBlock(line)) {
+                break;
+            }
+
+            rows.push(this.createTableRow(line, align.length, false));
+            index++;
+        }
+
+        const table: TableNode = {
+            type: 'table',
+            align,
+            children: rows,
+            position: {
+                start: rows[0]!.position.start,
+                end: this.lineEnd(lines[index - 1]!),
+            },
+        };
+        children.push(table);
+
+        return index;
+    }
+
+    /**
+     * Creates a table row node with a fixed number of cells.
+     *
+     * @param line - Source line of the row
+     * @param columns - Number of table columns
+     * @param header - Whether this is the header row
+     * @returns Table row node
+     */
+    private createTableRow(line: SourceLine, columns: number, header: boolean): TableRowNode {
+        const segments = this.splitTableRow(line);
+        const cells: TableCellNode[] = [];
+
+        for (let column = 0; column < columns; column++) {
+            const segment = segments[column];
+            const start = this.pointAt(line, segment ? segment.column : line.text.trimEnd().length);
+
+            cells.push({
+                type: 'tableCell',
+                children: segment ? this.parseInline(segment.text, start) : [],
+                position: segment ? this.range(start, 0, segment.text.length) : { start, end: start },
+            });
+        }
+
+        return {
+            type: 'tableRow',
+            header,
+            children: cells,
+            position: this.lineRange(line, line.text.length - line.text.trimStart().length, line.text.trimEnd().length),
+        };
+    }
+
+    /**
+     * Matches a list item marker (-, *, + or a number followed by . or )).
+     *
+     * @param line - Source line
+     * @returns Marker information, or null if the line is not a list item
+     */
+    private matchListItem(line: SourceLine): ListMarker | null {
+        const match = line.text.match(/^([ \t]*)([-*+]|(\d{1,9})[.)])([ \t]+)\S/);
+
+        if (!match) {
+            return null;
+        }
+
+        const [, whitespace = '', marker = '', digits, gap = ''] = match;
+
+        return {
+            indent: this.indentWidth(whitespace),
+            ordered: digits !== undefined,
+            number: digits !== undefined ? parseInt(digits, 10) : 1,
+            markerColumn: whitespace.length,
+            contentColumn: whitespace.length + marker.length + gap.length,
+        };
+    }
+
+    /**
+     * Computes the visual width of leading whitespace (tabs count as 4).
+     *
+     * @param whitespace - Leading whitespace of a line
+     * @returns Indentation width in columns
+     */
+    private indentWidth(whitespace: string): number {
+        let width = 0;
+
+        for (const char of whitespace) {
+            width = char === '\t' ? width + 4 - (width % 4) : width + 1;
+        }
+
+        return width;
+    }
+
+    /**
+     * Parses a list starting at the given line.
+     *
+     * Items whose marker is indented (up to one column of tolerance) like the
+     * first item are siblings. Items indented further start a nested list
+     * inside the current item. Non-item lines continue the current item's
+     * paragraph, or start a new item paragraph after a blank line if they are
+     * indented to the item content.
+     *
+     * @param lines - All source lines
+     * @param start - Index of the first list item line
+     * @param children - Block list to append the list to
+     * @returns Index of the first line after the list
+     */
+    private parseList(lines: SourceLine[], start: number, children: BlockNode[]): number {
+        const firstLine = lines[start]!;
+        const first = this.matchListItem(firstLine)!;
+        const list: ListNode = {
+            type: 'list',
+            ordered: first.ordered,
+            start: first.number,
+            children: [],
+            position: this.lineRange(firstLine, first.markerColumn, firstLine.text.trimEnd().length),
+        };
+
+        let item: ListItemNode | null = null;
+        let itemContentIndent = 0;
+        let segments: LineSegment[] = [];
+        let afterBlank = false;
+        let index = start;
+
+        const closeParagraph = (): void => {
+            if (item && segments.length > 0) {
+                item.children.push(this.createParagraph(segments));
+            }
+            segments = [];
+        };
+
+        const extendTo = (end: SourcePoint): void => {
+            list.position.end = end;
+            if (item) {
+                item.position.end = end;
+            }
+        };
+
+        while (index < lines.length) {
+            const line = lines[index]!;
+
+            if (this.isBlank(line)) {
+                const next = this.nextNonBlank(lines, index);
+                const nextLine = next !== -1 ? lines[next]! : null;
+                const nextMarker = nextLine ? this.matchListItem(nextLine) : null;
+                const continues = nextLine !== null && (nextMarker
+                    ? nextMarker.indent >= first.indent
+                    : this.indentWidth(nextLine.text.match(/^[ \t]*/)![0]) >= itemContentIndent);
+
+                if (!continues) {
+                    break;
+                }
+
+                index = next;
+                afterBlank = true;
+                continue;
+            }
+
+            const marker = this.matchListItem(line);
+
+            if (marker && marker.indent < first.indent) {
+                break;
+            }
+
+            if (marker && marker.indent <= first.indent + 1) {
+                if (marker.ordered !== list.ordered) {
+                    break;
+                }
+
+                // Sibling item
+                closeParagraph();
+                item = {
+                    type: 'listItem',
+                    children: [],
+                    position: this.lineRange(line, marker.markerColumn, line.text.trimEnd().length),
+                };
+                list.children.push(item);
+                itemContentIndent = marker.indent + marker.contentColumn - marker.markerColumn;
+                segments.push({ line, column: marker.contentColumn });
+                afterBlank = false;
+                extendTo(this.lineEnd(line));
+                index++;
+            } else if (marker && item) {
+                // Nested list inside the current item
+                closeParagraph();
+                index = this.parseList(lines, index, item.children);
+                extendTo(item.children[item.children.length - 1]!.position.end);
+                afterBlank = false;
+            } else {
+                // Continuation line of the current item
+                if (this.parseHeading(line) || this.matchFence(line)) {
+                    break;
+                }
+                if (afterBlank) {
+                    closeParagraph();
+                    afterBlank = false;
+                }
+                segments.push({ line, column: 0 });
+                extendTo(this.lineEnd(line));
+                index++;
+            }
+        }
+
+        closeParagraph();
+        children.push(list);
+        return index;
+    }
+
+    /**
+     * Finds the next non-blank line after the given index.
+     *
+     * @param lines - All source lines
+     * @param index - Index to start searching after
+     * @returns Index of the next non-blank line, or -1 if there is none
+     */
+    private nextNonBlank(lines: SourceLine[], index: number): number {
+        for (let next = index + 1; next < lines.length; next++) {
+            if (!this.isBlank(lines[next]!)) {
+                return next;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Parses inline formatting (bold, italic, escapes) of a single line.
+     *
+     * Delimiters only open when followed by a non-space character and only
+     * close when preceded by one, so a lone * (as in "5 * 3") stays literal.
+     * Below MAX_INLINE_DEPTH levels of nesting, delimiters and brackets are
+     * literal text.
+     *
+     * @param text - Inline text without line breaks
+     * @param start - Source point of the first character
+     * @param depth - Number of emphasis, link and image nodes the text is nested in
+     * @returns Array of inline nodes
+     */
+    private parseInline(text: string, start: SourcePoint, depth = 0): InlineNode[] {
+        const nodes: InlineNode[] = [];
+        let buffer = '';
+        let bufferStart = 0;
+        let index = 0;
+        const nests = depth < MAX_INLINE_DEPTH;
+        const codeSpans = this.matchCodeSpans(text);
+        const brackets = nests && text.includes('[') ? this.matchBrackets(text, codeSpans) : null;
+        const closers = nests && text.includes('*') ? this.matchDelimiters(text, codeSpans, brackets) : null;
+
+        const flush = (end: number): void => {
+            if (buffer.length > 0) {
+                const position = this.range(start, bufferStart, end);
+                if (STRIKETHROUGH.test(buffer)) {
+                    this.unsupported.push({ syntax: 'strikethrough', position });
+                }
+                nodes.push({ type: 'text', value: buffer, position });
+                buffer = '';
+            }
+        };
+
+        while (index < text.length) {
+            const char = text[index]!;
+
+            if (char === '\\' && ESCAPABLE.test(text[index + 1] ?? '')) {
+                if (buffer.length === 0) {
+                    bufferStart = index;
+                }
+                buffer += text[index + 1];
+                index += 2;
+                continue;
+            }
+
+            if (char === '`') {
+                const span = this.matchCodeSpan(text, index, codeSpans);
+
+                if (span) {
+                    flush(index);
+                    nodes.push({ type: 'inlineCode', value: span.value, position: this.range(start, index, span.end) });
+                    index = span.end;
+                    continue;
+                }
+
+                // Unmatched backticks are literal text
+                const run = text.substring(index).match(/^`+/)![0];
+                if (buffer.length === 0) {
+                    bufferStart = index;
+                }
+                buffer += run;
+                index += run.length;
+                continue;
+            }
+
+            if (brackets && (char === '[' || (char === '!' && text[index + 1] === '['))) {
+                const link = this.matchLink(text, index, brackets);
+
+                if (link) {
+                    flush(index);
+                    const position = this.range(start, index, link.end);
+
+                    if (link.image) {
+                        const alt = this.parseInline(link.label, this.advance(start, link.labelStart), depth + 1);
+                        nodes.push({ type: 'image', url: link.url, alt: inlineToPlainText(alt), title: link.title, position });
+                    } else {
+                        const children = this.parseInline(link.label, this.advance(start, link.labelStart), depth + 1);
+                        nodes.push({ type: 'link', url: link.url, title: link.title, children, position });
+                    }
+                    index = link.end;
+                    continue;
+                }
+            }
+
+            if (closers && char === '*') {
+                const delimiter = text.startsWith('**', index) ? '**' : '*';
+                const close = closers[index]!;
+
+                if (close !== -1) {
+                    flush(index);
+                    const innerStart = index + delimiter.length;
+                    const children = this.parseInline(text.substring(innerStart, close), this.advance(start, innerStart), depth + 1);
+                    const end = close + delimiter.length;
+
+                    nodes.push({
+                        type: delimiter === '**' ? 'strong' : 'emphasis',
+                        children,
+                        position: this.range(start, index, end),
+                    });
+                    index = end;
+                    continue;
+                }
+            }
+
+            if (buffer.length === 0) {
+                bufferStart = index;
+            }
+            buffer += char;
+            index++;
+        }
+
+        flush(text.length);
+        return nodes;
+    }
+
+    /**
+     * Finds the end of the code span every backtick would open. A span is
+     * closed by the next backtick run of the same length as the run from
+     * the backtick to the end of its run.
+     *
+     * The line is resolved in one pass from its end, keeping the start of
+     * the nearest run of each length, instead of searching the rest of the
+     * line from every backtick.
+     *
+     * @param text - Inline text
+     * @returns Index after the closing backtick run for each index of a backtick, -1 if unclosed
+     */
+    private matchCodeSpans(text: string): Int32Array {
+        const ends = new Int32Array(text.length).fill(-1);
+        // Start of the nearest complete backtick run of each length after the current one
+        const nextRun = new Map<number, number>();
+        let runEnd = -1;
+
+        for (let index = text.length - 1; index >= 0; index--) {
+            if (text[index] !== '`') {
+                runEnd = -1;
+                continue;
+            }
+            if (runEnd === -1) {
+                runEnd = index + 1;
+            }
+
+            const ticks = runEnd - index;
+            const close = nextRun.get(ticks);
+            ends[index] = close !== undefined ? close + ticks : -1;
+
+            if (index === 0 || text[index - 1] !== '`') {
+                nextRun.set(ticks, index);
+            }
+        }
+
+        return ends;
+    }
+
+    /**
+     * Matches a code span starting at a backtick run. The span is closed by
+     * a backtick run of the same length. One leading and trailing space is
+     * stripped if both are present, so `` `a` `` can contain backticks.
+     *
+     * @param text - Inline text
+     * @param open - Index of the opening backtick run
+     * @param codeSpans - Code span ends of the text (see matchCodeSpans)
+     * @returns Code value and index after the span, or null if unclosed
+     */
+    private matchCodeSpan(text: string, open: number, codeSpans: Int32Array): { value: string; end: number } | null {
+        const end = codeSpans[open]!;
+
+        if (end === -1) {
+            return null;
+        }
+
+        const ticks = text.substring(open).match(/^`+/)![0].length;
+        let value = text.substring(open + ticks, end - ticks);
+
+        if (value.length > 1 && value.startsWith(' ') && value.endsWith(' ') && value.trim().length > 0) {
+            value = value.substring(1, value.length - 1);
+        }
+
+        return { value, end };
+    }
+
+    /**
+     * Matches a link [label](url "title") or image ![alt](url "title")
+     * starting at the given index. Brackets in the label may be nested;
+     * the URL may be wrapped in <...> to allow spaces.
+     *
+     * @param text - Inline text
+     * @param open - Index of the [ or ! character
+     * @param brackets - Closing brackets of the text (see matchBrackets)
+     * @returns Link parts and index after the link, or null if there is none
+     */
+    private matchLink(text: string, open: number, brackets: Int32Array): {
+        image: boolean;
+        label: string;
+        labelStart: number;
+        url: string;
+        title: string | null;
+        end: number;
+    } | null {
+        const image = text[open] === '!';
+        const labelStart = open + (image ? 2 : 1);
+        const labelEnd = labelStart < text.length ? brackets[labelStart]! : -1;
+
+        if (labelEnd === -1) {
+            return null;
+        }
+
+        const index = labelEnd + 1;
+        const destination = text.substring(index).match(/^\([ \t]*(?:<([^<>]*)>|([^\s()<>]*))(?:[ \t]+"((?:[^"\\]|\\.)*)")?[ \t]*\)/);
+
+        if (!destination) {
+            return null;
+        }
+
+        const [whole, bracketed, bare, title] = destination;
+
+        return {
+            image,
+            label: text.substring(labelStart, labelEnd),
+            labelStart,
+            url: bracketed ?? bare ?? '',
+            title: title !== undefined ? title.replace(/\\(.)/g, '$1') : null,
+            end: index + whole.length,
+        };
+    }
+
+    /**
+     * Finds the bracket that closes a link label starting at each index:
+     * the first ] that is not matched by a [ after the index. Escaped
+     * brackets and brackets in code spans do not count.
+     *
+     * Like matchDelimiters, the line is resolved in one pass from its end,
+     * so unclosed brackets do not each scan the rest of the line.
+     *
+     * @param text - Inline text
+     * @param codeSpans - Code span ends of the text (see matchCodeSpans)
+     * @returns Index of the closing ] for a label starting at each index, -1 if there is none
+     */
+    private matchBrackets(text: string, codeSpans: Int32Array): Int32Array {
+        const length = text.length;
+        const closes = new Int32Array(length).fill(-1);
+        const scanFrom = (index: number): number => (index < length ? closes[index]! : -1);
+
+        for (let index = length - 1; index >= 0; index--) {
+            const char = text[index]!;
+
+            if (char === '\\') {
+                closes[index] = scanFrom(index + 2);
+            } else if (char === '`') {
+                const end = codeSpans[index]!;
+                closes[index] = scanFrom(end !== -1 ? end : index + 1);
+            } else if (char === ']') {
+                closes[index] = index;
+            } else if (char === '[') {
+                // Skip the nested pair
+                const inner = scanFrom(index + 1);
+                closes[index] = inner !== -1 ? scanFrom(inner + 1) : -1;
+            } else {
+                closes[index] = scanFrom(index + 1);
+            }
+        }
+
+        return closes;
+    }
+
+    /**
+     * Finds the closing delimiter of every asterisk run in a line.
+     * An opening * or ** is closed by the next delimiter of the same kind
+     * that follows a non-space character. Nested pairs of the other kind
+     * are skipped as a whole, and an unmatched ** inside *...* closes the
+     * emphasis with its first asterisk. Code spans and links are skipped,
+     * as asterisks in them do not close emphasis.
+     *
+     * Where a scan ends only depends on the text after its position, so
+     * the line is resolved in one pass from its end instead of scanning
+     * again for every opening delimiter.
+     *
+     * @param text - Inline text
+     * @param codeSpans - Code span ends of the text (see matchCodeSpans)
+     * @param brackets - Closing brackets of the text (see matchBrackets), null if it has none
+     * @returns Index of the closing delimiter for each index of an opening delimiter, -1 if there is none
+     */
+    private matchDelimiters(text: string, codeSpans: Int32Array, brackets: Int32Array | null): Int32Array {
+        const length = text.length;
+        const closers = new Int32Array(length).fill(-1);
+        // Where a scan for a closing * or ** that reaches an index ends
+        const closeSingle = new Int32Array(length).fill(-1);
+        const closeDouble = new Int32Array(length).fill(-1);
+        const scanFrom = (scan: Int32Array, index: number): number => (index < length ? scan[index]! : -1);
+        let tickRunEnd = -1;
+
+        for (let index = length - 1; index >= 0; index--) {
+            const char = text[index]!;
+
+            if (char !== '*') {
+                let next = index + 1;
+
+                if (char === '\\') {
+                    next = index + 2;
+                } else if (char === '`') {
+                    // Code spans cannot contain emphasis delimiters
+                    tickRunEnd = text[index + 1] === '`' ? tickRunEnd : index + 1;
+                    next = codeSpans[index] !== -1 ? codeSpans[index]! : tickRunEnd;
+                } else if (brackets && (char === '[' || (char === '!' && text[index + 1] === '['))) {
+                    // Asterisks in link destinations do not close emphasis
+                    next = this.matchLink(text, index, brackets)?.end ?? next;
+                }
+                closeSingle[index] = scanFrom(closeSingle, next);
+                closeDouble[index] = scanFrom(closeDouble, next);
+                continue;
+            }
+
+            const isDouble = text.startsWith('**', index);
+            const size = isDouble ? 2 : 1;
+            const contentStart = index + size;
+
+            if (contentStart < length && !/\s/.test(text[contentStart]!)) {
+                const scan = isDouble ? closeDouble : closeSingle;
+
+                if (text[contentStart] === '*') {
+                    // The first delimiter of the content cannot close, but may open a nested pair
+                    const nestedSize = text.startsWith('**', contentStart) ? 2 : 1;
+                    const nested = closers[contentStart]!;
+                    closers[index] = scanFrom(scan, (nested !== -1 ? nested : contentStart) + nestedSize);
+                } else {
+                    closers[index] = scan[contentStart]!;
+                }
+            }
+
+            const canClose = index > 0 && !/\s/.test(text[index - 1]!);
+            const nested = closers[index]!;
+            // Skip a nested pair of the other delimiter kind
+            const next = (nested !== -1 ? nested : index) + size;
+
+            if (canClose && (!isDouble || nested === -1)) {
+                // Unmatched ** inside *...*: its first asterisk closes the emphasis
+                closeSingle[index] = index;
+            } else {
+                closeSingle[index] = scanFrom(closeSingle, next);
+            }
+            closeDouble[index] = canClose && isDouble ? index : scanFrom(closeDouble, next);
+        }
+
+        return closers;
+    }
+
+    /**
+     * Creates a source point for a column (0-based) of a line.
+     */
+    private pointAt(line: SourceLine, column: number): SourcePoint {
+        return { line: line.line, column: column + 1, offset: line.offset + column };
+    }
+
+    /**
+     * Creates a source range covering two columns (0-based) of a line.
+     */
+    private lineRange(line: SourceLine, startColumn: number, endColumn: number): SourcePosition {
+        return { start: this.pointAt(line, startColumn), end: this.pointAt(line, endColumn) };
+    }
+
+    /**
+     * Creates a source point after the last non-whitespace character of a line.
+     */
+    private lineEnd(line: SourceLine): SourcePoint {
+        return this.pointAt(line, line.text.trimEnd().length);
+    }
+
+    /**
+     * Moves a source point forward on the same line.
+     */
+    private advance(point: SourcePoint, by: number): SourcePoint {
+        return { line: point.line, column: point.column + by, offset: point.offset + by };
+    }
+
+    /**
+     * Creates a source range relative to a start point on the same line.
+     */
+    private range(origin: SourcePoint, start: number, end: number): SourcePosition {
+        return { start: this.advance(origin, start), end: this.advance(origin, end) };
+    }
+
+    /**
+     * Computes the source point just after the last character.
+     */
+    private endOfContent(content: string, lines: SourceLine[]): SourcePoint {
+        const last = lines[lines.length - 1]!;
+        return { line: last.line, column: last.text.length + 1, offset: content.length };
+    }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { MarkdownParser } from './MarkdownParser';
+import { MarkdownWriter } from './MarkdownWriter';
+import type { MarkdownRun } from './MarkdownWriter';
+
+/**
+ * Builds a run of plain text with the given formatting.
+ */
+function run(text: string, formatting: Partial<MarkdownRun> = {}): MarkdownRun {
+    return { text, bold: false, italic: false, code: false, lineBreak: false, link: null, image: null, ...formatting };
+}
+
+describe('MarkdownWriter', () => {
+    it('escapes text the parser would read as Markdown', () => {
+        const writer = new MarkdownWriter();
+        writer.paragraph([run('# not a heading *or* `code` [or](link) \\')]);
+        writer.paragraph([run('- not a list')]);
+        writer.paragraph([run('1. not a list either')]);
+
+        const markdown = writer.toString();
+
+        expect(markdown).toBe('\\# not a heading \\*or\\* \\`code\\` \\[or\\](link) \\\\\n\n\\- not a list\n\n1\\. not a list either\n');
+        expect(new MarkdownParser().parse(markdown).children.map(block => block.type)).toEqual(['paragraph', 'paragraph', 'paragraph']);
+    });
+
+    it('writes emphasis, code spans and links around the text they cover', () => {
+        const writer = new MarkdownWriter();
+        writer.paragraph([
+            run('bold ', { bold: true }),
+            run('both', { bold: true, italic: true }),
+            run(' plain '),
+            run('a `tick`', { code: true }),
+            run(' '),
+            run('site', { link: 'http://x/a b' }),
+        ]);
+
+        expect(writer.toString()).toBe('**bold *both*** plain `` a `tick` `` [site](http://x/a%20b)\n');
+    });
+
+    it('writes nested and mixed lists', () => {
+        const writer = new MarkdownWriter();
+        writer.listItem([run('one')], 0, true);
+        writer.listItem([run('nested')], 1, false);
+        writer.listItem([run('two')], 0, true);
+        writer.listItem([run('bullet')], 0, false);
+        writer.paragraph([run('after')]);
+
+        expect(writer.toString()).toBe('1. one\n   - nested\n2. two\n\n- bullet\n\nafter\n');
+    });
+
+    it('writes tables with a header row, padded rows and escaped pipes', () => {
+        const writer = new MarkdownWriter();
+        writer.table([
+            [[run('Name', { bold: true })], [run('Value')]],
+            [[run('a|b')]],
+        ]);
+
+        expect(writer.toString()).toBe('| **Name** | Value |\n| --- | --- |\n| a\\|b |  |\n');
+    });
+});
@@ -0,0 +1,342 @@
+import type { HeadingDepth } from './MarkdownAST';
+
+/**
+ * A run of uniformly formatted text to be written as Markdown. StyledRun
+ * (see flattenInline) has this shape, so parsed documents can be written
+ * back as well.
+ */
+export interface MarkdownRun {
+    text: string;
+    bold: boolean;
+    italic: boolean;
+    code: boolean;
+    lineBreak: boolean;
+    link: string | null;
+    image: { url: string; alt: string } | null;
+}
+
+/**
+ * An open list level while list items are written.
+ */
+interface ListLevel {
+    ordered: boolean;
+    counter: number;
+    contentIndent: number;
+}
+
+/**
+ * Characters with a meaning in inline Markdown.
+ */
+const INLINE_SPECIAL = /[\\`*\[\]]/g;
+
+/**
+ * Line starts that would be read as a block marker.
+ */
+const BLOCK_MARKER = /^(#{1,6}(?=[ \t]|$)|[-+](?=[ \t])|~~~|---)/;
+const ORDERED_MARKER = /^(\d+)([.)])(?=[ \t]|$)/;
+
+/**
+ * Percent-encodings of characters that would end a link destination.
+ */
+const URL_ESCAPES: Record<string, string> = { ' ': '%20', '(': '%28', ')': '%29' };
+
+/**
+ * MarkdownWriter
+ *
+ * Builds Markdown text block by block - the inverse of the MarkdownParser.
+ * Importers describe the document they read with the writer's block
+ * methods and take the result from toString(). All text is escaped, so
+ * the parser reads back exactly the text that was written.
+ */
+export class MarkdownWriter {
+    private blocks: string[] = [];
+    private listLines: string[] = [];
+    private listLevels: ListLevel[] = [];
+
+    /**
+     * Writes a YAML front matter block. Must be called before any other block.
+     *
+     * @param fields - Field values by key; empty values are left out
+     */
+    frontMatter(fields: Record<string, string | string[] | null>): void {
+        const lines = Object.entries(fields).flatMap(([key, value]) => {
+            if (Array.isArray(value)) {
+                return value.length > 0 ? [`${key}: [${value.map(item => JSON.stringify(item)).join(', ')}]`] : [];
+            }
+            return value ? [`${key}: ${JSON.stringify(value)}`] : [];
+        });
+
+        if (lines.length > 0) {
+            this.blocks.push(['---', ...lines, '---'].join('\n'));
+        }
+    }
+
+    /**
+     * Writes a heading. Line breaks become spaces.
+     *
+     * @param depth - Heading depth (1-6)
+     * @param runs - Heading text
+     */
+    heading(depth: HeadingDepth, runs: MarkdownRun[]): void {
+        const text = this.renderInline(runs.map(run => (run.lineBreak ? { ...run, lineBreak: false, text: ' ' } : run)));
+
+        if (text) {
+            this.addBlock(`${'#'.repeat(depth)} ${text}`);
+        }
+    }
+
+    /**
+     * Writes a paragraph. Empty paragraphs are skipped.
+     *
+     * @param runs - Paragraph text
+     */
+    paragraph(runs: MarkdownRun[]): void {
+        const text = this.renderInline(runs);
+
+        if (text) {
+            this.addBlock(text);
+        }
+    }
+
+    /**
+     * Writes a list item. Consecutive items form one list; an item with a
+     * higher level than its predecessor starts a nested list.
+     *
+     * @param runs - Item text
+     * @param level - Nesting level, 0 for the outermost list
+     * @param ordered - Numbered (true) or bulleted (false)
+     */
+    listItem(runs: MarkdownRun[], level: number, ordered: boolean): void {
+        const depth = Math.max(0, Math.min(level, this.listLevels.length));
+
+        this.listLevels.length = Math.min(this.listLevels.length, depth + 1);
+
+        if (this.listLevels[depth]?.ordered !== ordered) {
+            if (depth === 0) {
+                // A top-level list of the other kind is a separate list
+                this.closeList();
+            }
+            this.listLevels[depth] = { ordered, counter: 0, contentIndent: 0 };
+        }
+
+        const current = this.listLevels[depth]!;
+        const indent = depth > 0 ? this.listLevels[depth - 1]!.contentIndent : 0;
+        const marker = ordered ? `${++current.counter}.` : '-';
+        current.contentIndent = indent + marker.length + 1;
+
+        const [first = '', ...rest] = this.renderInline(runs).split('\n');
+        this.listLines.push(`${' '.repeat(indent)}${marker} ${first}`.trimEnd());
+        rest.forEach(line => this.listLines.push(`${' '.repeat(current.contentIndent)}${line}`));
+    }
+
+    /**
+     * Writes a fenced code block. The text is kept verbatim.
+     *
+     * @param value - Code text
+     * @param lang - Language tag, or null
+     */
+    code(value: string, lang: string | null = null): void {
+        const longest = Math.max(2, ...(value.match(/^[ \t]*`{3,}/gm) ?? []).map(fence => fence.trim().length));
+        const fence = '`'.repeat(longest + 1);
+
+        this.addBlock(`${fence}${lang ?? ''}\n${value}\n${fence}`);
+    }
+
+    /**
+     * Writes a table. The first row is the header row; rows with fewer
+     * cells are padded.
+     *
+     * @param rows - Cells of each row
+     */
+    table(rows: MarkdownRun[][][]): void {
+        const columns = Math.max(0, ...rows.map(row => row.length));
+
+        if (columns === 0) {
+            return;
+        }
+
+        const renderRow = (cells: MarkdownRun[][]): string => {
+            const texts = Array.from({ length: columns }, (_, index) =>
+                this.renderInline((cells[index] ?? []).map(run => (run.lineBreak ? { ...run, lineBreak: false, text: ' ' } : run)))
+                    .replace(/\|/g, '\\|'));
+            return `| ${texts.join(' | ')} |`;
+        };
+
+        this.addBlock([
+            renderRow(rows[0]!),
+            `|${' --- |'.repeat(columns)}`,
+            ...rows.slice(1).map(renderRow),
+        ].join('\n'));
+    }
+
+    /**
+     * Returns the Markdown written so far.
+     *
+     * @returns Markdown text ending with a newline, or an empty string
+     */
+    toString(): string {
+        this.closeList();
+        return this.blocks.length > 0 ? `${this.blocks.join('\n\n')}\n` : '';
+    }
+
+    /**
+     * Adds a block, ending an open list first.
+     *
+     * @param block - Markdown of the block
+     */
+    private addBlock(block: string): void {
+        this.closeList();
+        this.blocks.push(block);
+    }
+
+    /**
+     * Ends the open list, if any, and adds it as a block.
+     */
+    private closeList(): void {
+        if (this.listLines.length > 0) {
+            this.blocks.push(this.listLines.join('\n'));
+        }
+        this.listLines = [];
+        this.listLevels = [];
+    }
+
+    /**
+     * Renders runs as inline Markdown, one output line per line break.
+     * Emphasis cannot span lines in Markdown, so every line is rendered
+     * on its own. Empty lines are dropped, as they would end the block.
+     *
+     * @param runs - Runs to render
+     * @returns Inline Markdown with \n between lines
+     */
+    private renderInline(runs: MarkdownRun[]): string {
+        const lines: MarkdownRun[][] = [[]];
+
+        runs.forEach(run => {
+            if (run.lineBreak) {
+                lines.push([]);
+            } else if (run.text.length > 0 || run.image) {
+                lines[lines.length - 1]!.push(run);
+            }
+        });
+
+        return lines
+            .map(line => this.escapeBlockMarker(this.renderLinks(line).trim()))
+            .filter(line => line.length > 0)
+            .join('\n');
+    }
+
+    /**
+     * Renders a line, wrapping consecutive runs with the same target in a link.
+     *
+     * @param runs - Runs of one line
+     * @returns Inline Markdown
+     */
+    private renderLinks(runs: MarkdownRun[]): string {
+        return this.group(runs, run => run.link)
+            .map(({ key: link, runs: linked }) => {
+                const text = this.renderEmphasis(linked);
+                if (link === null) {
+                    return text;
+                }
+                return `[${text.trim() || this.escape(link)}](${this.encodeUrl(link)})`;
+            })
+            .join('');
+    }
+
+    /**
+     * Renders bold and italic spans. Whitespace at the edges of a span is
+     * moved outside the delimiters, which must touch non-space characters.
+     *
+     * @param runs - Runs to render
+     * @returns Inline Markdown
+     */
+    private renderEmphasis(runs: MarkdownRun[]): string {
+        const wrap = (text: string, delimiter: string): string => {
+            const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+            return match[2] ? `${match[1]}${delimiter}${match[2]}${delimiter}${match[3]}` : text;
+        };
+
+        return this.group(runs, run => run.bold)
+            .map(bold => {
+                const inner = this.group(bold.runs, run => run.italic)
+                    .map(italic => {
+                        const text = italic.runs.map(run => this.renderRun(run)).join('');
+                        return italic.key ? wrap(text, '*') : text;
+                    })
+                    .join('');
+                return bold.key ? wrap(inner, '**') : inner;
+            })
+            .join('');
+    }
+
+    /**
+     * Renders a single run: escaped text, a code span or an image.
+     *
+     * @param run - Run to render
+     * @returns Inline Markdown
+     */
+    private renderRun(run: MarkdownRun): string {
+        if (run.image) {
+            return `![${run.image.alt.replace(/[\[\]\\]/g, '')}](${this.encodeUrl(run.image.url)})`;
+        }
+        if (run.code) {
+            const longest = Math.max(0, ...(run.text.match(/`+/g) ?? []).map(ticks => ticks.length));
+            const ticks = '`'.repeat(longest + 1);
+            const padding = run.text.startsWith('`') || run.text.endsWith('`') ? ' ' : '';
+            return `${ticks}${padding}${run.text}${padding}${ticks}`;
+        }
+        return this.escape(run.text.replace(/\s+/g, ' '));
+    }
+
+    /**
+     * Groups consecutive runs with the same key.
+     *
+     * @param runs - Runs in order
+     * @param key - Key to group by
+     * @returns Groups in order
+     */
+    private group<K>(runs: MarkdownRun[], key: (run: MarkdownRun) => K): Array<{ key: K; runs: MarkdownRun[] }> {
+        const groups: Array<{ key: K; runs: MarkdownRun[] }> = [];
+
+        runs.forEach(run => {
+            const last = groups[groups.length - 1];
+            if (last && last.key === key(run)) {
+                last.runs.push(run);
+            } else {
+                groups.push({ key: key(run), runs: [run] });
+            }
+        });
+
+        return groups;
+    }
+
+    /**
+     * Escapes inline Markdown characters in text.
+     *
+     * @param text - Plain text
+     * @returns Escaped text
+     */
+    private escape(text: string): string {
+        return text.replace(INLINE_SPECIAL, '\\$&');
+    }
+
+    /**
+     * Encodes the characters of a URL that end a link destination.
+     *
+     * @param url - Link or image URL
+     * @returns URL usable inside (...)
+     */
+    private encodeUrl(url: string): string {
+        return url.trim().replace(/[ ()]/g, char => URL_ESCAPES[char]!);
+    }
+
+    /**
+     * Escapes a line start that the parser would read as a block marker.
+     *
+     * @param line - Rendered line
+     * @returns Line that parses as paragraph text
+     */
+    private escapeBlockMarker(line: string): string {
+        return line.replace(BLOCK_MARKER, '\\$1').replace(ORDERED_MARKER, '$1\\$2');
+    }
+}
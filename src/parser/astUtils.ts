@@ -0,0 +1,104 @@
+import type { DocumentNode, HeadingDepth, HeadingNode, ImageNode, InlineNode } from './MarkdownAST';
+
+/**
+ * A run of text with uniform formatting, produced by flattening inline nodes.
+ * Line breaks are represented as runs with `lineBreak` set and empty text,
+ * images as runs with `image` set and the alt text as text.
+ */
+export interface StyledRun {
+    text: string;
+    bold: boolean;
+    italic: boolean;
+    code: boolean;
+    lineBreak: boolean;
+    link: string | null;
+    image: ImageNode | null;
+}
+
+/**
+ * Inherited formatting while walking nested inline nodes.
+ */
+export interface RunStyle {
+    bold: boolean;
+    italic: boolean;
+    link?: string | null;
+}
+
+const PLAIN_STYLE: RunStyle = { bold: false, italic: false };
+
+/**
+ * Flattens nested inline nodes into a list of uniformly formatted runs.
+ * Exporters whose target format has flat character formatting (PDF text,
+ * Word runs) render from these runs.
+ *
+ * @param nodes - Inline nodes of a block
+ * @param style - Formatting inherited from the enclosing block
+ * @returns Array of styled runs in document order
+ */
+export function flattenInline(nodes: InlineNode[], style: RunStyle = PLAIN_STYLE): StyledRun[] {
+    const runs: StyledRun[] = [];
+    const base = { bold: style.bold, italic: style.italic, link: style.link ?? null };
+
+    nodes.forEach(node => {
+        switch (node.type) {
+            case 'text':
+                runs.push({ ...base, text: node.value, code: false, lineBreak: false, image: null });
+                break;
+            case 'inlineCode':
+                runs.push({ ...base, text: node.value, code: true, lineBreak: false, image: null });
+                break;
+            case 'strong':
+                runs.push(...flattenInline(node.children, { ...style, bold: true }));
+                break;
+            case 'emphasis':
+                runs.push(...flattenInline(node.children, { ...style, italic: true }));
+                break;
+            case 'link':
+                runs.push(...flattenInline(node.children, { ...style, link: node.url }));
+                break;
+            case 'image':
+                runs.push({ ...base, text: node.alt, code: false, lineBreak: false, image: node });
+                break;
+            case 'break':
+                runs.push({ ...base, text: '', code: false, lineBreak: true, image: null });
+                break;
+        }
+    });
+
+    return runs;
+}
+
+/**
+ * Converts inline nodes to plain text, dropping all formatting.
+ * Links become their text and images their alt text.
+ *
+ * @param nodes - Inline nodes of a block
+ * @returns Plain text, with line breaks as \n
+ */
+export function inlineToPlainText(nodes: InlineNode[]): string {
+    return flattenInline(nodes)
+        .map(run => (run.lineBreak ? '\n' : run.text))
+        .join('');
+}
+
+/**
+ * A heading of the document as listed in a table of contents.
+ */
+export interface HeadingEntry {
+    depth: HeadingDepth;
+    text: string;
+    node: HeadingNode;
+}
+
+/**
+ * Collects the headings of a document in document order.
+ *
+ * @param tree - Parsed document tree
+ * @param maxDepth - Deepest heading level to include
+ * @returns Headings with their plain text
+ */
+export function collectHeadings(tree: DocumentNode, maxDepth: HeadingDepth = 6): HeadingEntry[] {
+    return tree.children
+        .filter((block): block is HeadingNode => block.type === 'heading' && block.depth <= maxDepth)
+        .map(node => ({ depth: node.depth, text: inlineToPlainText(node.children).replace(/\n/g, ' '), node }));
+}
@@ -0,0 +1,218 @@
+import type { DocumentMetadata } from './MarkdownAST';
+
+/**
+ * Value of a front matter field: a scalar or a list of scalars.
+ */
+export type FrontMatterValue = string | string[];
+
+/**
+ * Front matter found at the start of a document.
+ */
+export interface FrontMatter {
+    /**
+     * Top-level fields by key. Nested mappings are not supported and skipped.
+     */
+    data: Record<string, FrontMatterValue>;
+
+    /**
+     * Number of source lines taken by the block, including both delimiters.
+     */
+    lineCount: number;
+}
+
+/**
+ * Top-level "key: value" line.
+ */
+const FIELD = /^([A-Za-z_][\w.-]*)[ \t]*:(?:[ \t]+(.*?))?[ \t]*$/;
+
+/**
+ * Block sequence item ("- value").
+ */
+const SEQUENCE_ITEM = /^[ \t]*-(?:[ \t]+(.*?))?[ \t]*$/;
+
+/**
+ * Reads a YAML front matter block from the start of a document.
+ *
+ * The block starts with "---" on the first line and ends with "---" or
+ * "..." on a line of its own. Only the YAML subset used for document
+ * metadata is understood: top-level "key: value" pairs with plain or quoted
+ * scalars, flow sequences ([a, b]), block sequences (- a) and block
+ * scalars (| and >). Comments and unsupported constructs are skipped.
+ *
+ * @param lines - Source lines of the document
+ * @returns The front matter, or null if the document has none
+ */
+export function parseFrontMatter(lines: string[]): FrontMatter | null {
+    if (lines[0]?.replace(/^\uFEFF/, '').trimEnd() !== '---') {
+        return null;
+    }
+
+    const end = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)[ \t]*$/.test(line));
+
+    if (end === -1) {
+        return null;
+    }
+
+    const data: Record<string, FrontMatterValue> = {};
+    let index = 1;
+
+    while (index < end) {
+        const line = lines[index]!;
+        const field = FIELD.exec(line);
+        index++;
+
+        if (!field) {
+            continue;
+        }
+
+        const key = field[1]!;
+        const raw = stripComment(field[2] ?? '');
+
+        if (/^[|>][+-]?$/.test(raw)) {
+            // Block scalar: indented lines, kept (|) or folded (>)
+            const block: string[] = [];
+            while (index < end && (/^[ \t]/.test(lines[index]!) || lines[index]!.trim() === '')) {
+                block.push(lines[index]!.trim());
+                index++;
+            }
+            data[key] = (raw.startsWith('|') ? block.join('\n') : block.join(' ')).trim();
+        } else if (raw === '') {
+            // Block sequence on the following lines; anything else (nested mappings) is skipped
+            const items: string[] = [];
+            while (index < end && (/^[ \t-]/.test(lines[index]!) || lines[index]!.trim() === '')) {
+                const item = SEQUENCE_ITEM.exec(lines[index]!);
+                if (item) {
+                    items.push(parseScalar(stripComment(item[1] ?? '')));
+                }
+                index++;
+            }
+            data[key] = items;
+        } else if (raw.startsWith('[') && raw.endsWith(']')) {
+            data[key] = splitFlowSequence(raw.slice(1, -1)).map(item => parseScalar(item));
+        } else {
+            data[key] = parseScalar(raw);
+        }
+    }
+
+    return { data, lineCount: end + 1 };
+}
+
+/**
+ * Maps front matter fields to document metadata. Keywords may be given as
+ * a list or as a comma separated string.
+ *
+ * @param data - Front matter fields
+ * @returns Document metadata
+ */
+export function toDocumentMetadata(data: Record<string, FrontMatterValue>): DocumentMetadata {
+    const text = (key: string): string | null => {
+        const value = data[key];
+        const joined = Array.isArray(value) ? value.join(', ') : value;
+        return joined ? joined : null;
+    };
+    const keywords = data['keywords'] ?? data['tags'];
+
+    return {
+        title: text('title'),
+        author: text('author'),
+        subject: text('subject') ?? text('description'),
+        keywords: (Array.isArray(keywords) ? keywords : (keywords ?? '').split(','))
+            .map(keyword => keyword.trim())
+            .filter(keyword => keyword.length > 0),
+        date: text('date'),
+    };
+}
+
+/**
+ * Parses the date of the document metadata.
+ *
+ * @param metadata - Document metadata
+ * @returns The date, or null if none is set or it is not a valid date
+ */
+export function metadataDate(metadata: DocumentMetadata): Date | null {
+    if (!metadata.date) {
+        return null;
+    }
+    const date = new Date(metadata.date);
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Metadata of a document without front matter.
+ */
+export const EMPTY_METADATA: DocumentMetadata = {
+    title: null,
+    author: null,
+    subject: null,
+    keywords: [],
+    date: null,
+};
+
+/**
+ * Removes a trailing comment from a plain value. Quoted values keep
+ * their # characters.
+ *
+ * @param value - Raw value
+ * @returns Value without comment
+ */
+function stripComment(value: string): string {
+    if (value.startsWith('"') || value.startsWith("'")) {
+        return value.trim();
+    }
+    return value.replace(/(^|[ \t])#.*$/, '').trim();
+}
+
+/**
+ * Splits the content of a flow sequence at commas outside of quotes.
+ *
+ * @param content - Text between [ and ]
+ * @returns Raw items
+ */
+function splitFlowSequence(content: string): string[] {
+    const items: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+
+    for (const char of content) {
+        if (quote) {
+            quote = char === quote ? null : quote;
+            current += char;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+            current += char;
+        } else if (char === ',') {
+            items.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    items.push(current.trim());
+
+    return items.filter(item => item.length > 0);
+}
+
+/**
+ * Converts a scalar to its string value, resolving quotes and escapes.
+ *
+ * @param value - Raw scalar
+ * @returns String value
+ */
+function parseScalar(value: string): string {
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+        return value.slice(1, -1).replace(/\\(["\\\/nt])/g, (_, char: string) => {
+            switch (char) {
+                case 'n':
+                    return '\n';
+                case 't':
+                    return '\t';
+                default:
+                    return char;
+            }
+        });
+    }
+    if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+        return value.slice(1, -1).replace(/''/g, "'");
+    }
+    return value;
+}
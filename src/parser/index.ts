@@ -0,0 +1,33 @@
+export { MarkdownParser } from './MarkdownParser';
+export { MarkdownWriter } from './MarkdownWriter';
+export type { MarkdownRun } from './MarkdownWriter';
+export { flattenInline, inlineToPlainText, collectHeadings } from './astUtils';
+export type { StyledRun, RunStyle, HeadingEntry } from './astUtils';
+export { parseFrontMatter, toDocumentMetadata, metadataDate } from './frontMatter';
+export type { FrontMatter, FrontMatterValue } from './frontMatter';
+export type {
+    SourcePoint,
+    SourcePosition,
+    TextNode,
+    StrongNode,
+    EmphasisNode,
+    InlineCodeNode,
+    LinkNode,
+    ImageNode,
+    BreakNode,
+    InlineNode,
+    HeadingDepth,
+    HeadingNode,
+    ParagraphNode,
+    ListNode,
+    ListItemNode,
+    TableAlign,
+    TableNode,
+    TableRowNode,
+    TableCellNode,
+    CodeBlockNode,
+    BlockNode,
+    DocumentMetadata,
+    DocumentNode,
+    UnsupportedSyntax,
+} from './MarkdownAST';
@@ -0,0 +1,96 @@
+import type { ExportDiagnostic } from '../interfaces';
+import { ExportError } from '../errors';
+import { formatDiagnostic } from '../utils';
+
+/**
+ * Diagnostics Panel
+ *
+ * Lists what an export could not reproduce faithfully (unsupported syntax,
+ * lost formatting, images that were not embedded, missing glyphs) and why
+ * an export failed, inside the output section. The panel is hidden while
+ * there is nothing to report.
+ */
+export class DiagnosticsPanel {
+    /**
+     * @param section - Output section, shown when there is something to report
+     * @param container - Element the list is rendered into
+     */
+    constructor(
+        private readonly section: HTMLElement,
+        private readonly container: HTMLElement,
+    ) {}
+
+    /**
+     * Shows the diagnostics of an export result.
+     *
+     * @param diagnostics - Diagnostics of the result
+     * @param label - Label of the exported format
+     */
+    show(diagnostics: ExportDiagnostic[], label: string): void {
+        if (diagnostics.length === 0) {
+            this.clear();
+            return;
+        }
+
+        const warnings = diagnostics.filter(diagnostic => diagnostic.severity === 'warning').length;
+        const summary = warnings > 0
+            ? `${label} export: ${warnings} ${warnings === 1 ? 'warning' : 'warnings'}`
+            : `${label} export: notes`;
+
+        this.render(summary, diagnostics.map(diagnostic => this.createItem(diagnostic.severity, formatDiagnostic(diagnostic))));
+    }
+
+    /**
+     * Shows why an export failed. ExportErrors are shown with their code.
+     *
+     * @param error - Thrown value
+     */
+    showError(error: unknown): void {
+        const message = error instanceof Error ? error.message : String(error);
+        const detail = error instanceof ExportError ? `${error.code}: ${message}` : message;
+
+        this.render('Export failed', [this.createItem('error', detail)]);
+    }
+
+    /**
+     * Removes all entries and hides the panel.
+     */
+    clear(): void {
+        this.container.replaceChildren();
+        this.container.classList.add('hidden');
+    }
+
+    /**
+     * Replaces the panel content and shows it.
+     *
+     * @param summary - Heading of the list
+     * @param items - List entries
+     */
+    private render(summary: string, items: HTMLLIElement[]): void {
+        const heading = document.createElement('p');
+        heading.className = 'diagnostics-summary';
+        heading.textContent = summary;
+
+        const list = document.createElement('ul');
+        list.className = 'diagnostics-list';
+        list.append(...items);
+
+        this.container.replaceChildren(heading, list);
+        this.container.classList.remove('hidden');
+        this.section.classList.remove('hidden');
+    }
+
+    /**
+     * Creates a list entry.
+     *
+     * @param severity - warning, info or error; used as CSS modifier
+     * @param text - Entry text
+     * @returns List item element
+     */
+    private createItem(severity: string, text: string): HTMLLIElement {
+        const item = document.createElement('li');
+        item.className = `diagnostic diagnostic-${severity}`;
+        item.textContent = text;
+        return item;
+    }
+}
@@ -0,0 +1,206 @@
+import type { ExportFormat, ExporterFactory, ExportOptions, ExportResult } from '../interfaces';
+import type { ExportWorker } from '../worker';
+import { renderWordPreview } from './wordPreview';
+
+/**
+ * Delay between the last change and the preview update in milliseconds.
+ */
+const DEFAULT_DELAY = 500;
+
+/**
+ * Format the approximations of other rich text formats are rendered from.
+ */
+const HTML_FORMAT = 'html';
+
+/**
+ * Live Preview
+ * 
+ * Renders the current Markdown the way the selected exporter will, inside
+ * the output section. Updates are debounced, so typing does not trigger an
+ * export per keystroke. The exports run in the export worker, so the page
+ * stays responsive; an update aborts the export of the previous one.
+ * 
+ * The preview depends on the output of the format:
+ * - Plain text and LaTeX source are shown as text
+ * - PDF is shown in the browser's embedded PDF viewer
+ * - HTML is shown in a sandboxed frame
+ * - DOCX is shown as an HTML approximation of the Word styles
+ * - Other rich text formats (EPUB) are shown as their HTML export
+ */
+export class LivePreview {
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private controller: AbortController | null = null;
+    private objectUrl: string | null = null;
+
+    /**
+     * @param section - Output section, hidden while there is nothing to preview
+     * @param container - Element the preview is rendered into
+     * @param worker - Export worker the previews are rendered in
+     * @param delay - Debounce delay in milliseconds
+     */
+    constructor(
+        private readonly section: HTMLElement,
+        private readonly container: HTMLElement,
+        private readonly worker: ExportWorker,
+        private readonly delay = DEFAULT_DELAY,
+    ) {}
+
+    /**
+     * Schedules a preview update. Calls within the debounce delay replace
+     * each other, so only the latest content is rendered.
+     * 
+     * @param content - Markdown formatted text
+     * @param factory - Factory of the selected export format
+     * @param options - Export options
+     */
+    schedule(content: string, factory: ExporterFactory, options: Partial<ExportOptions>): void {
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            void this.update(content, factory, options);
+        }, this.delay);
+    }
+
+    /**
+     * Renders the preview immediately, aborting a preview still being
+     * rendered.
+     * 
+     * @param content - Markdown formatted text
+     * @param factory - Factory of the selected export format
+     * @param options - Export options
+     */
+    async update(content: string, factory: ExporterFactory, options: Partial<ExportOptions>): Promise<void> {
+        const controller = new AbortController();
+        const markdown = content.trim();
+
+        this.controller?.abort();
+        this.controller = controller;
+
+        if (markdown.length === 0) {
+            this.clear();
+            this.section.classList.add('hidden');
+            return;
+        }
+
+        try {
+            const { format } = factory;
+            // Browsers cannot display binary rich text formats other than PDF
+            const approximate = format.capabilities.binary && format.capabilities.richText && format.mimeType !== 'application/pdf';
+            const preview = approximate
+                ? await this.approximate(markdown, format, options, controller.signal)
+                : await this.worker.createExporter(format.id, options).export(markdown, { signal: controller.signal });
+
+            // A newer update started while this one was exporting
+            if (controller.signal.aborted) {
+                return;
+            }
+
+            this.clear();
+            if (typeof preview === 'string') {
+                this.showFrame(preview, `${format.label} preview (approximation)`);
+            } else {
+                this.showResult(preview, format.label);
+            }
+        } catch (error) {
+            if (controller.signal.aborted) {
+                return;
+            }
+            console.error('LivePreview: Preview failed', error);
+            this.clear();
+            this.showMessage(`Preview failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        this.section.classList.remove('hidden');
+    }
+
+    /**
+     * Renders the HTML approximation of a format browsers cannot display.
+     * 
+     * @param markdown - Markdown formatted text
+     * @param format - Format of the selected exporter
+     * @param options - Export options
+     * @param signal - Aborts the HTML export
+     * @returns Standalone HTML page
+     */
+    private async approximate(markdown: string, format: ExportFormat, options: Partial<ExportOptions>, signal: AbortSignal): Promise<string> {
+        const result = await this.worker.createExporter(HTML_FORMAT, options).export(markdown, { signal });
+        const html = new TextDecoder().decode(result.data);
+
+        return format.id === 'docx' ? renderWordPreview(html, options) : html;
+    }
+
+    /**
+     * Shows an export result according to its MIME type.
+     * 
+     * @param result - Generated file
+     * @param label - Format label for accessibility titles
+     */
+    private showResult(result: ExportResult, label: string): void {
+        if (result.mimeType.startsWith('application/pdf')) {
+            this.objectUrl = URL.createObjectURL(new Blob([result.data], { type: 'application/pdf' }));
+            const frame = this.createFrame(`${label} preview`);
+            frame.src = this.objectUrl;
+            this.container.appendChild(frame);
+        } else if (result.mimeType.startsWith('text/html')) {
+            this.showFrame(new TextDecoder().decode(result.data), `${label} preview`);
+        } else if (result.mimeType.startsWith('text/')) {
+            const text = document.createElement('pre');
+            text.className = 'preview-text';
+            text.textContent = new TextDecoder().decode(result.data);
+            this.container.appendChild(text);
+        } else {
+            this.showMessage(`No preview available for ${label}.`);
+        }
+    }
+
+    /**
+     * Shows an HTML page in a sandboxed frame (scripts stay disabled).
+     * 
+     * @param html - HTML source of the page
+     * @param title - Accessible title of the frame
+     */
+    private showFrame(html: string, title: string): void {
+        const frame = this.createFrame(title);
+        frame.sandbox.add('allow-popups');
+        frame.srcdoc = html;
+        this.container.appendChild(frame);
+    }
+
+    /**
+     * Shows a status or error message instead of a preview.
+     * 
+     * @param message - Message text
+     */
+    private showMessage(message: string): void {
+        const note = document.createElement('p');
+        note.className = 'preview-message';
+        note.textContent = message;
+        this.container.appendChild(note);
+    }
+
+    /**
+     * Creates an empty preview frame.
+     * 
+     * @param title - Accessible title of the frame
+     * @returns iframe element
+     */
+    private createFrame(title: string): HTMLIFrameElement {
+        const frame = document.createElement('iframe');
+        frame.className = 'preview-frame';
+        frame.title = title;
+        return frame;
+    }
+
+    /**
+     * Removes the current preview and releases its blob URL.
+     */
+    private clear(): void {
+        if (this.objectUrl) {
+            URL.revokeObjectURL(this.objectUrl);
+            this.objectUrl = null;
+        }
+        this.container.replaceChildren();
+    }
+}
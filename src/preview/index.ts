@@ -0,0 +1,3 @@
+export { LivePreview } from './LivePreview';
+export { DiagnosticsPanel } from './DiagnosticsPanel';
+export { renderWordPreview } from './wordPreview';
@@ -0,0 +1,70 @@
+import type { ExportOptions, FontFamily } from '../interfaces';
+import { pageDimensions, resolveExportOptions } from '../options';
+import { resolveTheme, themeStylesheet } from '../themes';
+
+/**
+ * Word fonts for the generic font families, with web fallbacks.
+ * Mirrors the fonts the DOCXExporter writes into the document.
+ */
+const WORD_FONTS: Record<FontFamily, string> = {
+    'sans-serif': "Calibri, Carlito, 'Segoe UI', Arial, sans-serif",
+    'serif': "'Times New Roman', Times, serif",
+    'monospace': "'Courier New', Courier, monospace",
+};
+
+/**
+ * Line height of Word's "auto" single line spacing, relative to the font size.
+ */
+const WORD_LINE_HEIGHT = 1.17;
+
+/**
+ * Turns the HTML export of a document into an approximation of the Word
+ * document the DOCXExporter produces. The HTML export is restyled with
+ * the Word styles used there (the theme with Word fonts and line heights)
+ * and laid out as a page with the configured width and margins.
+ * 
+ * @param html - HTML export of the document, made with the same options
+ * @param options - Export options of the DOCX export
+ * @returns Standalone HTML page
+ */
+export function renderWordPreview(html: string, options: Partial<ExportOptions>): string {
+    return html.replace('</head>', `<style>${wordStylesheet(resolveExportOptions(options))}</style>\n</head>`);
+}
+
+/**
+ * Builds the stylesheet approximating the Word styles.
+ * 
+ * @param options - Resolved export options
+ * @returns CSS rules overriding the HTML export stylesheet
+ */
+function wordStylesheet(options: ExportOptions): string {
+    const { margins } = options;
+    const page = pageDimensions(options.pageSize, options.orientation);
+    const contentWidth = page.width - margins.left - margins.right;
+
+    return `
+${themeStylesheet(resolveTheme(options), WORD_FONTS, WORD_LINE_HEIGHT)}
+html { background: #e5e5ea; }
+body {
+    box-sizing: content-box;
+    width: ${contentWidth}mm;
+    max-width: none;
+    min-height: ${page.height - margins.top - margins.bottom}mm;
+    margin: 1rem auto;
+    padding: ${margins.top}mm ${margins.right}mm ${margins.bottom}mm ${margins.left}mm;
+    background: #ffffff;
+    box-shadow: 0 1px 6px rgba(0, 0, 0, 0.25);
+}
+h1, h2, h3, h4, h5, h6 { line-height: inherit; }
+ul, ol { margin: 0; }
+table { width: 100%; }
+th, td { padding: 0 0.08in; }
+code { font-size: 1em; border-radius: 0; padding: 0; }
+pre {
+    padding: 0;
+    border-radius: 0;
+    line-height: ${WORD_LINE_HEIGHT};
+}
+a { text-decoration: underline; }
+`;
+}
@@ -1,6 +1,84 @@
-import { DocumentExporter } from '../interfaces';
-import { Document, Paragraph, TextRun, HeadingLevel, Packer } from 'docx';
-import { saveAs } from 'file-saver';
+import type { DocumentExporter, ExportControl, ExportOptions, ExportResult, FontFamily, TextAlignment } from '../interfaces';
+import {
+    Document, Paragraph, TextRun, HeadingLevel, Packer, LevelFormat, AlignmentType,
+    Table, TableRow, TableCell, WidthType, ShadingType, ExternalHyperlink, ImageRun,
+    PageOrientation, TableOfContents, PageBreak, Header, Footer, PageNumber, Tab, TabStopType,
+    BorderStyle, UnderlineType,
+} from 'docx';
+import type { FileChild, IBorderOptions, ILevelsOptions, IParagraphStyleOptions, IRunOptions, ParagraphChild } from 'docx';
+import JSZip from 'jszip';
+import { MarkdownParser, flattenInline, metadataDate } from '../parser';
+import type {
+    BlockNode, DocumentMetadata, DocumentNode, ImageNode, InlineNode, ListNode, StyledRun, TableAlign, TableNode,
+} from '../parser';
+import { DiagnosticCollector, decodeImage, renderWithProgress } from '../utils';
+import { toExportError } from '../errors';
+import {
+    PAGE_SIZES, TOC_MAX_DEPTH, documentFields, documentFilename, pageDimensions, parsePageTemplate, resolveExportOptions,
+} from '../options';
+import type { DocumentFields, TemplateToken } from '../options';
+import { resolveTheme } from '../themes';
+import type { ResolvedTextStyle, ResolvedTheme } from '../themes';
+
+/**
+ * Word numbering definition for a single list.
+ */
+interface NumberingDefinition {
+    reference: string;
+    levels: ILevelsOptions[];
+}
+
+/**
+ * Bullet characters for unordered lists, cycled by nesting level.
+ */
+const BULLETS = ['\u2022', '\u25E6', '\u25AA'];
+
+/**
+ * Indentation per list level in twips (1/20 pt).
+ */
+const LIST_INDENT = 720;
+
+/**
+ * Word heading levels by heading depth.
+ */
+const HEADING_LEVELS = [
+    HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_4, HeadingLevel.HEADING_5, HeadingLevel.HEADING_6,
+];
+
+/**
+ * Twips (1/20 pt) per millimeter.
+ */
+const TWIPS_PER_MM = 1440 / 25.4;
+
+/**
+ * Twips per CSS pixel (96 dpi).
+ */
+const TWIPS_PER_PIXEL = 15;
+
+/**
+ * Word fonts for the generic font families.
+ */
+const FONT_FAMILIES: Record<FontFamily, string> = {
+    'sans-serif': 'Calibri',
+    'serif': 'Times New Roman',
+    'monospace': 'Courier New',
+};
+
+/**
+ * Word paragraph alignments for the theme alignments.
+ */
+const ALIGNMENTS: Record<TextAlignment, (typeof AlignmentType)[keyof typeof AlignmentType]> = {
+    'left': AlignmentType.LEFT,
+    'center': AlignmentType.CENTER,
+    'right': AlignmentType.RIGHT,
+    'justify': AlignmentType.JUSTIFIED,
+};
+
+/**
+ * MIME type of the generated files, also listed in the format of the factory.
+ */
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
 
 /**
  * Concrete Product - DOCXExporter
@@ -9,133 +87,581 @@ import { saveAs } from 'file-saver';
  * In the Factory Method pattern, this is a "Concrete Product".
  * 
  * DOCXExporter converts Markdown to a Word document (.docx) with:
- * - Heading 1 style for #
- * - Heading 2 style for ##
+ * - Heading 1 to Heading 6 styles for # to ######
+ * - An optional table of contents field, filled in by Word when the file is opened
+ * - Optional page headers and footers; page numbers are Word fields
  * - Bold formatting for **text**
  * - Italic formatting for *text*
+ * - Native Word numbering for bulleted and numbered lists
+ * - Native Word tables with a repeating header row
+ * - "Code" paragraph and "Code Char" character styles for code
+ * - Hyperlinks and embedded images (with alt text)
+ * - Core properties (title, author, subject, keywords, date) from the front matter
+ * 
+ * Images that cannot be embedded and unsupported Markdown syntax are
+ * reported as diagnostics of the export result.
+ * 
+ * Page size, orientation, margins, base font, line spacing and filename
+ * are taken from the export options. The theme sets the fonts, sizes,
+ * colors, spacing and alignment of the Word styles.
  * 
  * Uses docx library for proper .docx file generation.
  */
 export class DOCXExporter implements DocumentExporter {
+    private parser = new MarkdownParser();
+    private numbering: NumberingDefinition[] = [];
+    private diagnostics = new DiagnosticCollector();
+    private readonly options: ExportOptions;
+    private readonly theme: ResolvedTheme;
+    private readonly contentWidth: number;
+
+    /**
+     * @param options - Export options; missing values fall back to the defaults
+     */
+    constructor(options: Partial<ExportOptions> = {}) {
+        this.options = resolveExportOptions(options);
+        this.theme = resolveTheme(this.options);
+        
+        const { margins } = this.options;
+        const page = pageDimensions(this.options.pageSize, this.options.orientation);
+        this.contentWidth = Math.floor((page.width - margins.left - margins.right) * TWIPS_PER_MM);
+    }
+
     /**
      * Exports markdown content as a Word document (.docx).
      * Converts markdown to formatted Word document structure.
      * 
      * @param content - Markdown formatted text
+     * @param control - Optional progress callback and abort signal
+     * @returns The generated Word document
+     * @throws ExportError if the export fails or is aborted
      */
-    async export(content: string): Promise<void> {
+    async export(content: string, control: ExportControl = {}): Promise<ExportResult> {
         console.log('DOCXExporter: Starting Word document export...');
         
-        const paragraphs = this.parseMarkdownToDocx(content);
+        try {
+            const result = await this.generate(content, control);
+            console.log('DOCXExporter: Export completed successfully');
+            return result;
+        } catch (error) {
+            throw toExportError(error, 'DOCX');
+        }
+    }
+
+    /**
+     * Generates the Word document.
+     * 
+     * @param content - Markdown formatted text
+     * @param control - Progress callback and abort signal
+     * @returns The generated Word document with its diagnostics
+     */
+    private async generate(content: string, control: ExportControl): Promise<ExportResult> {
+        this.numbering = [];
+        this.diagnostics = new DiagnosticCollector();
+        const tree = this.parser.parse(content);
+        this.diagnostics.addUnsupportedSyntax(tree, 'DOCX');
+        const { metadata } = tree;
+        const paragraphs = await this.parseMarkdownToDocx(tree, control);
+        const { lineSpacing, margins } = this.options;
+        const { body, code, table, headings, linkColor } = this.theme;
+        const page = PAGE_SIZES[this.options.pageSize];
+        const fields = documentFields(tree);
+        const { header, footer, omitFirstPageHeaderFooter } = this.options;
         
         const doc = new Document({
+            ...(metadata.title ? { title: metadata.title } : {}),
+            // An empty creator keeps docx from writing its "Un-named" placeholder as the author
+            creator: metadata.author ?? '',
+            lastModifiedBy: metadata.author ?? '',
+            ...(metadata.subject ? { subject: metadata.subject } : {}),
+            ...(metadata.keywords.length > 0 ? { keywords: metadata.keywords.join(', ') } : {}),
+            styles: {
+                default: {
+                    document: {
+                        run: this.runStyle(body),
+                        paragraph: { spacing: { line: Math.round(240 * lineSpacing) } },
+                    },
+                    heading1: this.paragraphStyle(headings[0]!),
+                    heading2: this.paragraphStyle(headings[1]!),
+                    heading3: this.paragraphStyle(headings[2]!),
+                    heading4: this.paragraphStyle(headings[3]!),
+                    heading5: this.paragraphStyle(headings[4]!),
+                    heading6: this.paragraphStyle(headings[5]!),
+                    hyperlink: { run: { color: linkColor.slice(1), underline: { type: UnderlineType.SINGLE } } },
+                },
+                paragraphStyles: [{
+                    id: 'Code',
+                    name: 'Code',
+                    basedOn: 'Normal',
+                    quickFormat: true,
+                    run: this.runStyle(code),
+                    paragraph: {
+                        spacing: { ...this.spacing(code), line: 240 },
+                        shading: { fill: code.background.slice(1), type: ShadingType.CLEAR, color: 'auto' },
+                    },
+                }, {
+                    id: 'TableText',
+                    name: 'Table Text',
+                    basedOn: 'Normal',
+                    quickFormat: true,
+                    run: this.runStyle(table),
+                    paragraph: { alignment: ALIGNMENTS[table.alignment] },
+                }],
+                characterStyles: [{
+                    id: 'CodeChar',
+                    name: 'Code Char',
+                    basedOn: 'DefaultParagraphFont',
+                    quickFormat: true,
+                    run: {
+                        font: FONT_FAMILIES[code.fontFamily],
+                        color: code.color.slice(1),
+                        shading: { fill: code.background.slice(1), type: ShadingType.CLEAR, color: 'auto' },
+                    },
+                }],
+            },
+            numbering: { config: this.numbering },
+            // Asks Word to fill in the table of contents field on open
+            ...(this.options.tableOfContents ? { features: { updateFields: true } } : {}),
             sections: [{
-                properties: {},
-                children: paragraphs,
+                ...(header !== null ? { headers: {
+                    default: new Header({ children: [this.renderPageTemplate(header, fields)] }),
+                    first: new Header({ children: [new Paragraph({})] }),
+                } } : {}),
+                ...(footer !== null ? { footers: {
+                    default: new Footer({ children: [this.renderPageTemplate(footer, fields)] }),
+                    first: new Footer({ children: [new Paragraph({})] }),
+                } } : {}),
+                properties: {
+                    // The empty "first" header and footer only apply with a title page
+                    titlePage: omitFirstPageHeaderFooter,
+                    page: {
+                        // Portrait dimensions; docx swaps them for landscape
+                        size: {
+                            width: Math.round(page.width * TWIPS_PER_MM),
+                            height: Math.round(page.height * TWIPS_PER_MM),
+                            orientation: this.options.orientation === 'landscape'
+                                ? PageOrientation.LANDSCAPE
+                                : PageOrientation.PORTRAIT,
+                        },
+                        margin: {
+                            top: Math.round(margins.top * TWIPS_PER_MM),
+                            right: Math.round(margins.right * TWIPS_PER_MM),
+                            bottom: Math.round(margins.bottom * TWIPS_PER_MM),
+                            left: Math.round(margins.left * TWIPS_PER_MM),
+                            // Header and footer sit in the middle of the margins, as in the PDF export
+                            header: Math.round(margins.top / 2 * TWIPS_PER_MM),
+                            footer: Math.round(margins.bottom / 2 * TWIPS_PER_MM),
+                        },
+                    },
+                },
+                children: this.options.tableOfContents
+                    ? [...this.renderTableOfContents(), ...paragraphs]
+                    : paragraphs,
             }],
         });
         
-        const blob = await Packer.toBlob(doc);
-        saveAs(blob, 'document.docx');
+        const buffer = await this.applyCreationDate(await Packer.toArrayBuffer(doc), metadata);
         
-        console.log('DOCXExporter: Export completed successfully');
+        return {
+            data: new Uint8Array(buffer),
+            mimeType: DOCX_MIME_TYPE,
+            filename: `${documentFilename(this.options.filename, metadata)}.docx`,
+            diagnostics: this.diagnostics.toArray(),
+        };
     }
 
     /**
-     * Parses markdown content into docx Paragraph elements.
+     * Sets the creation date of the core properties to the front matter
+     * date. The docx library always writes the current time, so the date
+     * is patched into docProps/core.xml of the packed file.
      * 
-     * @param content - Markdown formatted text
-     * @returns Array of docx Paragraph objects
+     * @param buffer - Packed .docx file
+     * @param metadata - Metadata of the parsed document
+     * @returns The file with the creation date applied
      */
-    private parseMarkdownToDocx(content: string): Paragraph[] {
-        const lines = content.split('\n');
-        const paragraphs: Paragraph[] = [];
+    private async applyCreationDate(buffer: ArrayBuffer, metadata: DocumentMetadata): Promise<ArrayBuffer> {
+        const date = metadataDate(metadata);
         
-        lines.forEach(line => {
-            const trimmed = line.trim();
-            
-            if (!trimmed) {
-                // Empty line
-                paragraphs.push(new Paragraph({ text: '' }));
-            } else if (trimmed.startsWith('# ')) {
-                // Heading 1
-                const text = trimmed.substring(2);
-                paragraphs.push(
-                    new Paragraph({
-                        text: text,
-                        heading: HeadingLevel.HEADING_1,
-                    })
-                );
-            } else if (trimmed.startsWith('## ')) {
-                // Heading 2
-                const text = trimmed.substring(3);
-                paragraphs.push(
-                    new Paragraph({
-                        text: text,
-                        heading: HeadingLevel.HEADING_2,
-                    })
-                );
-            } else {
-                // Regular paragraph with inline formatting
-                const textRuns = this.parseInlineFormatting(trimmed);
-                paragraphs.push(new Paragraph({ children: textRuns }));
+        if (!date) {
+            return buffer;
+        }
+        
+        const zip = await JSZip.loadAsync(buffer);
+        const core = await zip.file('docProps/core.xml')?.async('string');
+        
+        if (core === undefined) {
+            return buffer;
+        }
+        
+        const timestamp = date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+        zip.file('docProps/core.xml', core.replace(
+            /(<dcterms:created\b[^>]*>)[^<]*(<\/dcterms:created>)/,
+            `$1${timestamp}$2`,
+        ));
+        return zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+    }
+
+    /**
+     * Builds a Word paragraph style from a theme style.
+     * 
+     * @param style - Text style of the theme
+     * @returns Run and paragraph formatting of the style
+     */
+    private paragraphStyle(style: ResolvedTextStyle): Pick<IParagraphStyleOptions, 'run' | 'paragraph'> {
+        return {
+            run: this.runStyle(style),
+            paragraph: { spacing: this.spacing(style), alignment: ALIGNMENTS[style.alignment] },
+        };
+    }
+
+    /**
+     * Builds Word run formatting from a theme style.
+     * 
+     * @param style - Text style of the theme
+     * @returns Font, size (in half points), emphasis and color
+     */
+    private runStyle(style: ResolvedTextStyle): IRunOptions {
+        return {
+            font: FONT_FAMILIES[style.fontFamily],
+            size: Math.round(style.fontSize * 2),
+            bold: style.bold,
+            italics: style.italic,
+            color: style.color.slice(1),
+        };
+    }
+
+    /**
+     * Flattens inline content with the emphasis of a theme style as base,
+     * since the explicit emphasis of each run overrides the Word style.
+     * 
+     * @param children - Inline nodes
+     * @param style - Text style of the enclosing paragraph
+     * @returns Styled text runs
+     */
+    private styledRuns(children: InlineNode[], style: ResolvedTextStyle): StyledRun[] {
+        return flattenInline(children, { bold: style.bold, italic: style.italic });
+    }
+
+    /**
+     * Converts the spacing of a theme style from points to twips.
+     * 
+     * @param style - Text style of the theme
+     * @returns Space before and after the paragraph
+     */
+    private spacing(style: ResolvedTextStyle): { before: number; after: number } {
+        return { before: Math.round(style.spaceBefore * 20), after: Math.round(style.spaceAfter * 20) };
+    }
+
+    /**
+     * Renders the table of contents on its own page. The entries are a Word
+     * field over the heading styles, so they are computed by Word itself.
+     * 
+     * @returns The contents title, the field and a page break
+     */
+    private renderTableOfContents(): FileChild[] {
+        const title = this.theme.headings[0]!;
+        
+        return [
+            new Paragraph({
+                children: [new TextRun({ ...this.runStyle(title), text: 'Contents' })],
+                spacing: this.spacing(title),
+                alignment: ALIGNMENTS[title.alignment],
+            }),
+            new TableOfContents('Contents', { hyperlink: true, headingStyleRange: `1-${TOC_MAX_DEPTH}` }),
+            new Paragraph({ children: [new PageBreak()] }),
+        ];
+    }
+
+    /**
+     * Renders a header or footer template as a paragraph with a center and
+     * a right tab stop for its three slots. {page} and {pages} become Word
+     * page number fields.
+     * 
+     * @param template - Header or footer template
+     * @param fields - Title and date of the document
+     * @returns Paragraph of the header or footer
+     */
+    private renderPageTemplate(template: string, fields: DocumentFields): Paragraph {
+        const { left, center, right } = parsePageTemplate(template);
+        const style = this.runStyle(this.theme.headerFooter);
+        const renderSlot = (tokens: TemplateToken[]): TextRun[] => tokens.map(token => {
+            if (token.type === 'text') {
+                return new TextRun({ ...style, text: token.text });
+            }
+            switch (token.field) {
+                case 'page':
+                    return new TextRun({ ...style, children: [PageNumber.CURRENT] });
+                case 'pages':
+                    return new TextRun({ ...style, children: [PageNumber.TOTAL_PAGES] });
+                default:
+                    return new TextRun({ ...style, text: fields[token.field] });
             }
         });
         
-        return paragraphs;
+        return new Paragraph({
+            tabStops: [
+                { type: TabStopType.CENTER, position: Math.round(this.contentWidth / 2) },
+                { type: TabStopType.RIGHT, position: this.contentWidth },
+            ],
+            children: [
+                ...renderSlot(left),
+                new TextRun({ children: [new Tab()] }),
+                ...renderSlot(center),
+                new TextRun({ children: [new Tab()] }),
+                ...renderSlot(right),
+            ],
+        });
+    }
+
+    /**
+     * Renders the parsed document tree into docx paragraphs and tables.
+     * 
+     * @param tree - Parsed document tree
+     * @param control - Progress callback and abort signal
+     * @returns Array of docx Paragraph and Table objects
+     */
+    private async parseMarkdownToDocx(tree: DocumentNode, control: ExportControl): Promise<Array<Paragraph | Table>> {
+        const blocks = await renderWithProgress(tree.children, block => this.renderBlock(block), control);
+        return blocks.flat();
+    }
+
+    /**
+     * Renders a single block into one or more docx paragraphs or tables.
+     * 
+     * @param block - Block node of the document tree
+     * @returns Array of docx Paragraph and Table objects
+     */
+    private renderBlock(block: BlockNode): Array<Paragraph | Table> {
+        switch (block.type) {
+            case 'heading':
+                return [new Paragraph({
+                    children: this.createTextRuns(this.styledRuns(block.children, this.theme.headings[block.depth - 1]!)),
+                    heading: HEADING_LEVELS[block.depth - 1]!,
+                })];
+            case 'paragraph':
+                // Regular paragraph with inline formatting
+                return [new Paragraph({
+                    children: this.createTextRuns(this.styledRuns(block.children, this.theme.body)),
+                    spacing: this.spacing(this.theme.body),
+                    alignment: ALIGNMENTS[this.theme.body.alignment],
+                })];
+            case 'list':
+                return this.renderList(block, 0);
+            case 'table':
+                return [this.renderTable(block), new Paragraph({ text: '' })];
+            case 'code':
+                // One paragraph with a line break per source line keeps the block shaded as a whole
+                return [new Paragraph({
+                    style: 'Code',
+                    children: block.value.split('\n').map((line, index) => new TextRun({
+                        text: line.replace(/\t/g, '    '),
+                        ...(index > 0 ? { break: 1 } : {}),
+                    })),
+                })];
+        }
+    }
+
+    /**
+     * Renders a table as a native Word table. The header row is shaded and
+     * marked as repeating header, so it is repeated after page breaks.
+     * Cell text uses the "Table Text" style.
+     * 
+     * @param table - Table node of the document tree
+     * @returns docx Table object
+     */
+    private renderTable(table: TableNode): Table {
+        const columnWidth = Math.floor(this.contentWidth / table.align.length);
+        const style = this.theme.table;
+        const { headerBackground, borderColor } = style;
+        const border: IBorderOptions = { style: BorderStyle.SINGLE, size: 4, color: borderColor.slice(1) };
+        
+        const rows = table.children.map(row => new TableRow({
+            tableHeader: row.header,
+            children: row.children.map((cell, column) => new TableCell({
+                width: { size: columnWidth, type: WidthType.DXA },
+                ...(row.header ? { shading: { fill: headerBackground.slice(1), type: ShadingType.CLEAR, color: 'auto' } } : {}),
+                children: [new Paragraph({
+                    style: 'TableText',
+                    // Unaligned columns keep the alignment of the style
+                    ...(table.align[column] ? { alignment: this.cellAlignment(table.align[column] ?? null) } : {}),
+                    children: this.createTextRuns(flattenInline(cell.children, { bold: row.header || style.bold, italic: style.italic })),
+                })],
+            })),
+        }));
+        
+        return new Table({
+            rows,
+            width: { size: this.contentWidth, type: WidthType.DXA },
+            columnWidths: table.align.map(() => columnWidth),
+            borders: {
+                top: border, bottom: border, left: border, right: border,
+                insideHorizontal: border, insideVertical: border,
+            },
+        });
+    }
+
+    /**
+     * Maps table column alignment to Word paragraph alignment.
+     * 
+     * @param align - Column alignment from the document tree
+     * @returns docx alignment type
+     */
+    private cellAlignment(align: TableAlign): (typeof AlignmentType)[keyof typeof AlignmentType] {
+        switch (align) {
+            case 'center':
+                return AlignmentType.CENTER;
+            case 'right':
+                return AlignmentType.RIGHT;
+            default:
+                return AlignmentType.LEFT;
+        }
     }
 
     /**
-     * Parses inline formatting (bold and italic) into TextRun objects.
+     * Renders a list as numbered paragraphs. The first paragraph of each item
+     * carries the list numbering, further item paragraphs are indented to the
+     * item content. Nested lists are rendered one level deeper.
      * 
-     * @param text - Text with potential **bold** or *italic* markers
-     * @returns Array of TextRun objects with appropriate formatting
+     * @param list - List node of the document tree
+     * @param level - Nesting level (0 for top-level lists)
+     * @returns Array of docx Paragraph (and Table) objects
      */
-    private parseInlineFormatting(text: string): TextRun[] {
-        const runs: TextRun[] = [];
-        let remaining = text;
+    private renderList(list: ListNode, level: number): Array<Paragraph | Table> {
+        const reference = this.createNumbering(list);
         
-        while (remaining.length > 0) {
-            // Look for bold (**text**) - must check this first!
-            const boldMatch = remaining.match(/\*\*(.+?)\*\*/);
-            // Look for italic (*text*) but not bold - negative lookbehind/lookahead
-            const italicMatch = remaining.match(/(?<!\*)\*(?!\*)(.+?)(?<!\*)\*(?!\*)/);
+        return list.children.flatMap(item => item.children.flatMap((child, index) => {
+            if (child.type === 'list') {
+                return this.renderList(child, level + 1);
+            }
+            if (child.type !== 'paragraph') {
+                return this.renderBlock(child);
+            }
             
-            let nextMatch = null;
-            let isBold = false;
+            const children = this.createTextRuns(this.styledRuns(child.children, this.theme.body));
             
-            if (boldMatch && (!italicMatch || boldMatch.index! <= italicMatch.index!)) {
-                nextMatch = boldMatch;
-                isBold = true;
-            } else if (italicMatch) {
-                nextMatch = italicMatch;
-                isBold = false;
+            if (index === 0) {
+                return [new Paragraph({ children, numbering: { reference, level } })];
+            }
+            return [new Paragraph({ children, indent: { left: LIST_INDENT * (level + 1) } })];
+        }));
+    }
+
+    /**
+     * Creates a Word numbering definition for a list. Every list gets its own
+     * definition, so numbering restarts per list and honors the start number.
+     * 
+     * @param list - List node of the document tree
+     * @returns Reference of the numbering definition
+     */
+    private createNumbering(list: ListNode): string {
+        const reference = `list-${this.numbering.length + 1}`;
+        const levels: ILevelsOptions[] = Array.from({ length: 9 }, (_, level) => ({
+            level,
+            format: list.ordered ? LevelFormat.DECIMAL : LevelFormat.BULLET,
+            text: list.ordered ? `%${level + 1}.` : BULLETS[level % BULLETS.length]!,
+            alignment: AlignmentType.START,
+            start: list.start,
+            style: {
+                paragraph: {
+                    indent: { left: LIST_INDENT * (level + 1), hanging: LIST_INDENT / 2 },
+                },
+            },
+        }));
+        
+        this.numbering.push({ reference, levels });
+        return reference;
+    }
+
+    /**
+     * Converts styled runs into paragraph children. Consecutive runs with the
+     * same link target are grouped into one ExternalHyperlink; images are
+     * embedded as ImageRun when their data is available.
+     * 
+     * @param runs - Styled text runs from the document tree
+     * @returns Array of runs and hyperlinks with appropriate formatting
+     */
+    private createTextRuns(runs: StyledRun[]): ParagraphChild[] {
+        const children: ParagraphChild[] = [];
+        let hyperlink: { url: string; children: ParagraphChild[] } | null = null;
+        
+        const closeHyperlink = (): void => {
+            if (hyperlink) {
+                children.push(new ExternalHyperlink({ link: hyperlink.url, children: hyperlink.children }));
+                hyperlink = null;
             }
+        };
+        
+        runs.forEach(run => {
+            // Images that cannot be embedded fall back to a link to their source
+            const image = run.image ? this.createImageRun(run.image) : null;
+            const link = run.link ?? (run.image && !image ? run.image.url : null);
+            const child = image ?? this.createTextRun(run, link !== null);
             
-            if (nextMatch && nextMatch.index !== undefined && nextMatch[1]) {
-                // Add text before the match
-                if (nextMatch.index > 0) {
-                    runs.push(new TextRun({ text: remaining.substring(0, nextMatch.index) }));
-                }
-                
-                // Add formatted text
-                if (isBold) {
-                    runs.push(new TextRun({ text: nextMatch[1]!, bold: true }));
-                } else {
-                    runs.push(new TextRun({ text: nextMatch[1]!, italics: true }));
-                }
-                
-                // Continue with remaining text
-                remaining = remaining.substring(nextMatch.index + nextMatch[0].length);
-            } else {
-                // No more formatting
-                if (remaining.length > 0) {
-                    runs.push(new TextRun({ text: remaining }));
-                }
-                break;
+            if (hyperlink && hyperlink.url !== link) {
+                closeHyperlink();
             }
+            if (link === null) {
+                children.push(child);
+                return;
+            }
+            
+            hyperlink ??= { url: link, children: [] };
+            hyperlink.children.push(child);
+        });
+        closeHyperlink();
+        
+        return children.length > 0 ? children : [new TextRun({ text: '' })];
+    }
+
+    /**
+     * Converts a single styled run into a TextRun.
+     * 
+     * @param run - Styled text run
+     * @param isLink - Whether the run is part of a hyperlink
+     * @returns Formatted TextRun
+     */
+    private createTextRun(run: StyledRun, isLink: boolean): TextRun {
+        if (run.lineBreak) {
+            return new TextRun({ break: 1 });
+        }
+        if (run.code) {
+            return new TextRun({ text: run.text, style: 'CodeChar', bold: run.bold, italics: run.italic });
+        }
+        if (isLink) {
+            return new TextRun({ text: run.text, style: 'Hyperlink', bold: run.bold, italics: run.italic });
         }
+        return new TextRun({ text: run.text, bold: run.bold, italics: run.italic });
+    }
+
+    /**
+     * Embeds an image, scaled down to the text width if necessary.
+     * 
+     * @param image - Image node of the document tree
+     * @returns ImageRun, or null if the image data is not embedded in the document
+     */
+    private createImageRun(image: ImageNode): ImageRun | null {
+        const decoded = decodeImage(image.url);
         
-        return runs.length > 0 ? runs : [new TextRun({ text: '' })];
+        if (!decoded) {
+            this.diagnostics.addImageNotEmbedded(image, 'DOCX');
+            return null;
+        }
+        
+        const maxWidth = Math.floor(this.contentWidth / TWIPS_PER_PIXEL);
+        const scale = Math.min(1, maxWidth / decoded.width);
+        
+        return new ImageRun({
+            type: decoded.format,
+            data: decoded.data,
+            transformation: {
+                width: Math.round(decoded.width * scale),
+                height: Math.round(decoded.height * scale),
+            },
+            altText: {
+                name: image.alt || 'Image',
+                description: image.alt,
+                title: image.title ?? image.alt,
+            },
+        });
     }
 }
@@ -0,0 +1,29 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { DOCXExporter } from './DOCXExporter';
+import { DOCXImporter } from './DOCXImporter';
+
+describe('DOCXImporter', () => {
+    it('reads back the headings, emphasis, lists and tables DOCXExporter wrote', async () => {
+        const blocks = [
+            '# Report',
+            'Some **bold** and *italic* text.',
+            '## Steps',
+            '1. First\n2. Second\n   - Detail',
+            '- Apple\n- Pear',
+            '| Name | Qty |\n| --- | --- |\n| Apple | 3 |',
+        ];
+
+        const { data } = await new DOCXExporter().export(blocks.join('\n\n'));
+        const imported = await new DOCXImporter().import(data);
+
+        expect(imported).toBe(`${blocks.join('\n\n')}\n`);
+    });
+
+    it('rejects a zip without a Word document', async () => {
+        const JSZip = (await import('jszip')).default;
+        const zip = new JSZip().file('readme.txt', 'hello');
+
+        await expect(new DOCXImporter().import(await zip.generateAsync({ type: 'uint8array' }))).rejects.toThrow('word/document.xml is missing');
+    });
+});
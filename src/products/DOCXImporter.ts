@@ -0,0 +1,541 @@
+import type { DocumentImporter } from '../interfaces';
+import JSZip from 'jszip';
+import { MarkdownWriter } from '../parser';
+import type { HeadingDepth, MarkdownRun } from '../parser';
+
+/**
+ * WordprocessingML namespace of document.xml, styles.xml and numbering.xml.
+ */
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/**
+ * Relationship namespace of r:id and r:embed attributes.
+ */
+const R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+/**
+ * Namespaces of the core properties (docProps/core.xml).
+ */
+const DC = 'http://purl.org/dc/elements/1.1/';
+const CP = 'http://schemas.openxmlformats.org/package/2006/metadata/core-properties';
+
+/**
+ * Fonts whose runs are imported as inline code.
+ */
+const MONOSPACE_FONTS = /courier|consolas|menlo|monaco|mono|source code/i;
+
+/**
+ * Names of paragraph styles imported as code blocks.
+ */
+const CODE_STYLES = /^(code|html preformatted|source code|plain text)$/i;
+
+/**
+ * MIME types of embedded images by file extension.
+ */
+const IMAGE_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    bmp: 'image/bmp',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+};
+
+/**
+ * A style of styles.xml with the properties the importer uses.
+ */
+interface WordStyle {
+    name: string;
+    basedOn: string | null;
+    outlineLevel: number | null;
+    numbering: { numId: string; level: number } | null;
+}
+
+/**
+ * Formatting inherited while walking the runs of a paragraph.
+ */
+interface RunContext {
+    link: string | null;
+}
+
+/**
+ * Concrete Product - DOCXImporter
+ *
+ * This class is a concrete implementation of the DocumentImporter interface,
+ * the counterpart of DOCXExporter. In the Factory Method pattern, this is a
+ * "Concrete Product" of the importer family.
+ *
+ * DOCXImporter unzips a Word document (.docx) and walks word/document.xml:
+ * - Heading styles (and outline levels) become # to ######
+ * - Bold and italic runs become **text** and *text*
+ * - Numbered paragraphs become lists; numbering.xml tells bullets from numbers
+ * - Monospace runs and "Code" paragraphs become inline code and code blocks
+ * - Tables, hyperlinks and embedded images are kept
+ * - Title, author, subject and keywords become front matter
+ *
+ * The table of contents, deleted revisions, page breaks and fields other
+ * than their displayed result are left out.
+ */
+export class DOCXImporter implements DocumentImporter {
+    private styles = new Map<string, WordStyle>();
+    private numberingFormats = new Map<string, string[]>();
+    private relationships = new Map<string, string>();
+    private codeLines: string[] = [];
+
+    /**
+     * Imports a Word document as Markdown.
+     *
+     * @param data - Bytes of the .docx file
+     * @returns Markdown text
+     * @throws Error if the file is not a Word document
+     */
+    async import(data: Uint8Array): Promise<string> {
+        console.log('DOCXImporter: Starting Word document import...');
+
+        const zip = await JSZip.loadAsync(data);
+        const body = (await this.readXml(zip, 'word/document.xml'))?.getElementsByTagNameNS(W, 'body')[0];
+
+        if (!body) {
+            throw new Error('Not a Word document: word/document.xml is missing');
+        }
+
+        this.styles = this.readStyles(await this.readXml(zip, 'word/styles.xml'));
+        this.numberingFormats = this.readNumbering(await this.readXml(zip, 'word/numbering.xml'));
+        this.relationships = await this.readRelationships(zip);
+        this.codeLines = [];
+
+        const writer = new MarkdownWriter();
+        writer.frontMatter(this.readMetadata(await this.readXml(zip, 'docProps/core.xml')));
+        this.renderBlocks(body, writer);
+        this.flushCode(writer);
+
+        console.log('DOCXImporter: Import completed successfully');
+        return writer.toString();
+    }
+
+    /**
+     * Reads and parses an XML part of the package.
+     *
+     * @param zip - Opened package
+     * @param path - Path of the part
+     * @returns The parsed part, or null if it does not exist
+     */
+    private async readXml(zip: JSZip, path: string): Promise<Document | null> {
+        const source = await zip.file(path)?.async('string');
+        return source === undefined ? null : new DOMParser().parseFromString(source, 'application/xml');
+    }
+
+    /**
+     * Reads the paragraph and character styles.
+     *
+     * @param styles - Parsed styles.xml
+     * @returns Styles by style id
+     */
+    private readStyles(styles: Document | null): Map<string, WordStyle> {
+        const result = new Map<string, WordStyle>();
+
+        Array.from(styles?.getElementsByTagNameNS(W, 'style') ?? []).forEach(style => {
+            const properties = this.child(style, 'pPr');
+            const numbering = this.child(properties, 'numPr');
+            const outlineLevel = this.value(this.child(properties, 'outlineLvl'));
+            const numId = this.value(this.child(numbering, 'numId'));
+
+            result.set(this.attribute(style, 'styleId') ?? '', {
+                name: this.value(this.child(style, 'name')) ?? '',
+                basedOn: this.value(this.child(style, 'basedOn')),
+                outlineLevel: outlineLevel === null ? null : Number(outlineLevel),
+                numbering: numId === null ? null : {
+                    numId,
+                    level: Number(this.value(this.child(numbering, 'ilvl')) ?? 0),
+                },
+            });
+        });
+
+        return result;
+    }
+
+    /**
+     * Reads the number format of every list level.
+     *
+     * @param numbering - Parsed numbering.xml
+     * @returns Number formats per level (such as 'bullet' or 'decimal') by numId
+     */
+    private readNumbering(numbering: Document | null): Map<string, string[]> {
+        const abstractFormats = new Map<string, string[]>();
+        const result = new Map<string, string[]>();
+
+        Array.from(numbering?.getElementsByTagNameNS(W, 'abstractNum') ?? []).forEach(abstractNum => {
+            const formats: string[] = [];
+            this.children(abstractNum, 'lvl').forEach(level => {
+                formats[Number(this.attribute(level, 'ilvl') ?? 0)] = this.value(this.child(level, 'numFmt')) ?? 'decimal';
+            });
+            abstractFormats.set(this.attribute(abstractNum, 'abstractNumId') ?? '', formats);
+        });
+
+        Array.from(numbering?.getElementsByTagNameNS(W, 'num') ?? []).forEach(num => {
+            const abstractId = this.value(this.child(num, 'abstractNumId')) ?? '';
+            result.set(this.attribute(num, 'numId') ?? '', abstractFormats.get(abstractId) ?? []);
+        });
+
+        return result;
+    }
+
+    /**
+     * Reads the relationships of the document part. Hyperlinks map to
+     * their URL, images to a data URI of the embedded file.
+     *
+     * @param zip - Opened package
+     * @returns Link and image targets by relationship id
+     */
+    private async readRelationships(zip: JSZip): Promise<Map<string, string>> {
+        const result = new Map<string, string>();
+        const relationships = await this.readXml(zip, 'word/_rels/document.xml.rels');
+
+        for (const relationship of Array.from(relationships?.getElementsByTagName('Relationship') ?? [])) {
+            const id = relationship.getAttribute('Id') ?? '';
+            const type = relationship.getAttribute('Type') ?? '';
+            const target = relationship.getAttribute('Target') ?? '';
+
+            if (type.endsWith('/hyperlink')) {
+                result.set(id, target);
+            } else if (type.endsWith('/image')) {
+                const path = target.startsWith('/') ? target.substring(1) : `word/${target}`;
+                const mimeType = IMAGE_TYPES[path.split('.').pop()?.toLowerCase() ?? ''];
+                const image = await zip.file(path)?.async('base64');
+
+                if (mimeType && image !== undefined) {
+                    result.set(id, `data:${mimeType};base64,${image}`);
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Reads the core properties that have a front matter field.
+     *
+     * @param core - Parsed docProps/core.xml
+     * @returns Front matter fields
+     */
+    private readMetadata(core: Document | null): Record<string, string | string[] | null> {
+        const text = (namespace: string, name: string): string | null =>
+            core?.getElementsByTagNameNS(namespace, name)[0]?.textContent?.trim() || null;
+
+        return {
+            title: text(DC, 'title'),
+            author: text(DC, 'creator'),
+            subject: text(DC, 'subject'),
+            keywords: (text(CP, 'keywords') ?? '').split(/[,;]/).map(keyword => keyword.trim()).filter(Boolean),
+        };
+    }
+
+    /**
+     * Renders the block-level children of the body or a content control.
+     *
+     * @param container - Element holding paragraphs and tables
+     * @param writer - Markdown output
+     */
+    private renderBlocks(container: Element, writer: MarkdownWriter): void {
+        this.children(container).forEach(element => {
+            switch (element.localName) {
+                case 'p':
+                    this.renderParagraph(element, writer);
+                    break;
+                case 'tbl':
+                    this.flushCode(writer);
+                    // Header cells are bold in Word but plain in the Markdown header row
+                    writer.table(this.children(element, 'tr').map((row, index) =>
+                        this.children(row, 'tc').map(cell => this.collectCellRuns(cell)
+                            .map(run => (index === 0 ? { ...run, bold: false } : run)))));
+                    break;
+                case 'sdt': {
+                    // Content controls; the table of contents is one and is left out
+                    const gallery = element.getElementsByTagNameNS(W, 'docPartGallery')[0];
+                    const content = this.child(element, 'sdtContent');
+                    if (content && !/table of contents/i.test(this.value(gallery ?? null) ?? '')) {
+                        this.renderBlocks(content, writer);
+                    }
+                    break;
+                }
+                case 'customXml':
+                    this.renderBlocks(element, writer);
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Renders a paragraph as heading, list item, code line or paragraph,
+     * depending on its style and numbering.
+     *
+     * @param paragraph - w:p element
+     * @param writer - Markdown output
+     */
+    private renderParagraph(paragraph: Element, writer: MarkdownWriter): void {
+        const properties = this.child(paragraph, 'pPr');
+        const styleId = this.value(this.child(properties, 'pStyle'));
+        const styles = this.styleChain(styleId);
+        const runs = this.collectRuns(paragraph, { link: null });
+
+        if (styles.some(style => CODE_STYLES.test(style.name))) {
+            this.codeLines.push(runs.map(run => (run.lineBreak ? '\n' : run.text)).join(''));
+            return;
+        }
+        this.flushCode(writer);
+
+        const depth = this.headingDepth(properties, styles);
+        if (depth !== null) {
+            // Heading styles are bold in Word but Markdown headings carry no emphasis
+            writer.heading(depth, runs.map(run => ({ ...run, bold: false })));
+            return;
+        }
+
+        const numbering = this.child(properties, 'numPr');
+        const numId = this.value(this.child(numbering, 'numId'))
+            ?? styles.find(style => style.numbering)?.numbering?.numId ?? null;
+
+        if (numId !== null && numId !== '0') {
+            const level = Number(this.value(this.child(numbering, 'ilvl'))
+                ?? styles.find(style => style.numbering)?.numbering?.level ?? 0);
+            const format = this.numberingFormats.get(numId)?.[level] ?? 'bullet';
+            writer.listItem(runs, level, format !== 'bullet' && format !== 'none');
+            return;
+        }
+
+        writer.paragraph(runs);
+    }
+
+    /**
+     * Determines the heading depth of a paragraph from its style name
+     * ("heading 1", "Title") or its outline level.
+     *
+     * @param properties - w:pPr element, or null
+     * @param styles - Paragraph style and the styles it is based on
+     * @returns Heading depth, or null for body text
+     */
+    private headingDepth(properties: Element | null, styles: WordStyle[]): HeadingDepth | null {
+        for (const style of styles) {
+            const match = /^heading ([1-6])$/i.exec(style.name);
+            if (match) {
+                return Number(match[1]) as HeadingDepth;
+            }
+            if (/^title$/i.test(style.name)) {
+                return 1;
+            }
+        }
+
+        const outlineLevel = this.value(this.child(properties, 'outlineLvl'))
+            ?? styles.find(style => style.outlineLevel !== null)?.outlineLevel?.toString() ?? null;
+        const level = Number(outlineLevel ?? NaN);
+
+        return level >= 0 && level <= 5 ? (level + 1) as HeadingDepth : null;
+    }
+
+    /**
+     * Writes the collected code paragraphs as one code block.
+     *
+     * @param writer - Markdown output
+     */
+    private flushCode(writer: MarkdownWriter): void {
+        if (this.codeLines.length > 0) {
+            writer.code(this.codeLines.join('\n'));
+            this.codeLines = [];
+        }
+    }
+
+    /**
+     * Collects the runs of all paragraphs in a table cell, separated by
+     * line breaks.
+     *
+     * @param cell - w:tc element
+     * @returns Runs of the cell
+     */
+    private collectCellRuns(cell: Element): MarkdownRun[] {
+        return Array.from(cell.getElementsByTagNameNS(W, 'p')).flatMap((paragraph, index) => [
+            ...(index > 0 ? [this.createRun('', false, false, false, null, { lineBreak: true })] : []),
+            ...this.collectRuns(paragraph, { link: null }),
+        ]);
+    }
+
+    /**
+     * Collects the text runs of a paragraph or an inline container such
+     * as a hyperlink.
+     *
+     * @param container - Element holding w:r elements
+     * @param context - Inherited link target
+     * @returns Runs in document order
+     */
+    private collectRuns(container: Element, context: RunContext): MarkdownRun[] {
+        return this.children(container).flatMap(element => {
+            switch (element.localName) {
+                case 'r':
+                    return this.convertRun(element, context);
+                case 'hyperlink': {
+                    const id = element.getAttributeNS(R, 'id');
+                    const link = (id && this.relationships.get(id)) || context.link;
+                    return this.collectRuns(element, { link });
+                }
+                case 'ins':
+                case 'smartTag':
+                case 'customXml':
+                case 'fldSimple':
+                    return this.collectRuns(element, context);
+                case 'sdt': {
+                    const content = this.child(element, 'sdtContent');
+                    return content ? this.collectRuns(content, context) : [];
+                }
+                default:
+                    return [];
+            }
+        });
+    }
+
+    /**
+     * Converts a w:r element into runs: text, line breaks and images.
+     *
+     * @param run - w:r element
+     * @param context - Inherited link target
+     * @returns Runs of the element
+     */
+    private convertRun(run: Element, context: RunContext): MarkdownRun[] {
+        const properties = this.child(run, 'rPr');
+        const styles = this.styleChain(this.value(this.child(properties, 'rStyle')));
+        const font = this.attribute(this.child(properties, 'rFonts'), 'ascii') ?? '';
+        const bold = this.isOn(this.child(properties, 'b')) || styles.some(style => /^strong$/i.test(style.name));
+        const italic = this.isOn(this.child(properties, 'i')) || styles.some(style => /^emphasis$/i.test(style.name));
+        const code = MONOSPACE_FONTS.test(font) || styles.some(style => /code/i.test(style.name));
+        const runs: MarkdownRun[] = [];
+
+        this.children(run).forEach(element => {
+            switch (element.localName) {
+                case 't':
+                    runs.push(this.createRun(element.textContent ?? '', bold, italic, code, context.link));
+                    break;
+                case 'tab':
+                    runs.push(this.createRun(' ', bold, italic, code, context.link));
+                    break;
+                case 'noBreakHyphen':
+                    runs.push(this.createRun('-', bold, italic, code, context.link));
+                    break;
+                case 'br':
+                case 'cr':
+                    if (this.attribute(element, 'type') !== 'page') {
+                        runs.push(this.createRun('', bold, italic, code, context.link, { lineBreak: true }));
+                    }
+                    break;
+                case 'drawing': {
+                    const blip = element.getElementsByTagNameNS('http://schemas.openxmlformats.org/drawingml/2006/main', 'blip')[0];
+                    const url = this.relationships.get(blip?.getAttributeNS(R, 'embed') ?? '');
+                    const description = element.getElementsByTagNameNS('*', 'docPr')[0];
+                    const alt = description?.getAttribute('descr') || description?.getAttribute('title') || '';
+                    if (url) {
+                        runs.push(this.createRun(alt, false, false, false, context.link, { image: { url, alt } }));
+                    }
+                    break;
+                }
+            }
+        });
+
+        return runs;
+    }
+
+    /**
+     * Creates a run with the given formatting.
+     *
+     * @param text - Text of the run
+     * @param bold - Bold formatting
+     * @param italic - Italic formatting
+     * @param code - Inline code
+     * @param link - Link target, or null
+     * @param extra - Line break or image
+     * @returns The run
+     */
+    private createRun(
+        text: string,
+        bold: boolean,
+        italic: boolean,
+        code: boolean,
+        link: string | null,
+        extra: Partial<Pick<MarkdownRun, 'lineBreak' | 'image'>> = {},
+    ): MarkdownRun {
+        return { text, bold, italic, code, link, lineBreak: false, image: null, ...extra };
+    }
+
+    /**
+     * Returns a style and the styles it is based on, nearest first.
+     *
+     * @param styleId - Style id, or null
+     * @returns Style chain (empty if the style is unknown)
+     */
+    private styleChain(styleId: string | null): WordStyle[] {
+        const chain: WordStyle[] = [];
+        let style = styleId === null ? undefined : this.styles.get(styleId);
+
+        // The depth limit guards against cyclic basedOn references
+        while (style && chain.length < 10) {
+            chain.push(style);
+            style = style.basedOn === null ? undefined : this.styles.get(style.basedOn);
+        }
+
+        return chain;
+    }
+
+    /**
+     * Checks a toggle property such as w:b, which is on unless its value
+     * says otherwise.
+     *
+     * @param property - Property element, or null if absent
+     * @returns true if the property is set and on
+     */
+    private isOn(property: Element | null): boolean {
+        return property !== null && !/^(0|false|off|none)$/.test(this.attribute(property, 'val') ?? '');
+    }
+
+    /**
+     * Returns the child elements in the WordprocessingML namespace.
+     *
+     * @param element - Parent element
+     * @param localName - Only children with this name, or all
+     * @returns Matching child elements
+     */
+    private children(element: Element, localName?: string): Element[] {
+        return Array.from(element.childNodes).filter((node): node is Element =>
+            node.nodeType === 1
+            && (node as Element).namespaceURI === W
+            && (localName === undefined || (node as Element).localName === localName));
+    }
+
+    /**
+     * Returns the first child element with the given name.
+     *
+     * @param element - Parent element, or null
+     * @param localName - Name of the child
+     * @returns The child, or null
+     */
+    private child(element: Element | null, localName: string): Element | null {
+        return element ? this.children(element, localName)[0] ?? null : null;
+    }
+
+    /**
+     * Reads a WordprocessingML attribute.
+     *
+     * @param element - Element, or null
+     * @param name - Attribute name without prefix
+     * @returns The value, or null
+     */
+    private attribute(element: Element | null, name: string): string | null {
+        return element?.getAttributeNS(W, name) ?? null;
+    }
+
+    /**
+     * Reads the w:val attribute of a property element.
+     *
+     * @param element - Property element, or null
+     * @returns The value, or null
+     */
+    private value(element: Element | null): string | null {
+        return this.attribute(element, 'val');
+    }
+}
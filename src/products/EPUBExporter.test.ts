@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { EPUBExporter } from './EPUBExporter';
+
+/**
+ * Reads the values of an attribute from XML source.
+ */
+function attributes(source: string, name: string): string[] {
+    return [...source.matchAll(new RegExp(`\\s${name}="([^"]*)"`, 'g'))].map(match => match[1]!);
+}
+
+describe('EPUBExporter', () => {
+    it('packs a book whose container, package and navigation reference each other', async () => {
+        const markdown = [
+            '# First',
+            'Intro ![dot](data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==)',
+            '## Details',
+            '# Second',
+            '### Deep',
+        ].join('\n\n');
+        const result = await new EPUBExporter({ tableOfContents: true }).export(markdown);
+
+        // mimetype is the first entry, stored uncompressed: method 0 and its name and content right after the header
+        const header = new DataView(result.data.buffer, result.data.byteOffset);
+        expect(header.getUint32(0, true)).toBe(0x04034b50);
+        expect(header.getUint16(8, true)).toBe(0);
+        expect(new TextDecoder().decode(result.data.subarray(30, 58))).toBe('mimetypeapplication/epub+zip');
+
+        const zip = await JSZip.loadAsync(result.data);
+        const read = (path: string): Promise<string> => zip.file(path)!.async('string');
+
+        const [packagePath] = attributes(await read('META-INF/container.xml'), 'full-path');
+        expect(packagePath).toBe('OEBPS/content.opf');
+
+        const opf = await read(packagePath!);
+        const items = [...opf.matchAll(/<item id="([^"]+)" href="([^"]+)" media-type="[^"]+"( properties="nav")?\/>/g)];
+        const files = Object.keys(zip.files).filter(path => path.startsWith('OEBPS/') && !zip.files[path]!.dir);
+
+        // Every file of the book is in the manifest and every manifest entry is in the archive
+        expect(items.map(item => `OEBPS/${item[2]}`).sort()).toEqual(files.filter(path => path !== packagePath).sort());
+        expect(items.filter(item => item[3]).map(item => item[2])).toEqual(['nav.xhtml']);
+        expect(attributes(opf, 'idref')).toEqual(['nav', ...items.filter(item => item[1]!.startsWith('chapter-')).map(item => item[1])]);
+        expect(items.some(item => item[1]!.startsWith('image-'))).toBe(true);
+
+        // Each link of the navigation document points to a chapter and an id in it
+        const links = attributes(await read('OEBPS/nav.xhtml'), 'href').filter(href => !href.endsWith('.css'));
+        expect(links.length).toBe(4);
+        for (const link of links) {
+            const [file, id] = link.split('#');
+            expect(items.map(item => item[2])).toContain(file);
+            if (id) {
+                expect(attributes(await read(`OEBPS/${file}`), 'id')).toContain(id);
+            }
+        }
+    });
+});
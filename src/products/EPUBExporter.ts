@@ -0,0 +1,570 @@
+import type { DocumentExporter, ExportControl, ExportOptions, ExportResult, FontFamily } from '../interfaces';
+import JSZip from 'jszip';
+import { MarkdownParser, collectHeadings, inlineToPlainText, metadataDate } from '../parser';
+import type { BlockNode, DocumentNode, HeadingNode, ImageNode, InlineNode, ListNode, TableCellNode, TableNode } from '../parser';
+import { TOC_MAX_DEPTH, documentFilename, resolveExportOptions } from '../options';
+import { DiagnosticCollector, decodeImage, renderWithProgress } from '../utils';
+import { toExportError } from '../errors';
+import { resolveTheme, themeStylesheet } from '../themes';
+
+/**
+ * A chapter of the book: one XHTML file per top-level heading.
+ */
+interface Chapter {
+    file: string;
+    title: string;
+    blocks: BlockNode[];
+}
+
+/**
+ * An image packed into the book.
+ */
+interface PackedImage {
+    file: string;
+    mediaType: string;
+    data: Uint8Array;
+}
+
+/**
+ * Base stylesheet of the chapters; the theme rules are appended to it.
+ */
+const STYLESHEET = `
+table { border-collapse: collapse; margin: 0 0 1em; }
+th, td { border: 1px solid; padding: 0.2em 0.5em; vertical-align: top; }
+pre { white-space: pre-wrap; padding: 0.5em; }
+img { max-width: 100%; height: auto; }
+nav ol { list-style: none; padding-left: 1.25em; }
+`;
+
+/**
+ * Generic CSS font families; e-readers map them to their own fonts.
+ */
+const FONT_STACKS: Record<FontFamily, string> = {
+    'sans-serif': 'sans-serif',
+    'serif': 'serif',
+    'monospace': 'monospace',
+};
+
+/**
+ * CSS line height at single line spacing.
+ */
+const LINE_HEIGHT_FACTOR = 1.4;
+
+/**
+ * Media types of the images e-readers must support (EPUB core media types).
+ */
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    gif: 'image/gif',
+};
+
+/**
+ * MIME type of the generated files, also listed in the format of the factory.
+ */
+export const EPUB_MIME_TYPE = 'application/epub+zip';
+
+/**
+ * Concrete Product - EPUBExporter
+ * 
+ * This class represents a concrete implementation of the DocumentExporter interface.
+ * In the Factory Method pattern, this is a "Concrete Product".
+ * 
+ * EPUBExporter converts Markdown to an EPUB 3 e-book (.epub):
+ * - A chapter (XHTML file) per # heading; text before the first one becomes its own chapter
+ * - A navigation document listing the chapters and their headings (1-3)
+ * - Book metadata (title, author, description, subjects, date) from the front matter
+ * - Embedded PNG, JPEG and GIF images
+ * - A stylesheet with the typography of the theme
+ * 
+ * Remote images and links to other files cannot be part of the book and
+ * are reported as diagnostics of the export result. With the table of
+ * contents option, the navigation document is also shown as first page.
+ * 
+ * Uses JSZip to pack the container.
+ */
+export class EPUBExporter implements DocumentExporter {
+    private parser = new MarkdownParser();
+    private readonly options: ExportOptions;
+    private diagnostics = new DiagnosticCollector();
+    private headingIds = new Map<HeadingNode, string>();
+    private chapterOfId = new Map<string, string>();
+    private images = new Map<string, PackedImage>();
+
+    /**
+     * @param options - Export options; missing values fall back to the defaults
+     */
+    constructor(options: Partial<ExportOptions> = {}) {
+        this.options = resolveExportOptions(options);
+    }
+
+    /**
+     * Exports markdown content as an EPUB 3 e-book (.epub file).
+     * 
+     * @param content - Markdown formatted text
+     * @param control - Optional progress callback and abort signal
+     * @returns The generated e-book
+     * @throws ExportError if the export fails or is aborted
+     */
+    async export(content: string, control: ExportControl = {}): Promise<ExportResult> {
+        console.log('EPUBExporter: Starting EPUB export...');
+        
+        try {
+            const result = await this.generate(content, control);
+            console.log('EPUBExporter: Export completed successfully');
+            return result;
+        } catch (error) {
+            throw toExportError(error, 'EPUB');
+        }
+    }
+
+    /**
+     * Generates the EPUB file.
+     * 
+     * @param content - Markdown formatted text
+     * @param control - Progress callback and abort signal
+     * @returns The generated e-book with its diagnostics
+     */
+    private async generate(content: string, control: ExportControl): Promise<ExportResult> {
+        const tree = this.parser.parse(content);
+        this.diagnostics = new DiagnosticCollector();
+        this.diagnostics.addUnsupportedSyntax(tree, 'EPUB');
+        this.images = new Map();
+        
+        const title = this.findTitle(tree);
+        const chapters = this.splitChapters(tree, title);
+        this.assignHeadingIds(chapters);
+        
+        const rendered = await renderWithProgress(tree.children, block => this.renderBlock(block), control);
+        const renderedBlocks = new Map(tree.children.map((block, index) => [block, rendered[index]!]));
+        
+        const zip = new JSZip();
+        // The mimetype file comes first and uncompressed, so readers can identify the file
+        zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+        zip.file('META-INF/container.xml', this.renderContainer());
+        zip.file('OEBPS/content.opf', this.renderPackage(tree, title, chapters));
+        zip.file('OEBPS/nav.xhtml', this.renderNavigation(tree, chapters));
+        zip.file('OEBPS/styles/book.css', this.renderStylesheet());
+        chapters.forEach(chapter => {
+            const body = chapter.blocks.map(block => renderedBlocks.get(block)!).join('\n');
+            zip.file(`OEBPS/${chapter.file}`, this.renderPage(chapter.title, body));
+        });
+        this.images.forEach(image => zip.file(`OEBPS/${image.file}`, image.data));
+        
+        const buffer = await zip.generateAsync({
+            type: 'arraybuffer',
+            compression: 'DEFLATE',
+            mimeType: EPUB_MIME_TYPE,
+        });
+        
+        return {
+            data: new Uint8Array(buffer),
+            mimeType: EPUB_MIME_TYPE,
+            filename: `${documentFilename(this.options.filename, tree.metadata)}.epub`,
+            diagnostics: this.diagnostics.toArray(),
+        };
+    }
+
+    /**
+     * Uses the front matter title, or else the first heading, as book title.
+     * 
+     * @param tree - Parsed document tree
+     * @returns Title text
+     */
+    private findTitle(tree: DocumentNode): string {
+        if (tree.metadata.title) {
+            return tree.metadata.title;
+        }
+        const heading = tree.children.find(block => block.type === 'heading');
+        return heading ? inlineToPlainText(heading.children).replace(/\n/g, ' ') : 'Document';
+    }
+
+    /**
+     * Splits the document into chapters at its # headings.
+     * 
+     * @param tree - Parsed document tree
+     * @param title - Book title, used for text before the first chapter heading
+     * @returns Chapters in document order; at least one
+     */
+    private splitChapters(tree: DocumentNode, title: string): Chapter[] {
+        const chapters: Chapter[] = [];
+        
+        tree.children.forEach(block => {
+            if (block.type === 'heading' && block.depth === 1) {
+                chapters.push({ file: '', title: inlineToPlainText(block.children).replace(/\n/g, ' '), blocks: [] });
+            } else if (chapters.length === 0) {
+                chapters.push({ file: '', title, blocks: [] });
+            }
+            chapters[chapters.length - 1]!.blocks.push(block);
+        });
+        
+        if (chapters.length === 0) {
+            chapters.push({ file: '', title, blocks: [] });
+        }
+        chapters.forEach((chapter, index) => {
+            chapter.file = `chapter-${index + 1}.xhtml`;
+        });
+        return chapters;
+    }
+
+    /**
+     * Assigns each heading a unique id derived from its text, so the
+     * navigation document and links within the document can point to it.
+     * 
+     * @param chapters - Chapters of the book
+     */
+    private assignHeadingIds(chapters: Chapter[]): void {
+        const used = new Set<string>();
+        this.headingIds = new Map();
+        this.chapterOfId = new Map();
+        
+        chapters.forEach(chapter => chapter.blocks.forEach(block => {
+            if (block.type !== 'heading') {
+                return;
+            }
+            
+            const slug = inlineToPlainText(block.children)
+                .toLowerCase()
+                .normalize('NFKD')
+                .replace(/[\u0300-\u036f]/g, '')
+                .replace(/[^a-z0-9]+/g, '-')
+                .replace(/^-+|-+$/g, '') || 'section';
+            // Ids must not start with a digit in XHTML
+            const base = /^[a-z]/.test(slug) ? slug : `section-${slug}`;
+            let id = base;
+            
+            for (let suffix = 2; used.has(id); suffix++) {
+                id = `${base}-${suffix}`;
+            }
+            used.add(id);
+            this.headingIds.set(block, id);
+            this.chapterOfId.set(id, chapter.file);
+        }));
+    }
+
+    /**
+     * Renders META-INF/container.xml, which points readers to the package document.
+     * 
+     * @returns XML source of the container file
+     */
+    private renderContainer(): string {
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">',
+            '<rootfiles>',
+            '<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>',
+            '</rootfiles>',
+            '</container>',
+            '',
+        ].join('\n');
+    }
+
+    /**
+     * Renders the package document with the metadata, the manifest of all
+     * files and the reading order (spine).
+     * 
+     * @param tree - Parsed document tree
+     * @param title - Book title
+     * @param chapters - Chapters of the book
+     * @returns XML source of content.opf
+     */
+    private renderPackage(tree: DocumentNode, title: string, chapters: Chapter[]): string {
+        const { author, subject, keywords } = tree.metadata;
+        const date = metadataDate(tree.metadata);
+        const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+        const item = (id: string, href: string, mediaType: string, properties = ''): string =>
+            `<item id="${id}" href="${this.escape(href)}" media-type="${mediaType}"${properties ? ` properties="${properties}"` : ''}/>`;
+        
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">',
+            '<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">',
+            `<dc:identifier id="book-id">urn:uuid:${crypto.randomUUID()}</dc:identifier>`,
+            `<dc:title>${this.escape(title)}</dc:title>`,
+            '<dc:language>en</dc:language>',
+            ...(author ? [`<dc:creator>${this.escape(author)}</dc:creator>`] : []),
+            ...(subject ? [`<dc:description>${this.escape(subject)}</dc:description>`] : []),
+            ...keywords.map(keyword => `<dc:subject>${this.escape(keyword)}</dc:subject>`),
+            ...(date ? [`<dc:date>${date.toISOString().substring(0, 10)}</dc:date>`] : []),
+            `<meta property="dcterms:modified">${modified}</meta>`,
+            '</metadata>',
+            '<manifest>',
+            item('nav', 'nav.xhtml', 'application/xhtml+xml', 'nav'),
+            item('css', 'styles/book.css', 'text/css'),
+            ...chapters.map((chapter, index) => item(`chapter-${index + 1}`, chapter.file, 'application/xhtml+xml')),
+            ...[...this.images.values()].map((image, index) => item(`image-${index + 1}`, image.file, image.mediaType)),
+            '</manifest>',
+            '<spine>',
+            ...(this.options.tableOfContents ? ['<itemref idref="nav"/>'] : []),
+            ...chapters.map((_, index) => `<itemref idref="chapter-${index + 1}"/>`),
+            '</spine>',
+            '</package>',
+            '',
+        ].join('\n');
+    }
+
+    /**
+     * Renders the navigation document: the chapters as a nested list with
+     * their headings down to level 3.
+     * 
+     * @param tree - Parsed document tree
+     * @param chapters - Chapters of the book
+     * @returns XHTML source of nav.xhtml
+     */
+    private renderNavigation(tree: DocumentNode, chapters: Chapter[]): string {
+        const headings = collectHeadings(tree, TOC_MAX_DEPTH);
+        const parts = ['<nav epub:type="toc" id="toc">', '<h1>Contents</h1>', '<ol>'];
+        const depths: number[] = [];
+        
+        chapters.forEach(chapter => {
+            const first = chapter.blocks[0];
+            const opening = first?.type === 'heading' && first.depth === 1;
+            
+            parts.push(`<li><a href="${chapter.file}">${this.escape(chapter.title)}</a>`);
+            headings
+                .filter(heading => chapter.blocks.includes(heading.node) && !(opening && heading.node === first))
+                .forEach(heading => {
+                    // Close deeper lists, then open one if this heading is nested deeper
+                    while (depths.length > 0 && depths[depths.length - 1]! > heading.depth) {
+                        parts.push('</li></ol>');
+                        depths.pop();
+                    }
+                    if (depths.length === 0 || depths[depths.length - 1]! < heading.depth) {
+                        parts.push('<ol>');
+                        depths.push(heading.depth);
+                    } else {
+                        parts.push('</li>');
+                    }
+                    const href = `${chapter.file}#${this.headingIds.get(heading.node)}`;
+                    parts.push(`<li><a href="${href}">${this.escape(heading.text)}</a>`);
+                });
+            parts.push(`${'</li></ol>'.repeat(depths.length)}</li>`);
+            depths.length = 0;
+        });
+        parts.push('</ol>', '</nav>');
+        
+        return this.renderPage('Contents', parts.join('\n'));
+    }
+
+    /**
+     * Renders the stylesheet with the typography of the theme.
+     * 
+     * @returns CSS source of the book stylesheet
+     */
+    private renderStylesheet(): string {
+        return `${STYLESHEET}${themeStylesheet(resolveTheme(this.options), FONT_STACKS, LINE_HEIGHT_FACTOR)}`;
+    }
+
+    /**
+     * Wraps content into an XHTML content document.
+     * 
+     * @param title - Page title
+     * @param body - XHTML markup of the page body
+     * @returns XHTML source of the page
+     */
+    private renderPage(title: string, body: string): string {
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<!DOCTYPE html>',
+            '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">',
+            '<head>',
+            `<title>${this.escape(title)}</title>`,
+            '<link rel="stylesheet" type="text/css" href="styles/book.css"/>',
+            '</head>',
+            '<body>',
+            body,
+            '</body>',
+            '</html>',
+            '',
+        ].join('\n');
+    }
+
+    /**
+     * Renders a single block element.
+     * 
+     * @param block - Block node of the document tree
+     * @returns XHTML markup of the block
+     */
+    private renderBlock(block: BlockNode): string {
+        switch (block.type) {
+            case 'heading': {
+                const id = this.headingIds.get(block);
+                const attribute = id ? ` id="${id}"` : '';
+                return `<h${block.depth}${attribute}>${this.renderInline(block.children)}</h${block.depth}>`;
+            }
+            case 'paragraph':
+                return `<p>${this.renderInline(block.children)}</p>`;
+            case 'list':
+                return this.renderList(block);
+            case 'table':
+                return this.renderTable(block);
+            case 'code': {
+                const lang = block.lang ? ` class="language-${this.escape(block.lang)}"` : '';
+                return `<pre><code${lang}>${this.escape(block.value)}</code></pre>`;
+            }
+        }
+    }
+
+    /**
+     * Renders a table with a header section and aligned columns.
+     * 
+     * @param table - Table node of the document tree
+     * @returns XHTML markup of the table
+     */
+    private renderTable(table: TableNode): string {
+        const renderRow = (cells: TableCellNode[], tag: 'th' | 'td'): string => {
+            const content = cells.map((cell, column) => {
+                const align = table.align[column];
+                const style = align ? ` style="text-align: ${align}"` : '';
+                return `<${tag}${style}>${this.renderInline(cell.children)}</${tag}>`;
+            });
+            return `<tr>${content.join('')}</tr>`;
+        };
+        
+        const [header, ...body] = table.children;
+        return [
+            '<table>',
+            ...(header ? [`<thead>${renderRow(header.children, 'th')}</thead>`] : []),
+            ...(body.length > 0 ? [`<tbody>\n${body.map(row => renderRow(row.children, 'td')).join('\n')}\n</tbody>`] : []),
+            '</table>',
+        ].join('\n');
+    }
+
+    /**
+     * Renders an ordered or unordered list including nested lists.
+     * 
+     * @param list - List node of the document tree
+     * @returns XHTML markup of the list
+     */
+    private renderList(list: ListNode): string {
+        const tag = list.ordered ? 'ol' : 'ul';
+        const start = list.ordered && list.start !== 1 ? ` start="${list.start}"` : '';
+        const items = list.children
+            .map(item => `<li>${item.children.map(child => this.renderBlock(child)).join('\n')}</li>`)
+            .join('\n');
+        
+        return `<${tag}${start}>\n${items}\n</${tag}>`;
+    }
+
+    /**
+     * Renders inline nodes with semantic formatting elements.
+     * 
+     * @param nodes - Inline nodes of a block
+     * @returns XHTML markup of the inline content
+     */
+    private renderInline(nodes: InlineNode[]): string {
+        return nodes.map(node => {
+            switch (node.type) {
+                case 'text':
+                    return this.escape(node.value);
+                case 'strong':
+                    return `<strong>${this.renderInline(node.children)}</strong>`;
+                case 'emphasis':
+                    return `<em>${this.renderInline(node.children)}</em>`;
+                case 'inlineCode':
+                    return `<code>${this.escape(node.value)}</code>`;
+                case 'link': {
+                    const content = this.renderInline(node.children);
+                    const href = this.linkTarget(node.url);
+                    if (href === null) {
+                        this.diagnostics.add('warning', 'formatting-lost', 'link target is not part of the book in EPUB, output as text', node.position);
+                        return content;
+                    }
+                    const title = node.title ? ` title="${this.escape(node.title)}"` : '';
+                    return `<a href="${this.escape(href)}"${title}>${content}</a>`;
+                }
+                case 'image':
+                    return this.renderImage(node);
+                case 'break':
+                    return '<br/>\n';
+            }
+        }).join('');
+    }
+
+    /**
+     * Renders an image packed into the book. Images that cannot be packed
+     * are replaced by a link (remote images) or their alt text.
+     * 
+     * @param image - Image node of the document tree
+     * @returns XHTML markup of the image
+     */
+    private renderImage(image: ImageNode): string {
+        const packed = this.packImage(image);
+        
+        if (packed) {
+            const title = image.title ? ` title="${this.escape(image.title)}"` : '';
+            return `<img src="${packed.file}" alt="${this.escape(image.alt)}"${title}/>`;
+        }
+        
+        const decoded = decodeImage(image.url);
+        if (decoded) {
+            this.diagnostics.add('warning', 'image-not-embedded', `${decoded.format.toUpperCase()} images are not supported in EPUB, output as alt text`, image.position);
+            return this.escape(image.alt);
+        }
+        
+        this.diagnostics.addImageNotEmbedded(image, 'EPUB');
+        const href = this.linkTarget(image.url);
+        return href !== null && !href.startsWith('#')
+            ? `<a href="${this.escape(href)}">${this.escape(image.alt || href)}</a>`
+            : this.escape(image.alt);
+    }
+
+    /**
+     * Adds an embedded image to the book; the same image is packed once.
+     * 
+     * @param image - Image node of the document tree
+     * @returns The packed image, or null if it is no PNG, JPEG or GIF data URI
+     */
+    private packImage(image: ImageNode): PackedImage | null {
+        const existing = this.images.get(image.url);
+        if (existing) {
+            return existing;
+        }
+        
+        const decoded = decodeImage(image.url);
+        const mediaType = decoded ? IMAGE_MEDIA_TYPES[decoded.format] : undefined;
+        if (!decoded || !mediaType) {
+            return null;
+        }
+        
+        const packed = { file: `images/image-${this.images.size + 1}.${decoded.format}`, mediaType, data: decoded.data };
+        this.images.set(image.url, packed);
+        return packed;
+    }
+
+    /**
+     * Resolves the target of a link in the book. Links to headings (#id)
+     * point into the chapter of the heading; web, mail and phone links are
+     * kept. Other targets (relative files, scripts) are not part of the
+     * book.
+     * 
+     * @param url - URL from the document
+     * @returns The link target, or null if the link cannot be kept
+     */
+    private linkTarget(url: string): string | null {
+        if (url.startsWith('#')) {
+            const chapter = this.chapterOfId.get(url.substring(1));
+            return chapter ? `${chapter}${url}` : null;
+        }
+        
+        const scheme = url.replace(/[\u0000-\u0020]/g, '').toLowerCase().match(/^([a-z][a-z0-9+.-]*):/);
+        return scheme && ['http', 'https', 'mailto', 'tel'].includes(scheme[1]!) ? url : null;
+    }
+
+    /**
+     * Escapes text for use in XHTML content and attribute values. Control
+     * characters that XML does not allow are removed.
+     * 
+     * @param text - Raw text
+     * @returns Escaped text
+     */
+    private escape(text: string): string {
+        return text
+            .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
+}
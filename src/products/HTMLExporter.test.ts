@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { HTMLExporter } from './HTMLExporter';
+
+/**
+ * Exports Markdown and returns the body of the HTML page.
+ */
+async function exportBody(markdown: string): Promise<string> {
+    const result = await new HTMLExporter().export(markdown);
+    const html = new TextDecoder().decode(result.data);
+    return html.substring(html.indexOf('<body>'), html.indexOf('</body>'));
+}
+
+describe('HTMLExporter', () => {
+    it('escapes markup and quotes in text, code and attributes', async () => {
+        const body = await exportBody([
+            '<script>alert(1)</script> & "quotes" \'too\'',
+            '`<b>code</b>`',
+            '[site](http://x/?a=1&b=2 "say \\"hi\\" <now>")',
+            '![a "quoted" <alt>](pic.png)',
+        ].join('\n\n'));
+
+        expect(body).not.toMatch(/<script|<b>/);
+        expect(body).toContain('&lt;script&gt;alert(1)&lt;/script&gt; &amp; &quot;quotes&quot; &#39;too&#39;');
+        expect(body).toContain('<code>&lt;b&gt;code&lt;/b&gt;</code>');
+        expect(body).toContain('<a href="http://x/?a=1&amp;b=2" title="say &quot;hi&quot; &lt;now&gt;">site</a>');
+        expect(body).toContain('<img src="pic.png" alt="a &quot;quoted&quot; &lt;alt&gt;">');
+    });
+
+    it('turns links and images with script or unknown schemes into text', async () => {
+        const result = await new HTMLExporter().export([
+            '[one](javascript:alert%281%29) [two](JavaScript:void0) [three](vbscript:msgbox) [four](data:text/html,x)',
+            '![five](data:image/svg+xml,x)',
+        ].join('\n\n'));
+        const html = new TextDecoder().decode(result.data);
+
+        expect(html).not.toMatch(/javascript:|vbscript:|data:text|data:image\/svg/i);
+        expect(html).toContain('<p>one two three four</p>');
+        expect(html).toContain('<p>five</p>');
+        expect(result.diagnostics?.map(diagnostic => diagnostic.code)).toEqual(['formatting-lost', 'image-not-embedded']);
+    });
+
+    it('keeps relative, http(s), mailto, tel and raster data image targets', async () => {
+        const body = await exportBody('[a](docs/a.html) [b](https://x) [c](mailto:me@x) [d](tel:+1) ![e](data:image/png;base64,AA==)');
+
+        expect(body).toContain('<a href="docs/a.html">a</a> <a href="https://x">b</a> <a href="mailto:me@x">c</a> <a href="tel:+1">d</a> <img src="data:image/png;base64,AA==" alt="e">');
+    });
+});
@@ -0,0 +1,443 @@
+import type { DocumentExporter, ExportControl, ExportOptions, ExportResult, FontFamily } from '../interfaces';
+import { MarkdownParser, collectHeadings, inlineToPlainText } from '../parser';
+import type { BlockNode, DocumentNode, HeadingEntry, HeadingNode, InlineNode, ListNode, TableCellNode, TableNode } from '../parser';
+import { PAGE_SIZES, TOC_MAX_DEPTH, documentFilename, resolveExportOptions } from '../options';
+import { DiagnosticCollector, renderWithProgress } from '../utils';
+import { toExportError } from '../errors';
+import { resolveTheme, themeStylesheet } from '../themes';
+
+/**
+ * Stylesheet embedded into every exported document.
+ */
+const STYLESHEET = `
+body {
+    max-width: 46rem;
+    margin: 2rem auto;
+    padding: 0 1rem;
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif;
+    font-size: 1rem;
+    line-height: 1.6;
+    color: #1d1d1f;
+    background: #ffffff;
+}
+h1, h2, h3, h4, h5, h6 {
+    line-height: 1.25;
+    margin: 1.5em 0 0.5em;
+}
+h1 { font-size: 2rem; }
+h2 { font-size: 1.5rem; }
+h3 { font-size: 1.25rem; }
+h4 { font-size: 1rem; }
+h5 { font-size: 0.875rem; }
+h6 { font-size: 0.875rem; color: #6e6e73; }
+nav.toc { margin: 0 0 2em; }
+nav.toc h2 { margin-top: 0; }
+nav.toc ul { list-style: none; margin: 0; padding-left: 1.25em; }
+nav.toc > ul { padding-left: 0; }
+p { margin: 0 0 1em; }
+ul, ol { margin: 0 0 1em; padding-left: 1.75em; }
+li > p, li > ul, li > ol { margin: 0; }
+table { border-collapse: collapse; margin: 0 0 1em; }
+th, td { border: 1px solid #c7c7cc; padding: 0.35em 0.75em; vertical-align: top; }
+th { background: #f2f2f7; }
+code {
+    font-family: 'SF Mono', Menlo, Consolas, 'Courier New', monospace;
+    font-size: 0.875em;
+    background: #f2f2f7;
+    border-radius: 4px;
+    padding: 0.1em 0.3em;
+}
+pre {
+    background: #f2f2f7;
+    border-radius: 6px;
+    padding: 0.75em 1em;
+    overflow-x: auto;
+    margin: 0 0 1em;
+}
+pre code { padding: 0; background: none; font-size: 0.875rem; }
+img { max-width: 100%; height: auto; }
+a { color: #0a58ca; }
+`;
+
+/**
+ * CSS font stacks for the generic font families.
+ */
+const FONT_STACKS: Record<FontFamily, string> = {
+    'sans-serif': "-apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif",
+    'serif': "Georgia, 'Times New Roman', Times, serif",
+    'monospace': "'SF Mono', Menlo, Consolas, 'Courier New', monospace",
+};
+
+/**
+ * CSS line height at single line spacing.
+ */
+const LINE_HEIGHT_FACTOR = 1.4;
+
+/**
+ * MIME type of the generated files, also listed in the format of the factory.
+ */
+export const HTML_MIME_TYPE = 'text/html;charset=utf-8';
+
+/**
+ * Concrete Product - HTMLExporter
+ * 
+ * This class represents a concrete implementation of the DocumentExporter interface.
+ * In the Factory Method pattern, this is a "Concrete Product".
+ * 
+ * HTMLExporter converts Markdown to a standalone HTML page with:
+ * - <h1> to <h6> for # to ######
+ * - An optional table of contents (<nav class="toc">) linking to the headings
+ * - <strong> for **text** and <em> for *text*
+ * - <p> for paragraphs
+ * - <ul>/<ol> for lists, nested lists inside their parent <li>
+ * - <table> with <thead>/<tbody> and column alignment for tables
+ * - <pre><code> for code blocks and <code> for inline code
+ * - <a> for links and <img> for images (data URIs stay embedded)
+ * - An embedded stylesheet, so the file has no external dependencies
+ * 
+ * The base font, line spacing and filename are taken from the export
+ * options, the fonts, colors and spacing of the elements from the theme;
+ * page size, orientation and margins apply when printing.
+ * 
+ * All text is HTML-escaped and link targets with script schemes (such as
+ * javascript:) are dropped, so user content cannot inject markup or scripts.
+ */
+export class HTMLExporter implements DocumentExporter {
+    private parser = new MarkdownParser();
+    private readonly options: ExportOptions;
+    private headingIds = new Map<HeadingNode, string>();
+    private diagnostics = new DiagnosticCollector();
+
+    /**
+     * @param options - Export options; missing values fall back to the defaults
+     */
+    constructor(options: Partial<ExportOptions> = {}) {
+        this.options = resolveExportOptions(options);
+    }
+
+    /**
+     * Exports markdown content as a standalone HTML document (.html file).
+     * 
+     * @param content - Markdown formatted text
+     * @param control - Optional progress callback and abort signal
+     * @returns The generated HTML file as UTF-8 bytes
+     * @throws ExportError if the export fails or is aborted
+     */
+    async export(content: string, control: ExportControl = {}): Promise<ExportResult> {
+        console.log('HTMLExporter: Starting HTML export...');
+        
+        try {
+            const result = await this.generate(content, control);
+            console.log('HTMLExporter: Export completed successfully');
+            return result;
+        } catch (error) {
+            throw toExportError(error, 'HTML');
+        }
+    }
+
+    /**
+     * Generates the HTML file.
+     * 
+     * @param content - Markdown formatted text
+     * @param control - Progress callback and abort signal
+     * @returns The generated HTML file with its diagnostics
+     */
+    private async generate(content: string, control: ExportControl): Promise<ExportResult> {
+        const tree = this.parser.parse(content);
+        this.diagnostics = new DiagnosticCollector();
+        this.diagnostics.addUnsupportedSyntax(tree, 'HTML');
+        
+        const html = await this.renderDocument(tree, control);
+        
+        return {
+            data: new TextEncoder().encode(html),
+            mimeType: HTML_MIME_TYPE,
+            filename: `${documentFilename(this.options.filename, tree.metadata)}.html`,
+            diagnostics: this.diagnostics.toArray(),
+        };
+    }
+
+    /**
+     * Renders the complete HTML page including head and stylesheet.
+     * 
+     * @param tree - Parsed document tree
+     * @param control - Progress callback and abort signal
+     * @returns HTML source of the page
+     */
+    private async renderDocument(tree: DocumentNode, control: ExportControl): Promise<string> {
+        const headings = this.options.tableOfContents ? collectHeadings(tree, TOC_MAX_DEPTH) : [];
+        this.headingIds = this.assignHeadingIds(headings);
+        
+        const body = (await renderWithProgress(tree.children, block => this.renderBlock(block), control)).join('\n');
+
+        return [
+            '<!DOCTYPE html>',
+            '<html lang="en">',
+            '<head>',
+            '<meta charset="UTF-8">',
+            '<meta name="viewport" content="width=device-width, initial-scale=1.0">',
+            `<title>${this.escape(this.findTitle(tree))}</title>`,
+            ...this.renderMetaTags(tree),
+            `<style>${STYLESHEET}${this.renderOptionStyles()}</style>`,
+            '</head>',
+            '<body>',
+            ...(headings.length > 0 ? [this.renderTableOfContents(headings)] : []),
+            body,
+            '</body>',
+            '</html>',
+            '',
+        ].join('\n');
+    }
+
+    /**
+     * Renders the style rules derived from the export options and theme.
+     * 
+     * @returns CSS rules overriding the base stylesheet
+     */
+    private renderOptionStyles(): string {
+        const { pageSize, orientation, margins } = this.options;
+        const margin = [margins.top, margins.right, margins.bottom, margins.left].map(value => `${value}mm`).join(' ');
+        
+        return [
+            themeStylesheet(resolveTheme(this.options), FONT_STACKS, LINE_HEIGHT_FACTOR),
+            `@page { size: ${PAGE_SIZES[pageSize].label} ${orientation}; margin: ${margin}; }`,
+            '',
+        ].join('\n');
+    }
+
+    /**
+     * Renders <meta> tags for the front matter fields.
+     * 
+     * @param tree - Parsed document tree
+     * @returns Meta tags, one per set field
+     */
+    private renderMetaTags(tree: DocumentNode): string[] {
+        const { author, subject, keywords, date } = tree.metadata;
+        const fields: Array<[string, string | null]> = [
+            ['author', author],
+            ['description', subject],
+            ['keywords', keywords.length > 0 ? keywords.join(', ') : null],
+            ['date', date],
+        ];
+        
+        return fields
+            .filter((field): field is [string, string] => field[1] !== null)
+            .map(([name, value]) => `<meta name="${name}" content="${this.escape(value)}">`);
+    }
+
+    /**
+     * Uses the front matter title, or else the first heading, as page title.
+     * 
+     * @param tree - Parsed document tree
+     * @returns Title text
+     */
+    private findTitle(tree: DocumentNode): string {
+        if (tree.metadata.title) {
+            return tree.metadata.title;
+        }
+        const heading = tree.children.find(block => block.type === 'heading');
+        return heading ? inlineToPlainText(heading.children) : 'Document';
+    }
+
+    /**
+     * Assigns each heading a unique id derived from its text, so the table
+     * of contents can link to it.
+     * 
+     * @param headings - Headings listed in the table of contents
+     * @returns Ids by heading node
+     */
+    private assignHeadingIds(headings: HeadingEntry[]): Map<HeadingNode, string> {
+        const ids = new Map<HeadingNode, string>();
+        const used = new Set<string>();
+        
+        headings.forEach(heading => {
+            const slug = heading.text
+                .toLowerCase()
+                .normalize('NFKD')
+                .replace(/[\u0300-\u036f]/g, '')
+                .replace(/[^a-z0-9]+/g, '-')
+                .replace(/^-+|-+$/g, '') || 'section';
+            let id = slug;
+            
+            for (let suffix = 2; used.has(id); suffix++) {
+                id = `${slug}-${suffix}`;
+            }
+            used.add(id);
+            ids.set(heading.node, id);
+        });
+        
+        return ids;
+    }
+
+    /**
+     * Renders the table of contents as nested lists of links.
+     * 
+     * @param headings - Headings to list, in document order
+     * @returns HTML markup of the table of contents
+     */
+    private renderTableOfContents(headings: HeadingEntry[]): string {
+        const parts = ['<nav class="toc">', '<h2>Contents</h2>'];
+        const depths: number[] = [];
+        
+        headings.forEach(heading => {
+            // Close deeper lists, then open one if this heading is nested deeper
+            while (depths.length > 0 && depths[depths.length - 1]! > heading.depth) {
+                parts.push('</li></ul>');
+                depths.pop();
+            }
+            if (depths.length === 0 || depths[depths.length - 1]! < heading.depth) {
+                parts.push('<ul>');
+                depths.push(heading.depth);
+            } else {
+                parts.push('</li>');
+            }
+            parts.push(`<li><a href="#${this.headingIds.get(heading.node)}">${this.escape(heading.text)}</a>`);
+        });
+        parts.push('</li></ul>'.repeat(depths.length), '</nav>');
+        
+        return parts.join('');
+    }
+
+    /**
+     * Renders a single block element.
+     * 
+     * @param block - Block node of the document tree
+     * @returns HTML markup of the block
+     */
+    private renderBlock(block: BlockNode): string {
+        switch (block.type) {
+            case 'heading': {
+                const id = this.headingIds.get(block);
+                const attribute = id ? ` id="${id}"` : '';
+                return `<h${block.depth}${attribute}>${this.renderInline(block.children)}</h${block.depth}>`;
+            }
+            case 'paragraph':
+                return `<p>${this.renderInline(block.children)}</p>`;
+            case 'list':
+                return this.renderList(block);
+            case 'table':
+                return this.renderTable(block);
+            case 'code': {
+                const lang = block.lang ? ` class="language-${this.escape(block.lang)}"` : '';
+                return `<pre><code${lang}>${this.escape(block.value)}</code></pre>`;
+            }
+        }
+    }
+
+    /**
+     * Renders a table with a header section and aligned columns.
+     * 
+     * @param table - Table node of the document tree
+     * @returns HTML markup of the table
+     */
+    private renderTable(table: TableNode): string {
+        const renderRow = (cells: TableCellNode[], tag: 'th' | 'td'): string => {
+            const content = cells.map((cell, column) => {
+                const align = table.align[column];
+                const style = align ? ` style="text-align: ${align}"` : '';
+                return `<${tag}${style}>${this.renderInline(cell.children)}</${tag}>`;
+            });
+            return `<tr>${content.join('')}</tr>`;
+        };
+
+        const [header, ...body] = table.children;
+        return [
+            '<table>',
+            `<thead>${header ? renderRow(header.children, 'th') : ''}</thead>`,
+            `<tbody>\n${body.map(row => renderRow(row.children, 'td')).join('\n')}\n</tbody>`,
+            '</table>',
+        ].join('\n');
+    }
+
+    /**
+     * Renders an ordered or unordered list including nested lists.
+     * 
+     * @param list - List node of the document tree
+     * @returns HTML markup of the list
+     */
+    private renderList(list: ListNode): string {
+        const tag = list.ordered ? 'ol' : 'ul';
+        const start = list.ordered && list.start !== 1 ? ` start="${list.start}"` : '';
+        const items = list.children
+            .map(item => `<li>${item.children.map(child => this.renderBlock(child)).join('\n')}</li>`)
+            .join('\n');
+
+        return `<${tag}${start}>\n${items}\n</${tag}>`;
+    }
+
+    /**
+     * Renders inline nodes with semantic formatting elements.
+     * 
+     * @param nodes - Inline nodes of a block
+     * @returns HTML markup of the inline content
+     */
+    private renderInline(nodes: InlineNode[]): string {
+        return nodes.map(node => {
+            switch (node.type) {
+                case 'text':
+                    return this.escape(node.value);
+                case 'strong':
+                    return `<strong>${this.renderInline(node.children)}</strong>`;
+                case 'emphasis':
+                    return `<em>${this.renderInline(node.children)}</em>`;
+                case 'inlineCode':
+                    return `<code>${this.escape(node.value)}</code>`;
+                case 'link': {
+                    const title = node.title ? ` title="${this.escape(node.title)}"` : '';
+                    const content = this.renderInline(node.children);
+                    if (!this.isSafeUrl(node.url)) {
+                        this.diagnostics.add('warning', 'formatting-lost', 'unsafe link target removed in HTML, output as text', node.position);
+                        return content;
+                    }
+                    return `<a href="${this.escape(node.url)}"${title}>${content}</a>`;
+                }
+                case 'image': {
+                    if (!this.isSafeUrl(node.url)) {
+                        this.diagnostics.add('warning', 'image-not-embedded', 'unsafe image source removed in HTML, output as alt text', node.position);
+                        return this.escape(node.alt);
+                    }
+                    const title = node.title ? ` title="${this.escape(node.title)}"` : '';
+                    return `<img src="${this.escape(node.url)}" alt="${this.escape(node.alt)}"${title}>`;
+                }
+                case 'break':
+                    return '<br>\n';
+            }
+        }).join('');
+    }
+
+    /**
+     * Checks whether a URL is safe to use as link target or image source.
+     * Relative URLs and http(s), mailto, tel and image data URIs are allowed;
+     * anything else (javascript:, vbscript:, other data: types) is rejected.
+     * 
+     * @param url - URL from the document
+     * @returns True if the URL may be emitted
+     */
+    private isSafeUrl(url: string): boolean {
+        const normalized = url.replace(/[\u0000-\u0020]/g, '').toLowerCase();
+        const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/);
+
+        if (!scheme) {
+            return true;
+        }
+        if (scheme[1] === 'data') {
+            return /^data:image\/(png|jpe?g|gif|bmp|webp)[;,]/.test(normalized);
+        }
+        return ['http', 'https', 'mailto', 'tel'].includes(scheme[1]!);
+    }
+
+    /**
+     * Escapes text for use in HTML content and attribute values.
+     * 
+     * @param text - Raw text
+     * @returns Escaped text
+     */
+    private escape(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
+}
@@ -0,0 +1,35 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { HTMLImporter } from './HTMLImporter';
+
+/**
+ * Imports an HTML string.
+ */
+function importHtml(html: string): Promise<string> {
+    return new HTMLImporter().import(new TextEncoder().encode(html));
+}
+
+describe('HTMLImporter', () => {
+    it('converts headings, emphasis, lists and tables', async () => {
+        const markdown = await importHtml(`<html><head><title>Notes</title></head><body>
+            <h1>Report</h1>
+            <p>Some <b>bold</b> and <em>italic</em> text with a <a href="http://x">link</a>.</p>
+            <ol><li>First<ul><li>Detail</li></ul></li><li>Second</li></ol>
+            <table><tr><th>Name</th><th>Qty</th></tr><tr><td>Apple</td><td>3</td></tr></table>
+        </body></html>`);
+
+        expect(markdown).toBe([
+            '---\ntitle: "Notes"\n---',
+            '# Report',
+            'Some **bold** and *italic* text with a [link](http://x).',
+            '1. First\n   - Detail\n2. Second',
+            '| Name | Qty |\n| --- | --- |\n| Apple | 3 |',
+        ].join('\n\n') + '\n');
+    });
+
+    it('drops scripts and navigation', async () => {
+        const markdown = await importHtml('<nav><a href="#a">Contents</a></nav><script>alert(1)</script><div><p>Kept</p></div>');
+
+        expect(markdown).toBe('Kept\n');
+    });
+});
@@ -0,0 +1,236 @@
+import type { DocumentImporter } from '../interfaces';
+import { MarkdownWriter } from '../parser';
+import type { HeadingDepth, MarkdownRun } from '../parser';
+
+/**
+ * Elements that start a new block. Everything else is inline content.
+ */
+const BLOCK_ELEMENTS = new Set([
+    'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset',
+    'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li',
+    'main', 'nav', 'noscript', 'ol', 'p', 'pre', 'script', 'section', 'style', 'table', 'template', 'ul',
+]);
+
+/**
+ * Elements whose content is not part of the document text.
+ */
+const SKIPPED_ELEMENTS = new Set(['head', 'hr', 'nav', 'noscript', 'script', 'style', 'template']);
+
+/**
+ * Formatting inherited while walking inline elements.
+ */
+interface InlineStyle {
+    bold: boolean;
+    italic: boolean;
+    code: boolean;
+    link: string | null;
+}
+
+const PLAIN_STYLE: InlineStyle = { bold: false, italic: false, code: false, link: null };
+
+/**
+ * Concrete Product - HTMLImporter
+ *
+ * This class is a concrete implementation of the DocumentImporter interface,
+ * the counterpart of HTMLExporter. In the Factory Method pattern, this is a
+ * "Concrete Product" of the importer family.
+ *
+ * HTMLImporter parses an HTML page with the browser's DOMParser and maps:
+ * - <h1> to <h6> to # to ######
+ * - <strong>/<b> and <em>/<i> to **text** and *text*
+ * - <ul>/<ol> to lists, including nested lists
+ * - <pre> to code blocks and <code> to inline code
+ * - <table> to pipe tables, <a> to links and <img> to images
+ * - <title> and the author, description and keywords <meta> tags to front matter
+ *
+ * Containers such as <div> and <section> are unwrapped; scripts, styles
+ * and navigation (including the exporter's table of contents) are dropped.
+ */
+export class HTMLImporter implements DocumentImporter {
+    /**
+     * Imports an HTML page as Markdown.
+     *
+     * @param data - Bytes of the .html file (UTF-8)
+     * @returns Markdown text
+     */
+    async import(data: Uint8Array): Promise<string> {
+        console.log('HTMLImporter: Starting HTML import...');
+
+        const page = new DOMParser().parseFromString(new TextDecoder().decode(data), 'text/html');
+        const writer = new MarkdownWriter();
+
+        writer.frontMatter(this.readMetadata(page));
+        this.renderBlocks(page.body, writer);
+
+        console.log('HTMLImporter: Import completed successfully');
+        return writer.toString();
+    }
+
+    /**
+     * Reads the page title and meta tags that have a front matter field.
+     * A title that only repeats the first heading is left out.
+     *
+     * @param page - Parsed page
+     * @returns Front matter fields
+     */
+    private readMetadata(page: Document): Record<string, string | string[] | null> {
+        const meta = (name: string): string | null =>
+            page.querySelector(`meta[name="${name}"]`)?.getAttribute('content')?.trim() || null;
+        const title = page.title.trim();
+        const heading = page.body?.querySelector('h1, h2, h3, h4, h5, h6')?.textContent?.replace(/\s+/g, ' ').trim();
+
+        return {
+            title: title && title !== heading ? title : null,
+            author: meta('author'),
+            subject: meta('description'),
+            keywords: (meta('keywords') ?? '').split(',').map(keyword => keyword.trim()).filter(Boolean),
+        };
+    }
+
+    /**
+     * Renders the children of a container. Runs of inline content between
+     * block elements become paragraphs.
+     *
+     * @param container - Element whose children are rendered
+     * @param writer - Markdown output
+     */
+    private renderBlocks(container: Element | null, writer: MarkdownWriter): void {
+        let inline: Node[] = [];
+        const flush = (): void => {
+            writer.paragraph(inline.flatMap(node => this.collectRuns(node, PLAIN_STYLE)));
+            inline = [];
+        };
+
+        Array.from(container?.childNodes ?? []).forEach(node => {
+            if (this.isBlock(node)) {
+                flush();
+                this.renderBlock(node, writer);
+            } else {
+                inline.push(node);
+            }
+        });
+        flush();
+    }
+
+    /**
+     * Renders a block element.
+     *
+     * @param element - Block element
+     * @param writer - Markdown output
+     */
+    private renderBlock(element: Element, writer: MarkdownWriter): void {
+        const tag = element.localName;
+
+        if (SKIPPED_ELEMENTS.has(tag)) {
+            return;
+        }
+
+        if (/^h[1-6]$/.test(tag)) {
+            writer.heading(Number(tag[1]) as HeadingDepth, this.collectRuns(element, PLAIN_STYLE));
+        } else if (tag === 'p') {
+            writer.paragraph(this.collectRuns(element, PLAIN_STYLE));
+        } else if (tag === 'ul' || tag === 'ol') {
+            this.renderList(element, 0, writer);
+        } else if (tag === 'pre') {
+            const lang = /(?:^|\s)language-(\S+)/.exec(element.querySelector('code')?.className ?? '')?.[1] ?? null;
+            writer.code((element.textContent ?? '').replace(/\n$/, ''), lang);
+        } else if (tag === 'table') {
+            const rows = Array.from(element.querySelectorAll('tr'))
+                .filter(row => row.closest('table') === element);
+            writer.table(rows.map(row => Array.from(row.children)
+                .filter(cell => cell.localName === 'th' || cell.localName === 'td')
+                .map(cell => this.collectRuns(cell, PLAIN_STYLE))));
+        } else {
+            this.renderBlocks(element, writer);
+        }
+    }
+
+    /**
+     * Renders a list. The content of each item before any nested list is
+     * the item text; nested lists follow one level deeper.
+     *
+     * @param list - <ul> or <ol> element
+     * @param level - Nesting level, 0 for the outermost list
+     * @param writer - Markdown output
+     */
+    private renderList(list: Element, level: number, writer: MarkdownWriter): void {
+        Array.from(list.children)
+            .filter(item => item.localName === 'li')
+            .forEach(item => {
+                const nested = Array.from(item.children).filter(child => child.localName === 'ul' || child.localName === 'ol');
+                const content = Array.from(item.childNodes).filter(node => !nested.includes(node as Element));
+
+                writer.listItem(content.flatMap(node => this.collectRuns(node, PLAIN_STYLE)), level, list.localName === 'ol');
+                nested.forEach(child => this.renderList(child, level + 1, writer));
+            });
+    }
+
+    /**
+     * Collects the text runs of an inline node and its descendants.
+     * Nested block elements are separated by line breaks.
+     *
+     * @param node - Node to collect from
+     * @param style - Inherited formatting
+     * @returns Runs in document order
+     */
+    private collectRuns(node: Node, style: InlineStyle): MarkdownRun[] {
+        const run = (text: string, extra: Partial<MarkdownRun> = {}): MarkdownRun =>
+            ({ ...style, text, lineBreak: false, image: null, ...extra });
+
+        if (node.nodeType === 3) {
+            return [run((node.textContent ?? '').replace(/\s+/g, ' '))];
+        }
+        if (node.nodeType !== 1) {
+            return [];
+        }
+
+        const element = node as Element;
+        const tag = element.localName;
+        const children = (childStyle: InlineStyle): MarkdownRun[] =>
+            Array.from(element.childNodes).flatMap(child => this.collectRuns(child, childStyle));
+
+        if (SKIPPED_ELEMENTS.has(tag)) {
+            return [];
+        }
+
+        switch (tag) {
+            case 'br':
+                return [run('', { lineBreak: true })];
+            case 'img': {
+                const url = element.getAttribute('src');
+                const alt = element.getAttribute('alt') ?? '';
+                return url ? [run(alt, { image: { url, alt } })] : [];
+            }
+            case 'strong':
+            case 'b':
+                return children({ ...style, bold: true });
+            case 'em':
+            case 'i':
+                return children({ ...style, italic: true });
+            case 'code':
+            case 'kbd':
+            case 'samp':
+            case 'tt':
+                return children({ ...style, code: true });
+            case 'a': {
+                const href = element.getAttribute('href');
+                return children({ ...style, link: href && !href.startsWith('#') ? href : style.link });
+            }
+            default:
+                if (BLOCK_ELEMENTS.has(tag)) {
+                    return [run('', { lineBreak: true }), ...children(style), run('', { lineBreak: true })];
+                }
+                return children(style);
+        }
+    }
+
+    /**
+     * Checks whether a node is a block element.
+     *
+     * @param node - DOM node
+     * @returns true for block elements
+     */
+    private isBlock(node: Node): node is Element {
+        return node.nodeType === 1 && BLOCK_ELEMENTS.has((node as Element).localName);
+    }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { LaTeXExporter } from './LaTeXExporter';
+
+/**
+ * Exports Markdown and returns the LaTeX source.
+ */
+async function exportLatex(markdown: string): Promise<string> {
+    const result = await new LaTeXExporter().export(markdown);
+    return new TextDecoder().decode(result.data);
+}
+
+/**
+ * Finds the deepest nesting of itemize and enumerate environments.
+ */
+function listDepth(latex: string): number {
+    let depth = 0;
+    let deepest = 0;
+
+    for (const [, command] of latex.matchAll(/\\(begin|end)\{(?:itemize|enumerate)\}/g)) {
+        depth += command === 'begin' ? 1 : -1;
+        deepest = Math.max(deepest, depth);
+    }
+    return deepest;
+}
+
+describe('LaTeXExporter', () => {
+    it('escapes the special characters in text, code and headings', async () => {
+        const latex = await exportLatex('# 100% & more\n\nC:\\dir {a} $5 #1 a_b ~ x^2\n\nUse `\\emph{x}`');
+
+        expect(latex).toContain('\\section{100\\% \\& more}');
+        expect(latex).toContain('C:\\textbackslash{}dir \\{a\\} \\$5 \\#1 a\\_b \\textasciitilde{} x\\textasciicircum{}2');
+        expect(latex).toContain('\\texttt{\\textbackslash{}emph\\{x\\}}');
+    });
+
+    it('keeps code blocks verbatim and breaks up an \\end{verbatim} inside them', async () => {
+        const result = await new LaTeXExporter().export('```\n$x_1 & {y}\n\\end{verbatim}\n```');
+        const latex = new TextDecoder().decode(result.data);
+
+        expect(latex).toContain('\\begin{verbatim}\n$x_1 & {y}\n\\end {verbatim}\n\\end{verbatim}');
+        expect(result.diagnostics?.map(diagnostic => diagnostic.code)).toEqual(['formatting-lost']);
+    });
+
+    it('flattens lists nested deeper than LaTeX allows into the fourth level', async () => {
+        const markdown = ['- one', '  - two', '    1. three', '       - four', '         - five', '           - six', '- back'].join('\n');
+        const result = await new LaTeXExporter().export(markdown);
+        const latex = new TextDecoder().decode(result.data);
+
+        expect(listDepth(latex)).toBe(4);
+        expect(latex).toMatch(/\\item\{\} four\n\\item\{\} five\n\\item\{\} six\n\\end\{itemize\}/);
+        expect(latex).toContain('\\item{} back');
+        expect(result.diagnostics?.map(diagnostic => diagnostic.code)).toEqual(['formatting-lost']);
+    });
+
+    it('keeps item text starting with a bracket out of the item label', async () => {
+        expect(await exportLatex('- [draft] notes\n1. [x] done')).toMatch(/\\item\{\} \[draft\] notes[\s\S]*\\item\{\} \[x\] done/);
+    });
+});
@@ -0,0 +1,454 @@
+import type { DocumentExporter, ExportControl, ExportOptions, ExportResult } from '../interfaces';
+import { MarkdownParser } from '../parser';
+import type { BlockNode, DocumentNode, HeadingDepth, ImageNode, InlineNode, ListNode, TableNode } from '../parser';
+import { documentFields, documentFilename, parsePageTemplate, resolveExportOptions } from '../options';
+import type { DocumentFields, TemplateToken } from '../options';
+import { DiagnosticCollector, renderWithProgress } from '../utils';
+import { toExportError } from '../errors';
+
+/**
+ * Sectioning commands by heading depth.
+ */
+const SECTION_COMMANDS: Record<HeadingDepth, string> = {
+    1: 'section',
+    2: 'subsection',
+    3: 'subsubsection',
+    4: 'paragraph',
+    5: 'subparagraph',
+    6: 'subparagraph',
+};
+
+/**
+ * Replacements of the characters LaTeX treats specially.
+ */
+const SPECIAL_CHARACTERS: Record<string, string> = {
+    '\\': '\\textbackslash{}',
+    '{': '\\{',
+    '}': '\\}',
+    '%': '\\%',
+    '$': '\\$',
+    '&': '\\&',
+    '#': '\\#',
+    '_': '\\_',
+    '~': '\\textasciitilde{}',
+    '^': '\\textasciicircum{}',
+};
+
+/**
+ * Characters pdflatex typesets with the T1 font encoding and UTF-8 input:
+ * Latin-1, Latin Extended-A and common typographic punctuation.
+ */
+const T1_CHARACTERS = /[\u0000-\u017f\u2013\u2014\u2018-\u201e\u2020-\u2022\u2026\u2030\u2039\u203a\u20ac\u2122]/u;
+
+/**
+ * Number of characters listed in the warning about characters outside T1.
+ */
+const MAX_LISTED_CHARACTERS = 10;
+
+/**
+ * Counters of enumerate environments by nesting level. LaTeX nests
+ * itemize and enumerate at most this many levels deep.
+ */
+const ENUM_COUNTERS = ['enumi', 'enumii', 'enumiii', 'enumiv'];
+
+/**
+ * MIME type of the generated files, also listed in the format of the factory.
+ */
+export const LATEX_MIME_TYPE = 'text/x-tex;charset=utf-8';
+
+/**
+ * Concrete Product - LaTeXExporter
+ * 
+ * This class represents a concrete implementation of the DocumentExporter interface.
+ * In the Factory Method pattern, this is a "Concrete Product".
+ * 
+ * LaTeXExporter converts Markdown to a LaTeX source file (.tex) that
+ * compiles with pdflatex, or with XeLaTeX or LuaLaTeX (fontspec) when the
+ * text has characters outside the T1 encoding, such as Greek or CJK:
+ * - \section to \subparagraph for # to ######
+ * - \textbf for **text** and \emph for *text*
+ * - itemize and enumerate environments for lists
+ * - longtable for tables, with the header row repeated on every page
+ * - verbatim for code blocks and \texttt for inline code
+ * - \href for links and \includegraphics for images given by file path
+ * - \title, \author and \date and the PDF properties from the front matter
+ * 
+ * All text is escaped, so the LaTeX special characters
+ * (\ { } % $ & # _ ~ ^) appear as written.
+ * 
+ * The document class and additional preamble lines come from the export
+ * options, as do page size, orientation, margins (geometry), the table of
+ * contents and the page header and footer (fancyhdr). Fonts are left to
+ * the document class and preamble.
+ */
+export class LaTeXExporter implements DocumentExporter {
+    private parser = new MarkdownParser();
+    private readonly options: ExportOptions;
+    private diagnostics = new DiagnosticCollector();
+
+    /**
+     * @param options - Export options; missing values fall back to the defaults
+     */
+    constructor(options: Partial<ExportOptions> = {}) {
+        this.options = resolveExportOptions(options);
+    }
+
+    /**
+     * Exports markdown content as LaTeX source (.tex file).
+     * 
+     * @param content - Markdown formatted text
+     * @param control - Optional progress callback and abort signal
+     * @returns The generated LaTeX file as UTF-8 bytes
+     * @throws ExportError if the export fails or is aborted
+     */
+    async export(content: string, control: ExportControl = {}): Promise<ExportResult> {
+        console.log('LaTeXExporter: Starting LaTeX export...');
+        
+        try {
+            const result = await this.generate(content, control);
+            console.log('LaTeXExporter: Export completed successfully');
+            return result;
+        } catch (error) {
+            throw toExportError(error, 'LaTeX');
+        }
+    }
+
+    /**
+     * Generates the LaTeX file.
+     * 
+     * @param content - Markdown formatted text
+     * @param control - Progress callback and abort signal
+     * @returns The generated LaTeX file with its diagnostics
+     */
+    private async generate(content: string, control: ExportControl): Promise<ExportResult> {
+        const tree = this.parser.parse(content);
+        this.diagnostics = new DiagnosticCollector();
+        this.diagnostics.addUnsupportedSyntax(tree, 'LaTeX');
+        
+        const body = await renderWithProgress(tree.children, block => this.renderBlock(block, 0), control);
+        const document = [
+            '\\begin{document}',
+            ...this.renderFrontMatter(tree),
+            '',
+            body.join('\n\n'),
+            '',
+            '\\end{document}',
+            '',
+        ];
+        const unicode = this.findUnicodeCharacters([...this.renderPreamble(tree, false), ...document].join('\n'));
+        const source = [...this.renderPreamble(tree, unicode.length > 0), '', ...document].join('\n');
+        
+        if (unicode.length > 0) {
+            const listed = unicode.slice(0, MAX_LISTED_CHARACTERS).join(', ');
+            const more = unicode.length > MAX_LISTED_CHARACTERS ? ` and ${unicode.length - MAX_LISTED_CHARACTERS} more` : '';
+            this.diagnostics.add('warning', 'missing-glyph',
+                `characters outside the T1 encoding (${listed}${more}) need XeLaTeX or LuaLaTeX; the source loads fontspec, set a font that has them with \\setmainfont in the preamble`);
+        }
+        
+        return {
+            data: new TextEncoder().encode(source),
+            mimeType: LATEX_MIME_TYPE,
+            filename: `${documentFilename(this.options.filename, tree.metadata)}.tex`,
+            diagnostics: this.diagnostics.toArray(),
+        };
+    }
+
+    /**
+     * Renders the document class, the font setup, the packages with the
+     * page layout, the preamble of the options and the PDF properties.
+     * 
+     * @param tree - Parsed document tree
+     * @param unicode - Whether to set up fonts with fontspec (XeLaTeX, LuaLaTeX) instead of T1 (pdflatex)
+     * @returns Lines of the preamble
+     */
+    private renderPreamble(tree: DocumentNode, unicode: boolean): string[] {
+        const { pageSize, orientation, margins, header, footer, latexDocumentClass, latexPreamble } = this.options;
+        const paper = `${pageSize}paper`;
+        const landscape = orientation === 'landscape' ? ',landscape' : '';
+        const { title, author, subject, keywords } = tree.metadata;
+        const properties = [
+            ...(title ? [`pdftitle={${this.escape(title)}}`] : []),
+            ...(author ? [`pdfauthor={${this.escape(author)}}`] : []),
+            ...(subject ? [`pdfsubject={${this.escape(subject)}}`] : []),
+            ...(keywords.length > 0 ? [`pdfkeywords={${this.escape(keywords.join(', '))}}`] : []),
+        ];
+        
+        return [
+            `\\documentclass[${paper}${landscape}]{${latexDocumentClass}}`,
+            ...(unicode
+                ? ['\\usepackage{fontspec}']
+                : ['\\usepackage[T1]{fontenc}', '\\usepackage[utf8]{inputenc}', '\\usepackage{lmodern}']),
+            `\\usepackage[${paper}${landscape},top=${margins.top}mm,right=${margins.right}mm,bottom=${margins.bottom}mm,left=${margins.left}mm]{geometry}`,
+            '\\usepackage{graphicx}',
+            '\\usepackage{longtable}',
+            ...(header !== null || footer !== null ? this.renderPageStyle(tree) : []),
+            ...(latexPreamble !== null ? [latexPreamble.trim()] : []),
+            '\\usepackage{hyperref}',
+            ...(properties.length > 0 ? [`\\hypersetup{${properties.join(', ')}}`] : []),
+        ];
+    }
+
+    /**
+     * Finds the characters pdflatex cannot typeset with the T1 encoding.
+     * 
+     * @param source - LaTeX source
+     * @returns The characters in order of appearance
+     */
+    private findUnicodeCharacters(source: string): string[] {
+        const characters = new Set<string>();
+        
+        for (const char of source) {
+            if (!T1_CHARACTERS.test(char)) {
+                characters.add(char);
+            }
+        }
+        
+        return [...characters];
+    }
+
+    /**
+     * Renders the header and footer templates as a fancyhdr page style.
+     * 
+     * @param tree - Parsed document tree
+     * @returns Preamble lines of the page style
+     */
+    private renderPageStyle(tree: DocumentNode): string[] {
+        const fields = documentFields(tree);
+        const templates = [this.options.header, this.options.footer];
+        const lines = ['\\usepackage{fancyhdr}'];
+        
+        if (templates.some(template => template?.includes('{pages}'))) {
+            lines.push('\\usepackage{lastpage}');
+        }
+        lines.push('\\pagestyle{fancy}', '\\fancyhf{}', '\\renewcommand{\\headrulewidth}{0pt}');
+        
+        (['head', 'foot'] as const).forEach((position, index) => {
+            const template = templates[index];
+            if (template === null || template === undefined) {
+                return;
+            }
+            const { left, center, right } = parsePageTemplate(template);
+            lines.push(
+                `\\fancy${position}[L]{${this.renderTemplate(left, fields)}}`,
+                `\\fancy${position}[C]{${this.renderTemplate(center, fields)}}`,
+                `\\fancy${position}[R]{${this.renderTemplate(right, fields)}}`,
+            );
+        });
+        
+        return lines;
+    }
+
+    /**
+     * Renders one slot of a header or footer template. {page} and {pages}
+     * become the LaTeX page counter and the last page reference.
+     * 
+     * @param tokens - Tokens of the slot
+     * @param fields - Title and date of the document
+     * @returns LaTeX markup of the slot
+     */
+    private renderTemplate(tokens: TemplateToken[], fields: DocumentFields): string {
+        return tokens.map(token => {
+            if (token.type === 'text') {
+                return this.escape(token.text);
+            }
+            switch (token.field) {
+                case 'page':
+                    return '\\thepage{}';
+                case 'pages':
+                    return '\\pageref*{LastPage}';
+                default:
+                    return this.escape(fields[token.field]);
+            }
+        }).join('');
+    }
+
+    /**
+     * Renders the title block from the front matter and the table of
+     * contents.
+     * 
+     * @param tree - Parsed document tree
+     * @returns Lines at the start of the document body
+     */
+    private renderFrontMatter(tree: DocumentNode): string[] {
+        const { title, author, date } = tree.metadata;
+        const lines: string[] = [];
+        
+        if (title) {
+            lines.push(
+                `\\title{${this.escape(title)}}`,
+                `\\author{${this.escape(author ?? '')}}`,
+                `\\date{${this.escape(date ?? '')}}`,
+                '\\maketitle',
+            );
+        }
+        if (this.options.omitFirstPageHeaderFooter && (this.options.header !== null || this.options.footer !== null)) {
+            lines.push('\\thispagestyle{empty}');
+        }
+        if (this.options.tableOfContents) {
+            lines.push('\\tableofcontents', '\\newpage');
+        }
+        
+        return lines;
+    }
+
+    /**
+     * Renders a single block.
+     * 
+     * @param block - Block node of the document tree
+     * @param level - Nesting level of the enclosing lists
+     * @returns LaTeX markup of the block
+     */
+    private renderBlock(block: BlockNode, level: number): string {
+        switch (block.type) {
+            case 'heading':
+                return `\\${SECTION_COMMANDS[block.depth]}{${this.renderInline(block.children)}}`;
+            case 'paragraph':
+                return this.renderInline(block.children);
+            case 'list':
+                return this.renderList(block, level);
+            case 'table':
+                return this.renderTable(block);
+            case 'code': {
+                // verbatim ends at the first \end{verbatim}, so it must not occur in the code
+                let code = block.value;
+                if (code.includes('\\end{verbatim}')) {
+                    code = code.replace(/\\end\{verbatim\}/g, '\\end {verbatim}');
+                    this.diagnostics.add('warning', 'formatting-lost', '\\end{verbatim} in code changed to "\\end {verbatim}" in LaTeX', block.position);
+                }
+                return `\\begin{verbatim}\n${code}\n\\end{verbatim}`;
+            }
+        }
+    }
+
+    /**
+     * Renders a list as itemize or enumerate environment. Numbered lists
+     * keep their start number. Items start with \item{}, so text starting
+     * with [ is not read as the optional item label.
+     * 
+     * @param list - List node of the document tree
+     * @param level - Nesting level (0 for top-level lists)
+     * @returns LaTeX markup of the list
+     */
+    private renderList(list: ListNode, level: number): string {
+        const environment = list.ordered ? 'enumerate' : 'itemize';
+        const start = list.ordered && list.start !== 1 ? [`\\setcounter{${ENUM_COUNTERS[level]}}{${list.start - 1}}`] : [];
+        const items = this.renderItems(list, level).map(blocks => `\\item{} ${blocks.join('\n\n')}`);
+        
+        return [`\\begin{${environment}}`, ...start, ...items, `\\end{${environment}}`].join('\n');
+    }
+
+    /**
+     * Renders the blocks of each list item. Lists nested deeper than LaTeX
+     * allows continue the enclosing list: their items become items of it.
+     * 
+     * @param list - List node of the document tree
+     * @param level - Nesting level of the list environment
+     * @returns The rendered blocks of each item
+     */
+    private renderItems(list: ListNode, level: number): string[][] {
+        const items: string[][] = [];
+        
+        list.children.forEach(item => {
+            items.push([]);
+            item.children.forEach(child => {
+                if (child.type === 'list' && level + 1 >= ENUM_COUNTERS.length) {
+                    this.diagnostics.add('warning', 'formatting-lost', `lists nested deeper than ${ENUM_COUNTERS.length} levels are flattened in LaTeX`, child.position);
+                    items.push(...this.renderItems(child, level));
+                } else {
+                    items[items.length - 1]!.push(this.renderBlock(child, level + (child.type === 'list' ? 1 : 0)));
+                }
+            });
+        });
+        
+        return items;
+    }
+
+    /**
+     * Renders a table as longtable with ruled cells and aligned columns.
+     * 
+     * @param table - Table node of the document tree
+     * @returns LaTeX markup of the table
+     */
+    private renderTable(table: TableNode): string {
+        const columns = table.align.map(align => (align ? align.charAt(0) : 'l')).join('|');
+        const rows = table.children.map(row => {
+            const cells = row.children.map(cell => {
+                const text = this.renderInline(cell.children);
+                return row.header ? `\\textbf{${text}}` : text;
+            });
+            return `${cells.join(' & ')} \\\\ \\hline`;
+        });
+        const head = table.children[0]?.header ? [rows.shift()!, '\\endhead'] : [];
+        
+        return [`\\begin{longtable}{|${columns}|}`, '\\hline', ...head, ...rows, '\\end{longtable}'].join('\n');
+    }
+
+    /**
+     * Renders inline nodes with LaTeX formatting commands.
+     * 
+     * @param nodes - Inline nodes of a block
+     * @returns LaTeX markup of the inline content
+     */
+    private renderInline(nodes: InlineNode[]): string {
+        return nodes.map(node => {
+            switch (node.type) {
+                case 'text':
+                    return this.escape(node.value);
+                case 'strong':
+                    return `\\textbf{${this.renderInline(node.children)}}`;
+                case 'emphasis':
+                    return `\\emph{${this.renderInline(node.children)}}`;
+                case 'inlineCode':
+                    return `\\texttt{${this.escape(node.value)}}`;
+                case 'link':
+                    return `\\href{${this.escapeUrl(node.url)}}{${this.renderInline(node.children)}}`;
+                case 'image':
+                    return this.renderImage(node);
+                case 'break':
+                    // \newline rather than \\, which would read a following [ as its argument
+                    return '\\newline\n';
+            }
+        }).join('');
+    }
+
+    /**
+     * Renders an image given by a file path with \includegraphics, scaled
+     * to the text width. Images by URL become links; embedded images
+     * (data URIs) cannot be part of a single .tex file and become their alt
+     * text.
+     * 
+     * @param image - Image node of the document tree
+     * @returns LaTeX markup of the image
+     */
+    private renderImage(image: ImageNode): string {
+        if (/^https?:/i.test(image.url)) {
+            this.diagnostics.addImageNotEmbedded(image, 'LaTeX');
+            return `\\href{${this.escapeUrl(image.url)}}{${this.escape(image.alt || image.url)}}`;
+        }
+        if (image.url.startsWith('data:') || !/^[\w./-]+$/.test(image.url)) {
+            this.diagnostics.add('warning', 'image-not-embedded', 'only images given by a plain file path are supported in LaTeX, output as alt text', image.position);
+            return this.escape(image.alt);
+        }
+        return `\\includegraphics[width=\\linewidth,height=\\textheight,keepaspectratio]{${image.url}}`;
+    }
+
+    /**
+     * Escapes the LaTeX special characters of text.
+     * 
+     * @param text - Raw text
+     * @returns Text that LaTeX typesets as written
+     */
+    private escape(text: string): string {
+        return text.replace(/[\\{}%$&#_~^]/g, character => SPECIAL_CHARACTERS[character]!);
+    }
+
+    /**
+     * Escapes a URL for \href, which takes most characters literally.
+     * 
+     * @param url - Raw URL
+     * @returns URL safe to use as \href argument
+     */
+    private escapeUrl(url: string): string {
+        return url.replace(/[\\{}%#]/g, character => `\\${character}`);
+    }
+}
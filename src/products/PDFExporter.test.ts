@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { PDFExporter } from './PDFExporter';
+import type { ExportProgress } from '../interfaces';
+
+/**
+ * Reads the names of the fonts a PDF file uses.
+ */
+function baseFonts(data: Uint8Array): string[] {
+    const text = new TextDecoder('latin1').decode(data);
+    return [...new Set([...text.matchAll(/\/BaseFont \/([^\s/]+)/g)].map(match => match[1]!))];
+}
+
+/**
+ * Counts the pages of a PDF file.
+ */
+function pageCount(data: Uint8Array): number {
+    return new TextDecoder('latin1').decode(data).match(/\/Type \/Page\b(?!s)/g)?.length ?? 0;
+}
+
+describe('PDFExporter', () => {
+    it('loads the fonts the text needs before the first layout', async () => {
+        const result = await new PDFExporter({ fontFamily: 'serif' }).export('# Ωμέγα\n\nText with **Жж** and 漢');
+
+        expect(baseFonts(result.data)).toContain('DejaVuSans');
+        expect(result.diagnostics).toEqual([
+            expect.objectContaining({ code: 'missing-glyph', message: expect.stringContaining('"漢"') }),
+        ]);
+        expect(result.diagnostics?.[0]?.message).not.toMatch(/[ΩЖ]/);
+    });
+
+    it('reports progress once, for the layout it returns', async () => {
+        const progress: ExportProgress[] = [];
+        const long = 'Lorem ipsum dolor sit amet. '.repeat(300);
+
+        // Bold italic DejaVu Sans is not loaded yet by the other tests
+        const result = await new PDFExporter().export(`# One\n\n***Two***\n\n${long}`, { onProgress: update => progress.push(update) });
+
+        expect(progress.map(update => [update.blocks, update.totalBlocks])).toEqual([[1, 3], [2, 3], [3, 3]]);
+        expect(progress[2]!.pages).toBeGreaterThan(1);
+        expect(progress[2]!.pages).toBe(pageCount(result.data));
+    });
+});
@@ -1,5 +1,106 @@
-import { DocumentExporter } from '../interfaces';
+import type { DocumentExporter, ExportControl, ExportOptions, ExportResult, FontFamily, TextAlignment } from '../interfaces';
 import { jsPDF } from 'jspdf';
+import { toExportError } from '../errors';
+import { DEJAVU_SANS, PdfFontSet } from '../fonts';
+import type { PdfFontStyle, PdfFontText } from '../fonts';
+import { TOC_MAX_DEPTH, documentFields, documentFilename, parsePageTemplate, renderTemplateTokens, resolveExportOptions } from '../options';
+import type { DocumentFields } from '../options';
+import { MarkdownParser, collectHeadings, flattenInline, metadataDate } from '../parser';
+import type { BlockNode, CodeBlockNode, DocumentMetadata, DocumentNode, HeadingDepth, ImageNode, ListNode, StyledRun, TableNode } from '../parser';
+import { resolveTheme } from '../themes';
+import type { ResolvedTextStyle, ResolvedTheme } from '../themes';
+import { DiagnosticCollector, decodeImage, renderWithProgress } from '../utils';
+import type { EmbeddedImage } from '../utils';
+
+/**
+ * Bullet characters for unordered lists, cycled by nesting depth.
+ */
+const BULLETS = ['\u2022', '\u2013'];
+
+/**
+ * Indentation per level in the table of contents, in millimeters.
+ */
+const TOC_INDENT = 6;
+
+/**
+ * A rendered heading with the page it starts on.
+ */
+interface RenderedHeading {
+    depth: HeadingDepth;
+    text: string;
+    page: number;
+}
+
+/**
+ * Millimeters per point.
+ */
+const MM_PER_POINT = 0.3528;
+
+/**
+ * Line height of body text at single line spacing, relative to the font size.
+ */
+const LINE_HEIGHT_FACTOR = 1.45;
+
+/**
+ * Line height of headings at single line spacing, relative to the font size.
+ */
+const HEADING_LINE_HEIGHT_FACTOR = 1.2;
+
+/**
+ * Fonts for the generic font families. Serif and monospace text use the
+ * PDF standard fonts; characters they lack fall back to DejaVu Sans.
+ */
+const FONT_FAMILIES: Record<FontFamily, string> = {
+    'sans-serif': DEJAVU_SANS.name,
+    'serif': 'times',
+    'monospace': 'courier',
+};
+
+/**
+ * Number of missing characters listed in the missing glyph warning.
+ */
+const MAX_LISTED_CHARACTERS = 10;
+
+/**
+ * A word placed on a line, x relative to the line start.
+ */
+interface PositionedWord {
+    text: string;
+    font: string;
+    fontStyle: PdfFontStyle;
+    link: string | null;
+    x: number;
+    width: number;
+}
+
+/**
+ * jsPDF image format names.
+ */
+const IMAGE_FORMATS = { png: 'PNG', jpg: 'JPEG', gif: 'GIF', bmp: 'BMP' } as const;
+
+/**
+ * Millimeters per CSS pixel (96 dpi).
+ */
+const MM_PER_PIXEL = 25.4 / 96;
+
+/**
+ * A laid out line of text.
+ */
+interface TextLine {
+    words: PositionedWord[];
+    width: number;
+
+    /**
+     * Whether the line ends because the next word did not fit (and not at
+     * a line break or the end of the text).
+     */
+    wrapped: boolean;
+}
+
+/**
+ * MIME type of the generated files, also listed in the format of the factory.
+ */
+export const PDF_MIME_TYPE = 'application/pdf';
 
 /**
  * Concrete Product - PDFExporter
@@ -8,192 +109,1103 @@ import { jsPDF } from 'jspdf';
  * In the Factory Method pattern, this is a "Concrete Product".
  * 
  * PDFExporter converts Markdown to a styled PDF document with:
- * - Large headings for # (Heading 1)
- * - Medium headings for ## (Heading 2)
+ * - Headings # to ###### in decreasing sizes
+ * - An outline (bookmark tree) of all headings
+ * - Optionally a table of contents with page numbers and links in front of the body
+ * - Optional page headers and footers with title, date and "Page X of Y" placeholders
  * - Bold text for **text**
  * - Italic text for *text*
+ * - Bulleted and numbered lists with hanging indents
+ * - Bordered tables with wrapped cell text and repeated header rows
+ * - Code in Courier, code blocks verbatim on a shaded background
+ * - Unicode text: DejaVu Sans is embedded, and characters the selected font
+ *   lacks fall back to it per character (a warning lists any character no
+ *   font can draw)
+ * - Clickable links and embedded images scaled to the content width
+ * - Document properties (title, author, subject, keywords, date) from the front matter
+ * 
+ * Page size, orientation, margins, base font, line spacing and filename
+ * are taken from the export options. Fonts, sizes, colors, spacing and
+ * alignment of each element come from the theme.
  * 
- * Uses jsPDF library for direct PDF generation and download.
+ * Uses jsPDF library for PDF generation.
  */
 export class PDFExporter implements DocumentExporter {
+    private parser = new MarkdownParser();
+    private readonly options: ExportOptions;
+    private readonly theme: ResolvedTheme;
+    private readonly lineHeight: number;
+    private readonly listIndent = 7;
+    private textStyle: ResolvedTextStyle;
+    private headings: RenderedHeading[] = [];
+    private fonts!: PdfFontSet;
+    private diagnostics = new DiagnosticCollector();
+
+    /**
+     * @param options - Export options; missing values fall back to the defaults
+     */
+    constructor(options: Partial<ExportOptions> = {}) {
+        this.options = resolveExportOptions(options);
+        this.theme = resolveTheme(this.options);
+        this.textStyle = this.theme.body;
+        this.lineHeight = this.lineHeightOf(this.theme.body);
+    }
+
     /**
      * Exports markdown content as a styled PDF document.
-     * Converts markdown syntax to formatted text and generates PDF.
+     * Renders the parsed document tree to formatted text and generates PDF.
      * 
      * @param content - Markdown formatted text
+     * @param control - Optional progress callback and abort signal
+     * @returns The generated PDF file
+     * @throws ExportError if the export fails or is aborted
      */
-    export(content: string): void {
+    async export(content: string, control: ExportControl = {}): Promise<ExportResult> {
         console.log('PDFExporter: Starting PDF export...');
         
-        const doc = new jsPDF();
-        const lines = this.parseMarkdown(content);
+        try {
+            const result = await this.generate(content, control);
+            console.log('PDFExporter: Export completed successfully');
+            return result;
+        } catch (error) {
+            throw toExportError(error, 'PDF');
+        }
+    }
+
+    /**
+     * Lays out the document and generates the PDF file.
+     * 
+     * @param content - Markdown formatted text
+     * @param control - Progress callback and abort signal
+     * @returns The generated PDF file with its diagnostics
+     */
+    private async generate(content: string, control: ExportControl): Promise<ExportResult> {
+        const tree = this.parser.parse(content);
+        
+        // Layout is synchronous, so the fonts the text needs are loaded first
+        await PdfFontSet.loadFonts(this.fontTexts(tree));
         
-        let yPosition = 20;
-        const lineHeight = 7;
-        const pageHeight = doc.internal.pageSize.height;
+        const doc = await this.render(tree, control);
+        this.reportMissingGlyphs();
         
-        lines.forEach((line) => {
-            // Check if we need a new page
-            if (yPosition > pageHeight - 20) {
-                doc.addPage();
-                yPosition = 20;
-            }
-            
-            // Apply styling based on line type
-            if (line.type === 'h1') {
-                doc.setFontSize(20);
-                doc.setFont('helvetica', 'bold');
-                doc.text(line.text, 20, yPosition);
-                yPosition += lineHeight * 2;
-            } else if (line.type === 'h2') {
-                doc.setFontSize(16);
-                doc.setFont('helvetica', 'bold');
-                doc.text(line.text, 20, yPosition);
-                yPosition += lineHeight * 1.5;
-            } else if (line.type === 'paragraph') {
-                doc.setFontSize(12);
+        return {
+            data: new Uint8Array(doc.output('arraybuffer')),
+            mimeType: PDF_MIME_TYPE,
+            filename: `${documentFilename(this.options.filename, tree.metadata)}.pdf`,
+            diagnostics: this.diagnostics.toArray(),
+        };
+    }
+
+    /**
+     * Renders the document tree into a new PDF document.
+     * 
+     * @param tree - Parsed document
+     * @param control - Progress callback and abort signal
+     * @returns The rendered document
+     */
+    private async render(tree: DocumentNode, control: ExportControl): Promise<jsPDF> {
+        const doc = new jsPDF({
+            unit: 'mm',
+            format: this.options.pageSize,
+            orientation: this.options.orientation,
+            compress: true,
+        });
+        this.applyMetadata(doc, tree.metadata);
+        this.headings = [];
+        this.textStyle = this.theme.body;
+        this.diagnostics = new DiagnosticCollector();
+        this.diagnostics.addUnsupportedSyntax(tree, 'PDF');
+        this.fonts = new PdfFontSet(doc);
+        
+        let yPosition = this.options.margins.top;
+        
+        await renderWithProgress(tree.children, (block) => {
+            yPosition = this.renderBlock(doc, block, this.options.margins.left, yPosition);
+        }, control, () => doc.getNumberOfPages());
+        
+        const contentsPages = this.options.tableOfContents ? this.renderTableOfContents(doc) : 0;
+        this.renderOutline(doc, contentsPages);
+        this.renderPageTemplates(doc, documentFields(tree));
+        
+        return doc;
+    }
+
+    /**
+     * Lists the text of a document with the fonts it is drawn in, as the
+     * layout will select them: blocks in the font of their theme style, code
+     * in the code font, the table of contents, headers and footers, and
+     * image captions and replacement text.
+     * 
+     * @param tree - Parsed document
+     * @returns Text per font and style
+     */
+    private fontTexts(tree: DocumentNode): PdfFontText[] {
+        const texts: PdfFontText[] = [];
+        const addText = (style: ResolvedTextStyle, text: string, fontStyle = this.fontStyle(style)): void => {
+            texts.push({ font: FONT_FAMILIES[style.fontFamily], style: fontStyle, text });
+        };
+        const addRuns = (style: ResolvedTextStyle, runs: StyledRun[]): void => runs.forEach(run => {
+            addText(run.code ? this.theme.code : style, run.image ? `${run.text}${run.image.url}[image]` : run.text, this.fontStyle(run));
+            if (run.image) {
+                addText(style, run.image.alt, 'italic');
+            }
+        });
+        const addBlock = (block: BlockNode): void => {
+            const style = this.blockStyle(block);
+            
+            if (block.type === 'heading' || block.type === 'paragraph') {
+                addRuns(style, flattenInline(block.children, { bold: style.bold, italic: style.italic }));
+            } else if (block.type === 'list') {
+                addText(style, `${BULLETS.join('')}0123456789.`, 'normal');
+                block.children.forEach(item => item.children.forEach(addBlock));
+            } else if (block.type === 'table') {
+                block.children.forEach(row => row.children.forEach(cell => 
+                    addRuns(style, flattenInline(cell.children, { bold: row.header || style.bold, italic: style.italic }))));
+            } else if (block.type === 'code') {
+                addText(style, block.value);
+            }
+        };
+        
+        tree.children.forEach(addBlock);
+        
+        const headings = collectHeadings(tree, TOC_MAX_DEPTH);
+        if (this.options.tableOfContents && headings.length > 0) {
+            addText(this.theme.headings[0]!, 'Contents');
+            headings.forEach(heading => addText(this.theme.body, heading.text, heading.depth === 1 ? 'bold' : 'normal'));
+            addText(this.theme.body, '0123456789.', 'normal');
+        }
+        
+        const { header, footer } = this.options;
+        if (header !== null || footer !== null) {
+            const fields = documentFields(tree);
+            addText(this.theme.headerFooter, `${header ?? ''}${footer ?? ''}${fields.title}${fields.date}0123456789`);
+        }
+        
+        return texts;
+    }
+
+    /**
+     * Records the characters that no font could draw.
+     */
+    private reportMissingGlyphs(): void {
+        const missing = this.fonts.missingCharacters();
+        
+        if (missing.length === 0) {
+            return;
+        }
+        
+        const listed = missing.slice(0, MAX_LISTED_CHARACTERS).map(char => 
+            `"${char}" (U+${char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')})`);
+        const more = missing.length > listed.length ? ` and ${missing.length - listed.length} more` : '';
+        
+        this.diagnostics.add('warning', 'missing-glyph', 
+            `glyph not in font for ${listed.join(', ')}${more}, shown as boxes (register a font that covers them with registerPdfFont())`);
+    }
+
+    /**
+     * Writes the front matter fields into the PDF document properties.
+     * 
+     * @param doc - jsPDF document instance
+     * @param metadata - Metadata of the parsed document
+     */
+    private applyMetadata(doc: jsPDF, metadata: DocumentMetadata): void {
+        doc.setDocumentProperties({
+            ...(metadata.title ? { title: metadata.title } : {}),
+            ...(metadata.author ? { author: metadata.author } : {}),
+            ...(metadata.subject ? { subject: metadata.subject } : {}),
+            ...(metadata.keywords.length > 0 ? { keywords: metadata.keywords.join(', ') } : {}),
+            creator: 'Document Exporter',
+        });
+        
+        const date = metadataDate(metadata);
+        if (date) {
+            doc.setCreationDate(date);
+        }
+    }
+
+    /**
+     * Renders a single block element and the spacing after it.
+     * 
+     * @param doc - jsPDF document instance
+     * @param block - Block node of the document tree
+     * @param x - X position of the block's left edge
+     * @param y - Y position
+     * @returns New Y position after rendering
+     */
+    private renderBlock(doc: jsPDF, block: BlockNode, x: number, y: number): number {
+        const style = this.blockStyle(block);
+        let yPosition = y;
+        
+        // No space above blocks at the top of a page
+        if (yPosition > this.options.margins.top) {
+            yPosition += style.spaceBefore * MM_PER_POINT;
+        }
+        yPosition = this.ensureSpace(doc, yPosition);
+        
+        // Apply styling based on block type
+        if (block.type === 'heading') {
+            const runs = flattenInline(block.children, { bold: style.bold, italic: style.italic });
+            
+            this.headings.push({
+                depth: block.depth,
+                text: runs.map(run => (run.lineBreak ? ' ' : run.text)).join(''),
+                page: doc.getCurrentPageInfo().pageNumber,
+            });
+            this.useStyle(doc, style);
+            yPosition = this.renderParagraphWithFormatting(doc, runs, x, yPosition, this.headingLineHeight(style), style.alignment);
+        } else if (block.type === 'paragraph') {
+            this.useStyle(doc, style);
+            
+            // Render paragraph with inline formatting
+            const runs = flattenInline(block.children, { bold: style.bold, italic: style.italic });
+            yPosition = this.renderParagraphWithFormatting(doc, runs, x, yPosition, this.lineHeight, style.alignment);
+        } else if (block.type === 'list') {
+            yPosition = this.renderList(doc, block, x, yPosition, 0);
+        } else if (block.type === 'table') {
+            yPosition = this.renderTable(doc, block, x, yPosition);
+        } else if (block.type === 'code') {
+            yPosition = this.renderCodeBlock(doc, block, x, yPosition);
+        }
+        
+        return yPosition + style.spaceAfter * MM_PER_POINT;
+    }
+
+    /**
+     * Looks up the theme style of a block.
+     * 
+     * @param block - Block node of the document tree
+     * @returns Text style of the block
+     */
+    private blockStyle(block: BlockNode): ResolvedTextStyle {
+        switch (block.type) {
+            case 'heading':
+                return this.theme.headings[block.depth - 1]!;
+            case 'table':
+                return this.theme.table;
+            case 'code':
+                return this.theme.code;
+            default:
+                return this.theme.body;
+        }
+    }
+
+    /**
+     * Selects the font size and color of a theme style for the following
+     * text. The font itself is selected per run.
+     * 
+     * @param doc - jsPDF document instance
+     * @param style - Text style
+     */
+    private useStyle(doc: jsPDF, style: ResolvedTextStyle): void {
+        this.textStyle = style;
+        doc.setFontSize(style.fontSize);
+        doc.setTextColor(style.color);
+    }
+
+    /**
+     * Computes the line height (baseline to baseline) of a text style.
+     * 
+     * @param style - Text style
+     * @param factor - Line height at single line spacing, relative to the font size
+     * @returns Line height in millimeters
+     */
+    private lineHeightOf(style: ResolvedTextStyle, factor: number = LINE_HEIGHT_FACTOR): number {
+        return style.fontSize * MM_PER_POINT * factor * this.theme.lineSpacing;
+    }
+
+    /**
+     * Computes the line height of a heading. Small headings keep the body
+     * line height, so the following text does not move closer.
+     * 
+     * @param style - Heading style
+     * @returns Line height in millimeters
+     */
+    private headingLineHeight(style: ResolvedTextStyle): number {
+        return Math.max(this.lineHeightOf(style, HEADING_LINE_HEIGHT_FACTOR), this.lineHeight);
+    }
+
+    /**
+     * Renders the table of contents with dot leaders, page numbers and links.
+     * The contents are drawn on new pages after the body and then moved to
+     * the front; the page numbers already account for that shift.
+     * 
+     * @param doc - jsPDF document instance
+     * @returns Number of pages the table of contents takes
+     */
+    private renderTableOfContents(doc: jsPDF): number {
+        const entries = this.headings.filter(heading => heading.depth <= TOC_MAX_DEPTH);
+        
+        if (entries.length === 0) {
+            return 0;
+        }
+        
+        const left = this.options.margins.left;
+        const title = this.theme.headings[0]!;
+        const body = this.theme.body;
+        const titleHeight = this.headingLineHeight(title) + title.spaceAfter * MM_PER_POINT;
+        const bodyPages = doc.getNumberOfPages();
+        
+        // Lay out first: the number of contents pages shifts every page number
+        const placements: Array<{ entry: RenderedHeading; page: number; y: number }> = [];
+        let page = 0;
+        let y = this.options.margins.top + titleHeight;
+        
+        entries.forEach(entry => {
+            if (y > this.pageBottom(doc)) {
+                page++;
+                y = this.options.margins.top;
+            }
+            placements.push({ entry, page, y });
+            y += this.lineHeight;
+        });
+        
+        const pageCount = page + 1;
+        
+        for (let index = 0; index < pageCount; index++) {
+            doc.addPage();
+        }
+        
+        doc.setPage(bodyPages + 1);
+        this.useStyle(doc, title);
+        this.fonts.setFont(FONT_FAMILIES[title.fontFamily], this.fontStyle(title));
+        this.fonts.text('Contents', left, this.options.margins.top);
+        
+        this.useStyle(doc, body);
+        placements.forEach(({ entry, page: entryPage, y: baseline }) => {
+            const target = entry.page + pageCount;
+            const x = left + (entry.depth - 1) * TOC_INDENT;
+            const number = String(target);
+            
+            doc.setPage(bodyPages + 1 + entryPage);
+            this.fonts.setFont(FONT_FAMILIES[body.fontFamily], entry.depth === 1 ? 'bold' : 'normal');
+            
+            const numberX = this.contentRight(doc);
+            const available = numberX - this.fonts.getTextWidth(number) - x - 4;
+            let text = entry.text;
+            
+            if (this.fonts.getTextWidth(text) > available) {
+                while (text.length > 0 && this.fonts.getTextWidth(`${text}...`) > available) {
+                    text = text.slice(0, -1);
+                }
+                text = `${text.trimEnd()}...`;
+            }
+            
+            const textWidth = this.fonts.getTextWidth(text);
+            const leaderStart = x + textWidth + 1;
+            const leaderEnd = numberX - this.fonts.getTextWidth(number) - 1;
+            const dots = Math.max(0, Math.floor((leaderEnd - leaderStart) / this.fonts.getTextWidth('.')));
+            
+            this.fonts.text(text, x, baseline);
+            this.fonts.setFont(FONT_FAMILIES[body.fontFamily], 'normal');
+            this.fonts.text('.'.repeat(dots), leaderEnd, baseline, { align: 'right' });
+            this.fonts.text(number, numberX, baseline, { align: 'right' });
+            
+            const height = body.fontSize * MM_PER_POINT;
+            doc.link(x, baseline - height * 0.8, numberX - x, height, { pageNumber: target });
+        });
+        
+        for (let index = 0; index < pageCount; index++) {
+            doc.movePage(bodyPages + 1 + index, 1 + index);
+        }
+        
+        return pageCount;
+    }
+
+    /**
+     * Adds an outline (bookmark tree) with an entry per heading. Headings
+     * are nested under the closest preceding heading of a lower depth.
+     * 
+     * @param doc - jsPDF document instance
+     * @param pageOffset - Number of pages inserted before the body
+     */
+    private renderOutline(doc: jsPDF, pageOffset: number): void {
+        if (this.headings.length === 0) {
+            return;
+        }
+        
+        const parents: Array<{ depth: number; item: unknown }> = [];
+        
+        if (pageOffset > 0) {
+            doc.outline.add(null, 'Contents', { pageNumber: 1 });
+        }
+        
+        this.headings.forEach(heading => {
+            while (parents.length > 0 && parents[parents.length - 1]!.depth >= heading.depth) {
+                parents.pop();
+            }
+            
+            const parent = parents[parents.length - 1]?.item ?? null;
+            const item = doc.outline.add(parent, heading.text, { pageNumber: heading.page + pageOffset });
+            parents.push({ depth: heading.depth, item });
+        });
+        
+        doc.setDisplayMode(null, null, 'UseOutlines');
+    }
+
+    /**
+     * Draws the header and footer templates into the top and bottom margin
+     * of every page, centered vertically in the margin. Runs after all
+     * pages exist, so {pages} is known.
+     * 
+     * @param doc - jsPDF document instance
+     * @param fields - Title and date of the document
+     */
+    private renderPageTemplates(doc: jsPDF, fields: DocumentFields): void {
+        const { header, footer, margins } = this.options;
+        const templates = [
+            { template: header, y: (): number => margins.top / 2 },
+            { template: footer, y: (): number => doc.internal.pageSize.getHeight() - margins.bottom / 2 },
+        ].flatMap(({ template, y }) => (template === null ? [] : [{ slots: parsePageTemplate(template), y }]));
+        
+        if (templates.length === 0) {
+            return;
+        }
+        
+        const pages = doc.getNumberOfPages();
+        const style = this.theme.headerFooter;
+        
+        this.useStyle(doc, style);
+        this.fonts.setFont(FONT_FAMILIES[style.fontFamily], this.fontStyle(style));
+        
+        for (let page = this.options.omitFirstPageHeaderFooter ? 2 : 1; page <= pages; page++) {
+            doc.setPage(page);
+            
+            const values = { ...fields, page: String(page), pages: String(pages) };
+            
+            templates.forEach(({ slots: { left, center, right }, y }) => {
+                // Baseline so the text is centered on the middle of the margin
+                const baseline = y() + style.fontSize * MM_PER_POINT * 0.35;
                 
-                // Render paragraph with inline formatting
-                yPosition = this.renderParagraphWithFormatting(doc, line.text, 20, yPosition, lineHeight);
-            } else if (line.type === 'empty') {
-                yPosition += lineHeight / 2;
+                this.fonts.text(renderTemplateTokens(left, values), margins.left, baseline);
+                this.fonts.text(renderTemplateTokens(center, values), (margins.left + this.contentRight(doc)) / 2, baseline, { align: 'center' });
+                this.fonts.text(renderTemplateTokens(right, values), this.contentRight(doc), baseline, { align: 'right' });
+            });
+        }
+    }
+
+    /**
+     * Renders a list with right-aligned markers and hanging indents.
+     * Item content (including wrapped lines) starts at a fixed indent,
+     * nested lists are indented one more level.
+     * 
+     * @param doc - jsPDF document instance
+     * @param list - List node of the document tree
+     * @param x - X position of the list's left edge
+     * @param y - Y position
+     * @param depth - Nesting depth (0 for top-level lists)
+     * @returns New Y position after rendering
+     */
+    private renderList(doc: jsPDF, list: ListNode, x: number, y: number, depth: number): number {
+        const contentX = x + this.listIndent;
+        const style = this.theme.body;
+        let yPosition = y;
+        
+        list.children.forEach((item, index) => {
+            const marker = list.ordered ? `${list.start + index}.` : BULLETS[depth % BULLETS.length]!;
+            
+            yPosition = this.ensureSpace(doc, yPosition);
+            this.useStyle(doc, style);
+            this.fonts.setFont(FONT_FAMILIES[style.fontFamily], 'normal');
+            this.fonts.text(marker, contentX - 1.5, yPosition, { align: 'right' });
+            
+            item.children.forEach(child => {
+                if (child.type === 'list') {
+                    yPosition = this.renderList(doc, child, contentX, yPosition, depth + 1);
+                } else if (child.type === 'paragraph') {
+                    const runs = flattenInline(child.children, { bold: style.bold, italic: style.italic });
+                    this.useStyle(doc, style);
+                    yPosition = this.renderParagraphWithFormatting(doc, runs, contentX, yPosition, this.lineHeight);
+                }
+            });
+        });
+        
+        return yPosition;
+    }
+
+    /**
+     * Starts a new page if the Y position is past the bottom margin.
+     * 
+     * @param doc - jsPDF document instance
+     * @param y - Y position
+     * @returns Y position on the current or new page
+     */
+    private ensureSpace(doc: jsPDF, y: number): number {
+        if (y > this.pageBottom(doc)) {
+            doc.addPage();
+            return this.options.margins.top;
+        }
+        return y;
+    }
+
+    /**
+     * Y position of the bottom margin.
+     * 
+     * @param doc - jsPDF document instance
+     * @returns Lowest Y position content may reach
+     */
+    private pageBottom(doc: jsPDF): number {
+        return doc.internal.pageSize.getHeight() - this.options.margins.bottom;
+    }
+
+    /**
+     * X position of the right margin.
+     * 
+     * @param doc - jsPDF document instance
+     * @returns Rightmost X position content may reach
+     */
+    private contentRight(doc: jsPDF): number {
+        return doc.internal.pageSize.getWidth() - this.options.margins.right;
+    }
+
+    /**
+     * Renders a paragraph with inline formatting and embedded images.
+     * Images are placed on their own line between the surrounding text.
+     * 
+     * @param doc - jsPDF document instance
+     * @param runs - Styled text runs of the paragraph
+     * @param x - X position
+     * @param y - Y position
+     * @param lineHeight - Line height for wrapping
+     * @param alignment - Alignment of the text lines
+     * @returns New Y position after rendering
+     */
+    private renderParagraphWithFormatting(
+        doc: jsPDF, runs: StyledRun[], x: number, y: number, lineHeight: number, alignment: TextAlignment = 'left',
+    ): number {
+        let currentY = y;
+        let pending: StyledRun[] = [];
+        let afterImage = false;
+        
+        const flushText = (): void => {
+            if (pending.length > 0) {
+                currentY = this.renderTextRuns(doc, pending, x, currentY, lineHeight, alignment);
+                pending = [];
+            }
+        };
+        
+        runs.forEach(run => {
+            const image = run.image ? decodeImage(run.image.url) : null;
+            
+            if (run.image && image) {
+                flushText();
+                currentY = this.renderImage(doc, image, run.image, x, currentY);
+                afterImage = true;
+            } else if (!(afterImage && run.lineBreak)) {
+                pending.push(run);
+                afterImage = false;
             }
         });
+        flushText();
         
-        doc.save('document.pdf');
-        console.log('PDFExporter: Export completed successfully');
+        return currentY;
     }
 
     /**
-     * Renders a paragraph with inline bold and italic formatting.
+     * Renders text runs with inline bold and italic formatting.
+     * Wraps at word boundaries and continues on a new page when needed.
+     * Justified text is stretched to the full width, except for lines
+     * before a line break and the last line.
      * 
      * @param doc - jsPDF document instance
-     * @param text - Text with markdown formatting
+     * @param runs - Styled text runs
      * @param x - X position
      * @param y - Y position
      * @param lineHeight - Line height for wrapping
+     * @param alignment - Alignment of the lines
      * @returns New Y position after rendering
      */
-    private renderParagraphWithFormatting(doc: jsPDF, text: string, x: number, y: number, lineHeight: number): number {
-        const segments = this.parseInlineFormatting(text);
-        let currentX = x;
+    private renderTextRuns(doc: jsPDF, runs: StyledRun[], x: number, y: number, lineHeight: number, alignment: TextAlignment): number {
+        const maxWidth = this.contentRight(doc) - x;
+        const lines = this.layoutRuns(doc, runs, maxWidth);
         let currentY = y;
-        const maxWidth = 170;
-        
-        segments.forEach(segment => {
-            // Set font style based on formatting
-            if (segment.bold) {
-                doc.setFont('helvetica', 'bold');
-            } else if (segment.italic) {
-                doc.setFont('helvetica', 'italic');
+        
+        lines.forEach((line, index) => {
+            if (index > 0) {
+                currentY = this.ensureSpace(doc, currentY + lineHeight);
+            }
+            
+            if (alignment === 'justify' && line.wrapped) {
+                this.drawLine(doc, this.justifyLine(line, maxWidth), x, currentY);
+            } else if (alignment === 'center' || alignment === 'right') {
+                const offset = maxWidth - line.width;
+                this.drawLine(doc, line, x + (alignment === 'center' ? offset / 2 : offset), currentY);
             } else {
-                doc.setFont('helvetica', 'normal');
+                this.drawLine(doc, line, x, currentY);
             }
+        });
+        
+        return currentY + lineHeight;
+    }
+
+    /**
+     * Widens the spaces of a line so it fills the given width.
+     * 
+     * @param line - Laid out line
+     * @param width - Width to fill
+     * @returns The line with its words moved apart
+     */
+    private justifyLine(line: TextLine, width: number): TextLine {
+        const gaps = line.words.slice(0, -1).filter(word => word.text.endsWith(' ')).length;
+        
+        if (gaps === 0) {
+            return line;
+        }
+        
+        const extra = (width - line.width) / gaps;
+        let shift = 0;
+        
+        return {
+            ...line,
+            width,
+            words: line.words.map(word => {
+                const moved = { ...word, x: word.x + shift };
+                if (word.text.endsWith(' ')) {
+                    shift += extra;
+                }
+                return moved;
+            }),
+        };
+    }
+
+    /**
+     * Embeds an image scaled down to the content width (and page height).
+     * Moves to a new page if the image does not fit on the current one.
+     * The alt text is printed as a caption below the image.
+     * 
+     * @param doc - jsPDF document instance
+     * @param image - Decoded image data
+     * @param node - Image node with alt text
+     * @param x - X position
+     * @param y - Y position (baseline of the current text line)
+     * @returns New Y position after rendering
+     */
+    private renderImage(doc: jsPDF, image: EmbeddedImage, node: ImageNode, x: number, y: number): number {
+        const fontSize = doc.getFontSize();
+        const captionFontSize = this.theme.body.fontSize * 0.75;
+        const captionLineHeight = captionFontSize * MM_PER_POINT * 1.3;
+        const maxWidth = this.contentRight(doc) - x;
+        
+        doc.setFontSize(captionFontSize);
+        const caption = node.alt
+            ? this.layoutRuns(doc, [{ text: node.alt, bold: false, italic: true, code: false, lineBreak: false, link: null, image: null }], maxWidth)
+            : [];
+        doc.setFontSize(fontSize);
+        
+        const captionHeight = caption.length > 0 ? 2 + caption.length * captionLineHeight : 0;
+        const maxHeight = this.pageBottom(doc) - this.options.margins.top - captionHeight;
+        const naturalWidth = image.width * MM_PER_PIXEL;
+        const naturalHeight = image.height * MM_PER_PIXEL;
+        const scale = Math.min(1, maxWidth / naturalWidth, maxHeight / naturalHeight);
+        const width = naturalWidth * scale;
+        const height = naturalHeight * scale;
+        let top = y - this.lineHeight * 0.7;
+        
+        if (top + height + captionHeight > this.pageBottom(doc)) {
+            doc.addPage();
+            top = this.options.margins.top;
+        }
+        
+        doc.addImage(image.data, IMAGE_FORMATS[image.format], x, top, width, height);
+        let bottom = top + height;
+        
+        if (caption.length > 0) {
+            doc.setFontSize(captionFontSize);
+            doc.setTextColor(110, 110, 115);
+            caption.forEach((line, index) => {
+                this.drawLine(doc, line, Math.max(x, x + (width - line.width) / 2), bottom + 2 + captionLineHeight * (index + 0.75));
+            });
+            doc.setTextColor(this.textStyle.color);
+            doc.setFontSize(fontSize);
+            bottom += captionHeight;
+        }
+        
+        return bottom + this.lineHeight;
+    }
+
+    /**
+     * Breaks styled runs into lines that fit into the given width.
+     * Measures word by word with the current font size; explicit line
+     * breaks always start a new line, and words wider than a line are
+     * broken by character. Line widths leave out the space after the last
+     * word.
+     * 
+     * @param doc - jsPDF document instance (font size must already be set)
+     * @param runs - Styled text runs
+     * @param maxWidth - Available line width
+     * @returns Lines of positioned words
+     */
+    private layoutRuns(doc: jsPDF, runs: StyledRun[], maxWidth: number): TextLine[] {
+        const lines: TextLine[] = [{ words: [], width: 0, wrapped: false }];
+        let current = lines[0]!;
+        
+        const newLine = (): void => {
+            current = { words: [], width: 0, wrapped: false };
+            lines.push(current);
+        };
+        
+        runs.map(run => this.withoutImage(run)).forEach(run => {
+            if (run.lineBreak) {
+                newLine();
+                return;
+            }
+            
+            // Set font based on formatting
+            const font = this.fontName(run);
+            const fontStyle = this.fontStyle(run);
+            this.fonts.setFont(font, fontStyle);
             
-            const words = segment.text.split(' ');
+            const words = run.text.split(' ');
             
             words.forEach((word, index) => {
                 const wordWithSpace = index < words.length - 1 ? word + ' ' : word;
-                const wordWidth = doc.getTextWidth(wordWithSpace);
+                const wordWidth = this.fonts.getTextWidth(wordWithSpace);
                 
                 // Check if we need to wrap to next line
-                if (currentX + wordWidth > x + maxWidth) {
-                    currentX = x;
-                    currentY += lineHeight;
+                if (current.width + wordWidth > maxWidth && current.width > 0) {
+                    current.wrapped = true;
+                    newLine();
                 }
                 
-                doc.text(wordWithSpace, currentX, currentY);
-                currentX += wordWidth;
+                // Words wider than a whole line are broken by character
+                const pieces = wordWidth > maxWidth ? this.breakWord(wordWithSpace, maxWidth) : [{ text: wordWithSpace, width: wordWidth }];
+                
+                pieces.forEach((piece, pieceIndex) => {
+                    if (pieceIndex > 0) {
+                        current.wrapped = true;
+                        newLine();
+                    }
+                    current.words.push({ text: piece.text, font, fontStyle, link: run.link, x: current.width, width: piece.width });
+                    current.width += piece.width;
+                });
             });
         });
         
-        return currentY + lineHeight;
+        lines.forEach(line => {
+            const last = line.words[line.words.length - 1];
+            if (last?.text.endsWith(' ')) {
+                this.fonts.setFont(last.font, last.fontStyle);
+                line.width -= this.fonts.getTextWidth(' ');
+            }
+        });
+        
+        return lines;
     }
 
     /**
-     * Parses inline formatting (bold and italic) from text.
+     * Breaks a word that is wider than a line into pieces that fit, in
+     * the current font. A trailing space stays on the last piece.
      * 
-     * @param text - Text potentially containing **bold** or *italic*
-     * @returns Array of text segments with formatting information
+     * @param word - Word, possibly followed by a space
+     * @param maxWidth - Available line width
+     * @returns Pieces of the word with their widths
      */
-    private parseInlineFormatting(text: string): Array<{ text: string; bold?: boolean; italic?: boolean }> {
-        const segments: Array<{ text: string; bold?: boolean; italic?: boolean }> = [];
-        let remaining = text;
+    private breakWord(word: string, maxWidth: number): Array<{ text: string; width: number }> {
+        const pieces = [{ text: '', width: 0 }];
         
-        while (remaining.length > 0) {
-            // Look for bold (**text**)
-            const boldMatch = remaining.match(/\*\*(.+?)\*\*/);
-            // Look for italic (*text*) but not bold
-            const italicMatch = remaining.match(/(?<!\*)\*(?!\*)(.+?)(?<!\*)\*(?!\*)/);
+        [...word].forEach(char => {
+            const charWidth = this.fonts.getTextWidth(char);
+            let piece = pieces[pieces.length - 1]!;
             
-            let nextMatch = null;
-            let isBold = false;
+            if (piece.text !== '' && char !== ' ' && piece.width + charWidth > maxWidth) {
+                piece = { text: '', width: 0 };
+                pieces.push(piece);
+            }
+            piece.text += char;
+            piece.width += charWidth;
+        });
+        
+        return pieces;
+    }
+
+    /**
+     * Draws a laid out line at the given baseline position.
+     * 
+     * @param doc - jsPDF document instance
+     * @param line - Line of positioned words
+     * @param x - X position of the line start
+     * @param y - Y position of the baseline
+     */
+    private drawLine(doc: jsPDF, line: TextLine, x: number, y: number): void {
+        line.words.forEach(word => {
+            this.fonts.setFont(word.font, word.fontStyle);
             
-            if (boldMatch && (!italicMatch || boldMatch.index! <= italicMatch.index!)) {
-                nextMatch = boldMatch;
-                isBold = true;
-            } else if (italicMatch) {
-                nextMatch = italicMatch;
-                isBold = false;
+            if (word.link) {
+                const height = doc.getFontSize() * MM_PER_POINT;
+                doc.setTextColor(this.theme.linkColor);
+                this.fonts.text(word.text, x + word.x, y);
+                doc.link(x + word.x, y - height * 0.8, word.width, height, { url: word.link });
+                doc.setTextColor(this.textStyle.color);
+            } else {
+                this.fonts.text(word.text, x + word.x, y);
             }
+        });
+    }
+
+    /**
+     * Renders a table with borders, shaded header row and wrapped cell text.
+     * Rows that do not fit on the page move to the next page, where the
+     * header row is repeated. Rows taller than a page are split between
+     * their text lines.
+     * 
+     * @param doc - jsPDF document instance
+     * @param table - Table node of the document tree
+     * @param x - X position of the table's left edge
+     * @param y - Y position (baseline of the preceding text flow)
+     * @returns New Y position after rendering
+     */
+    private renderTable(doc: jsPDF, table: TableNode, x: number, y: number): number {
+        const padding = 2;
+        const style = this.theme.table;
+        const lineHeight = style.fontSize * MM_PER_POINT * 1.35;
+        const available = this.contentRight(doc) - x;
+        
+        this.useStyle(doc, style);
+        const runs = table.children.map(row =>
+            row.children.map(cell => flattenInline(cell.children, { bold: row.header || style.bold, italic: style.italic }))
+        );
+        const widths = this.tableColumnWidths(doc, runs, available, padding);
+        
+        const layouts = runs.map(cells => {
+            const lines = cells.map((cellRuns, column) =>
+                this.layoutRuns(doc, cellRuns, widths[column]! - padding * 2)
+            );
+            const lineCount = Math.max(...lines.map(cell => cell.length));
+            return { lines, lineCount, height: lineCount * lineHeight + padding * 2 };
+        });
+        
+        // Draws the text lines from (inclusive) to to (exclusive) of a row
+        const drawRow = (rowIndex: number, top: number, from = 0, to = layouts[rowIndex]!.lineCount): number => {
+            const row = table.children[rowIndex]!;
+            const height = (to - from) * lineHeight + padding * 2;
+            let cellX = x;
             
-            if (nextMatch && nextMatch.index !== undefined && nextMatch[1]) {
-                // Add text before the match
-                if (nextMatch.index > 0) {
-                    segments.push({ text: remaining.substring(0, nextMatch.index) });
-                }
+            layouts[rowIndex]!.lines.forEach((cellLines, column) => {
+                const width = widths[column]!;
                 
-                // Add formatted text
-                if (isBold) {
-                    segments.push({ text: nextMatch[1]!, bold: true });
+                if (row.header) {
+                    doc.setFillColor(style.headerBackground);
+                    doc.rect(cellX, top, width, height, 'FD');
                 } else {
-                    segments.push({ text: nextMatch[1]!, italic: true });
+                    doc.rect(cellX, top, width, height, 'S');
                 }
                 
-                // Continue with remaining text
-                remaining = remaining.substring(nextMatch.index + nextMatch[0].length);
-            } else {
-                // No more formatting, add remaining text
-                if (remaining.length > 0) {
-                    segments.push({ text: remaining });
+                cellLines.slice(from, to).forEach((line, lineIndex) => {
+                    const baseline = top + padding + lineHeight * (lineIndex + 0.75);
+                    const align = table.align[column];
+                    let lineX = cellX + padding;
+                    
+                    if (align === 'right') {
+                        lineX = cellX + width - padding - line.width;
+                    } else if (align === 'center') {
+                        lineX = cellX + (width - line.width) / 2;
+                    }
+                    this.drawLine(doc, line, lineX, baseline);
+                });
+                cellX += width;
+            });
+            
+            return top + height;
+        };
+        
+        const pageBottom = this.pageBottom(doc);
+        const hasHeader = table.children[0]?.header === true;
+        let top = y - this.lineHeight * 0.7;
+        
+        doc.setDrawColor(style.borderColor);
+        doc.setLineWidth(0.2);
+        
+        const newPage = (rowIndex: number): void => {
+            doc.addPage();
+            top = this.options.margins.top;
+            
+            // Repeat the header row on the new page
+            if (hasHeader && rowIndex > 0) {
+                top = drawRow(0, top);
+            }
+        };
+        
+        table.children.forEach((_, rowIndex) => {
+            const { lineCount, height } = layouts[rowIndex]!;
+            
+            if (top + height > pageBottom && top > this.options.margins.top) {
+                newPage(rowIndex);
+            }
+            
+            let from = 0;
+            
+            for (;;) {
+                const fit = Math.max(1, Math.floor((pageBottom - top - padding * 2) / lineHeight));
+                const to = Math.min(lineCount, from + fit);
+                
+                top = drawRow(rowIndex, top, from, to);
+                from = to;
+                if (from >= lineCount) {
+                    break;
                 }
-                break;
+                newPage(rowIndex);
             }
+        });
+        
+        doc.setDrawColor(0, 0, 0);
+        return top + this.lineHeight;
+    }
+
+    /**
+     * Computes table column widths that fill the available width.
+     * Every column gets at least its longest word, up to an equal share of
+     * the width (longer words are broken); the remaining space is
+     * distributed in proportion to how much more each column would need to
+     * show its content on a single line.
+     * 
+     * @param doc - jsPDF document instance (font size must already be set)
+     * @param rows - Styled runs per cell, row by row
+     * @param available - Available table width
+     * @param padding - Horizontal cell padding
+     * @returns Width per column
+     */
+    private tableColumnWidths(doc: jsPDF, rows: StyledRun[][][], available: number, padding: number): number[] {
+        const columns = rows[0]?.length ?? 0;
+        const share = available / Math.max(columns, 1);
+        const minimum = new Array<number>(columns).fill(padding * 2 + 5);
+        const natural = new Array<number>(columns).fill(padding * 2 + 5);
+        
+        rows.forEach(cells => cells.forEach((cellRuns, column) => {
+            let lineWidth = 0;
+            
+            cellRuns.forEach(run => {
+                this.fonts.setFont(this.fontName(run), this.fontStyle(run));
+                run.text.split(' ').forEach(word => {
+                    const wordWidth = this.fonts.getTextWidth(word) + padding * 2;
+                    minimum[column] = Math.max(minimum[column]!, Math.min(wordWidth, share));
+                });
+                lineWidth += this.fonts.getTextWidth(run.text);
+            });
+            natural[column] = Math.max(natural[column]!, lineWidth + padding * 2);
+        }));
+        
+        const naturalTotal = natural.reduce((sum, width) => sum + width, 0);
+        
+        if (naturalTotal <= available) {
+            return natural.map(width => width * (available / naturalTotal));
+        }
+        
+        const minimumTotal = minimum.reduce((sum, width) => sum + width, 0);
+        
+        if (minimumTotal >= available) {
+            return minimum.map(width => width * (available / minimumTotal));
         }
         
-        return segments;
+        const extra = natural.map((width, column) => width - minimum[column]!);
+        const extraTotal = extra.reduce((sum, width) => sum + width, 0);
+        
+        return minimum.map((width, column) => width + (available - minimumTotal) * (extra[column]! / extraTotal));
     }
 
     /**
-     * Parses markdown content into structured lines with types.
-     * Preserves inline formatting markers.
+     * Renders a code block verbatim on a shaded background.
+     * Lines are never re-flowed; only lines wider than the page are broken
+     * at the last fitting character. The shading is split across pages.
      * 
-     * @param content - Markdown formatted text
-     * @returns Array of parsed lines with type information
+     * @param doc - jsPDF document instance
+     * @param code - Code block node of the document tree
+     * @param x - X position of the block's left edge
+     * @param y - Y position (baseline of the preceding text flow)
+     * @returns New Y position after rendering
      */
-    private parseMarkdown(content: string): Array<{ type: string; text: string }> {
-        const lines = content.split('\n');
-        const parsed: Array<{ type: string; text: string }> = [];
+    private renderCodeBlock(doc: jsPDF, code: CodeBlockNode, x: number, y: number): number {
+        const padding = 3;
+        const style = this.theme.code;
+        const lineHeight = style.fontSize * MM_PER_POINT * 1.3;
+        const width = this.contentRight(doc) - x;
+        const pageBottom = this.pageBottom(doc);
         
-        lines.forEach(line => {
-            const trimmed = line.trim();
-            
-            if (!trimmed) {
-                parsed.push({ type: 'empty', text: '' });
-            } else if (trimmed.startsWith('# ')) {
-                const text = trimmed.substring(2);
-                // Strip formatting from headings for simplicity
-                parsed.push({ type: 'h1', text: text.replace(/\*\*(.*?)\*\*/g, '$1').replace(/\*(.*?)\*/g, '$1') });
-            } else if (trimmed.startsWith('## ')) {
-                const text = trimmed.substring(3);
-                // Strip formatting from headings for simplicity
-                parsed.push({ type: 'h2', text: text.replace(/\*\*(.*?)\*\*/g, '$1').replace(/\*(.*?)\*/g, '$1') });
-            } else {
-                // Keep formatting for paragraphs
-                parsed.push({ type: 'paragraph', text: trimmed });
+        this.useStyle(doc, style);
+        this.fonts.setFont(FONT_FAMILIES[style.fontFamily], this.fontStyle(style));
+        
+        const perLine = Math.max(1, Math.floor((width - padding * 2) / this.fonts.getTextWidth('M')));
+        const lines = code.value.replace(/\t/g, '    ').split('\n').flatMap(line => {
+            const chars = [...line];
+            const chunks: string[] = [];
+            for (let start = 0; start < chars.length; start += perLine) {
+                chunks.push(chars.slice(start, start + perLine).join(''));
             }
+            return chunks.length > 0 ? chunks : [''];
         });
         
-        return parsed;
+        let top = y - this.lineHeight * 0.7;
+        let index = 0;
+        
+        doc.setFillColor(style.background);
+        
+        while (index < lines.length) {
+            if (top + padding * 2 + lineHeight > pageBottom) {
+                doc.addPage();
+                top = this.options.margins.top;
+            }
+            
+            const fit = Math.max(1, Math.floor((pageBottom - top - padding * 2) / lineHeight));
+            const chunk = lines.slice(index, index + fit);
+            const height = chunk.length * lineHeight + padding * 2;
+            
+            doc.rect(x, top, width, height, 'F');
+            chunk.forEach((line, lineIndex) => {
+                this.fonts.text(line, x + padding, top + padding + lineHeight * (lineIndex + 0.75));
+            });
+            
+            index += chunk.length;
+            top += height;
+        }
+        
+        return top + this.lineHeight;
+    }
+
+    /**
+     * Replaces an image run with a text run where images cannot be placed
+     * (tables, images without embedded data). The alt text links to the
+     * image source unless the source is a data URI.
+     * 
+     * @param run - Styled text run
+     * @returns Text-only run
+     */
+    private withoutImage(run: StyledRun): StyledRun {
+        if (!run.image) {
+            return run;
+        }
+        
+        this.diagnostics.addImageNotEmbedded(run.image, 'PDF');
+        const isData = run.image.url.startsWith('data:');
+        return {
+            ...run,
+            image: null,
+            text: run.text || (isData ? '[image]' : run.image.url),
+            link: isData ? run.link : run.image.url,
+        };
+    }
+
+    /**
+     * Maps run formatting to a jsPDF font family: code uses the code
+     * font of the theme, other text the font of the current style.
+     * 
+     * @param run - Styled text run
+     * @returns jsPDF font name
+     */
+    private fontName(run: StyledRun): string {
+        return FONT_FAMILIES[run.code ? this.theme.code.fontFamily : this.textStyle.fontFamily];
+    }
+
+    /**
+     * Maps run or style formatting to a jsPDF font style.
+     * 
+     * @param run - Styled text run or text style
+     * @returns jsPDF font style name
+     */
+    private fontStyle(run: { bold: boolean; italic: boolean }): PdfFontStyle {
+        if (run.bold && run.italic) {
+            return 'bolditalic';
+        }
+        if (run.bold) {
+            return 'bold';
+        }
+        return run.italic ? 'italic' : 'normal';
     }
 }
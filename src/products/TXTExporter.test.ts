@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { TXTExporter } from './TXTExporter';
+
+describe('TXTExporter', () => {
+    it('reports each lost kind of formatting once, after the warnings', async () => {
+        const markdown = Array.from({ length: 20 }, (_, index) => `## Part ${index}\n\nSome **bold** and *italic* text ![chart](http://x/${index}.png)`).join('\n\n');
+        const result = await new TXTExporter().export(markdown);
+
+        expect(result.diagnostics?.map(diagnostic => [diagnostic.severity, diagnostic.code, diagnostic.lines.length])).toEqual([
+            ['warning', 'image-not-embedded', 20],
+            ['info', 'formatting-lost', 0],
+            ['info', 'formatting-lost', 0],
+        ]);
+    });
+});
@@ -1,4 +1,14 @@
-import { DocumentExporter } from '../interfaces';
+import type { DocumentExporter, ExportControl, ExportOptions, ExportResult } from '../interfaces';
+import { MarkdownParser } from '../parser';
+import type { BlockNode, DocumentNode, InlineNode, ListNode, TableAlign, TableNode } from '../parser';
+import { documentFilename, resolveExportOptions } from '../options';
+import { DiagnosticCollector, renderWithProgress } from '../utils';
+import { toExportError } from '../errors';
+
+/**
+ * MIME type of the generated files, also listed in the format of the factory.
+ */
+export const TXT_MIME_TYPE = 'text/plain;charset=utf-8';
 
 /**
  * Concrete Product - TXTExporter
@@ -8,65 +18,207 @@ import { DocumentExporter } from '../interfaces';
  * 
  * TXTExporter strips all Markdown formatting and exports plain text.
  * It removes:
- * - Heading markers (# and ##)
+ * - Heading markers (# to ######)
  * - Bold formatting (**)
  * - Italic formatting (*)
+ * 
+ * Lists are kept with normalized markers ("-" or sequential numbers) and
+ * hanging indentation for wrapped and nested content. Tables are drawn as
+ * aligned ASCII-art grids. Code is kept verbatim, including any * characters.
+ * Links are written as "text (url)", images as "[Image: alt]".
+ * The front matter is not part of the text. Everything that is lost is
+ * reported in the result's diagnostics, each lost kind of formatting once.
+ * 
+ * Of the export options only the filename applies to plain text.
  */
 export class TXTExporter implements DocumentExporter {
+    private parser = new MarkdownParser();
+    private readonly options: ExportOptions;
+    private diagnostics = new DiagnosticCollector();
+    private lostFormatting = new Set<string>();
+
+    /**
+     * @param options - Export options; missing values fall back to the defaults
+     */
+    constructor(options: Partial<ExportOptions> = {}) {
+        this.options = resolveExportOptions(options);
+    }
+
     /**
      * Exports markdown content as plain text (.txt file).
      * Removes all markdown formatting syntax.
      * 
      * @param content - Markdown formatted text
+     * @param control - Optional progress callback and abort signal
+     * @returns The generated text file as UTF-8 bytes
+     * @throws ExportError if the export fails or is aborted
      */
-    export(content: string): void {
+    async export(content: string, control: ExportControl = {}): Promise<ExportResult> {
         console.log('TXTExporter: Starting plain text export...');
         
-        const plainText = this.stripMarkdown(content);
-        this.downloadFile(plainText, 'document.txt', 'text/plain');
-        
-        console.log('TXTExporter: Export completed successfully');
+        try {
+            const result = await this.generate(content, control);
+            console.log('TXTExporter: Export completed successfully');
+            return result;
+        } catch (error) {
+            throw toExportError(error, 'TXT');
+        }
     }
 
     /**
-     * Strips all Markdown formatting from the content.
-     * Removes heading markers, bold, and italic syntax.
+     * Generates the text file.
      * 
      * @param content - Markdown formatted text
-     * @returns Plain text without formatting
+     * @param control - Progress callback and abort signal
+     * @returns The generated text file with its diagnostics
      */
-    private stripMarkdown(content: string): string {
-        let text = content;
-        
-        // Remove heading markers (# and ##)
-        text = text.replace(/^#{1,2}\s+/gm, '');
-        
-        // Remove bold formatting (**)
-        text = text.replace(/\*\*(.*?)\*\*/g, '$1');
+    private async generate(content: string, control: ExportControl): Promise<ExportResult> {
+        const tree = this.parser.parse(content);
+        this.diagnostics = new DiagnosticCollector();
+        this.diagnostics.addUnsupportedSyntax(tree, 'TXT');
+        this.lostFormatting = new Set();
         
-        // Remove italic formatting (*)
-        text = text.replace(/\*(.*?)\*/g, '$1');
+        const plainText = await this.stripMarkdown(tree, control);
+        this.lostFormatting.forEach(message => this.diagnostics.add('info', 'formatting-lost', message));
         
-        return text.trim();
+        return {
+            data: new TextEncoder().encode(plainText),
+            mimeType: TXT_MIME_TYPE,
+            filename: `${documentFilename(this.options.filename, tree.metadata)}.txt`,
+            diagnostics: this.diagnostics.toArray(),
+        };
     }
 
     /**
-     * Creates a downloadable file using Blob and triggers browser download.
+     * Strips all Markdown formatting from the content.
+     * Renders the parsed document tree as plain text, one block per paragraph.
      * 
-     * @param content - File content
-     * @param filename - Name of the file to download
-     * @param mimeType - MIME type of the file
+     * @param tree - Parsed document tree
+     * @param control - Progress callback and abort signal
+     * @returns Plain text without formatting
      */
-    private downloadFile(content: string, filename: string, mimeType: string): void {
-        const blob = new Blob([content], { type: mimeType });
-        const url = URL.createObjectURL(blob);
-        
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = filename;
-        link.click();
-        
-        // Clean up the URL object
-        URL.revokeObjectURL(url);
+    private async stripMarkdown(tree: DocumentNode, control: ExportControl): Promise<string> {
+        const blocks = await renderWithProgress(tree.children, block => this.renderBlock(block), control);
+        return blocks.join('\n\n');
+    }
+
+    /**
+     * Renders a single block as plain text.
+     * 
+     * @param block - Block node of the document tree
+     * @returns Plain text of the block
+     */
+    private renderBlock(block: BlockNode): string {
+        switch (block.type) {
+            case 'heading':
+                this.lostFormatting.add('headings not supported in TXT, output as plain lines');
+                return this.renderInline(block.children);
+            case 'paragraph':
+                return this.renderInline(block.children);
+            case 'list':
+                return this.renderList(block);
+            case 'table':
+                this.lostFormatting.add('table syntax not supported in TXT, output as a text grid');
+                return this.renderTable(block);
+            case 'code':
+                return block.value;
+        }
+    }
+
+    /**
+     * Renders a table as an ASCII-art grid with aligned columns.
+     * 
+     * @param table - Table node of the document tree
+     * @returns Plain text of the table
+     */
+    private renderTable(table: TableNode): string {
+        const rows = table.children.map(row =>
+            row.children.map(cell => this.renderInline(cell.children).replace(/\n/g, ' '))
+        );
+        const widths = table.align.map((_, column) =>
+            Math.max(3, ...rows.map(cells => [...cells[column]!].length))
+        );
+        const border = (fill: string): string => `+${widths.map(width => fill.repeat(width + 2)).join('+')}+`;
+        const line = (cells: string[]): string =>
+            `|${cells.map((cell, column) => ` ${this.pad(cell, widths[column]!, table.align[column]!)} `).join('|')}|`;
+
+        const [header = [], ...body] = rows;
+        return [
+            border('-'),
+            line(header),
+            border('='),
+            ...body.map(line),
+            ...(body.length > 0 ? [border('-')] : []),
+        ].join('\n');
+    }
+
+    /**
+     * Pads text to a fixed width according to column alignment.
+     * 
+     * @param text - Cell text
+     * @param width - Column width in characters
+     * @param align - Column alignment
+     * @returns Padded text
+     */
+    private pad(text: string, width: number, align: TableAlign): string {
+        const space = width - [...text].length;
+
+        if (align === 'right') {
+            return ' '.repeat(space) + text;
+        }
+        if (align === 'center') {
+            const left = Math.floor(space / 2);
+            return ' '.repeat(left) + text + ' '.repeat(space - left);
+        }
+        return text + ' '.repeat(space);
+    }
+
+    /**
+     * Renders inline nodes as plain text.
+     * 
+     * @param nodes - Inline nodes of a block
+     * @returns Plain text with links as "text (url)"
+     */
+    private renderInline(nodes: InlineNode[]): string {
+        return nodes.map(node => {
+            switch (node.type) {
+                case 'text':
+                case 'inlineCode':
+                    return node.value;
+                case 'strong':
+                case 'emphasis':
+                    this.lostFormatting.add('bold and italic not supported in TXT, output as plain text');
+                    return this.renderInline(node.children);
+                case 'link': {
+                    const text = this.renderInline(node.children);
+                    return text && text !== node.url ? `${text} (${node.url})` : node.url;
+                }
+                case 'image': {
+                    this.diagnostics.add('warning', 'image-not-embedded', 'images not supported in TXT, output as "[Image: alt]"', node.position);
+                    const label = `[Image${node.alt ? `: ${node.alt}` : ''}]`;
+                    // Embedded image data is useless in plain text, only keep real URLs
+                    return node.url.startsWith('data:') ? label : `${label} (${node.url})`;
+                }
+                case 'break':
+                    return '\n';
+            }
+        }).join('');
+    }
+
+    /**
+     * Renders a list with normalized markers. Continuation lines and nested
+     * lists are indented to the item content.
+     * 
+     * @param list - List node of the document tree
+     * @returns Plain text of the list
+     */
+    private renderList(list: ListNode): string {
+        return list.children.map((item, index) => {
+            const marker = list.ordered ? `${list.start + index}.` : '-';
+            const indent = ' '.repeat(marker.length + 1);
+            const body = item.children.map(child => this.renderBlock(child)).join('\n');
+
+            return `${marker} ${body.split('\n').join(`\n${indent}`)}`;
+        }).join('\n');
     }
 }
@@ -1,3 +1,8 @@
-export { DOCXExporter } from './DOCXExporter';
-export { PDFExporter } from './PDFExporter';
-export { TXTExporter } from './TXTExporter';
\ No newline at end of file
+export { DOCXExporter, DOCX_MIME_TYPE } from './DOCXExporter';
+export { EPUBExporter, EPUB_MIME_TYPE } from './EPUBExporter';
+export { HTMLExporter, HTML_MIME_TYPE } from './HTMLExporter';
+export { LaTeXExporter, LATEX_MIME_TYPE } from './LaTeXExporter';
+export { PDFExporter, PDF_MIME_TYPE } from './PDFExporter';
+export { TXTExporter, TXT_MIME_TYPE } from './TXTExporter';
+export { DOCXImporter } from './DOCXImporter';
+export { HTMLImporter } from './HTMLImporter';
\ No newline at end of file
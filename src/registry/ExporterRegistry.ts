@@ -0,0 +1,65 @@
+import type { ExporterFactory, ExportFormat } from '../interfaces';
+import { DuplicateFormatError, UnknownFormatError } from '../errors';
+
+/**
+ * ExporterRegistry
+ * 
+ * Central lookup of all available ExporterFactory instances, keyed by the
+ * format id each factory describes itself with. The client resolves
+ * factories through the registry instead of a hard-coded switch, so a new
+ * format only has to register its factory to become available everywhere.
+ */
+export class ExporterRegistry {
+    private factories = new Map<string, ExporterFactory>();
+
+    /**
+     * Registers a factory under its format id.
+     * 
+     * @param factory - Factory to register
+     * @returns The registry itself, for chaining
+     * @throws DuplicateFormatError if the format id is already registered
+     */
+    register(factory: ExporterFactory): this {
+        const id = factory.format.id.toLowerCase();
+
+        if (this.factories.has(id)) {
+            throw new DuplicateFormatError(id);
+        }
+
+        this.factories.set(id, factory);
+        return this;
+    }
+
+    /**
+     * Looks up the factory for a format id (case-insensitive).
+     * 
+     * @param formatId - Format id such as 'pdf'
+     * @returns The registered factory
+     * @throws UnknownFormatError if no factory is registered for the id
+     */
+    get(formatId: string): ExporterFactory {
+        const factory = this.factories.get(formatId.toLowerCase());
+
+        if (!factory) {
+            throw new UnknownFormatError(formatId, [...this.factories.keys()]);
+        }
+
+        return factory;
+    }
+
+    /**
+     * Checks whether a factory is registered for a format id.
+     * 
+     * @param formatId - Format id such as 'pdf'
+     */
+    has(formatId: string): boolean {
+        return this.factories.has(formatId.toLowerCase());
+    }
+
+    /**
+     * Metadata of all registered formats, in registration order.
+     */
+    formats(): ExportFormat[] {
+        return [...this.factories.values()].map(factory => factory.format);
+    }
+}
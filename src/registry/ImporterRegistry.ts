@@ -0,0 +1,85 @@
+import type { ImporterFactory, ImportFormat } from '../interfaces';
+import { DuplicateFormatError } from '../errors';
+
+/**
+ * Thrown when a file is imported that no importer accepts.
+ */
+export class UnsupportedImportError extends Error {
+    constructor(readonly filename: string, readonly knownExtensions: string[]) {
+        super(`Cannot import "${filename}". Supported files: ${knownExtensions.map(extension => `.${extension}`).join(', ') || 'none'}`);
+        this.name = 'UnsupportedImportError';
+    }
+}
+
+/**
+ * ImporterRegistry
+ * 
+ * Central lookup of all available ImporterFactory instances, the importer
+ * counterpart of the ExporterRegistry. Files are matched to a factory by
+ * their extension, so a new import format only has to register its factory.
+ */
+export class ImporterRegistry {
+    private factories = new Map<string, ImporterFactory>();
+
+    /**
+     * Registers a factory under its format id.
+     * 
+     * @param factory - Factory to register
+     * @returns The registry itself, for chaining
+     * @throws DuplicateFormatError if the format id is already registered
+     */
+    register(factory: ImporterFactory): this {
+        const id = factory.format.id.toLowerCase();
+
+        if (this.factories.has(id)) {
+            throw new DuplicateFormatError(id);
+        }
+
+        this.factories.set(id, factory);
+        return this;
+    }
+
+    /**
+     * Looks up the factory for a file by its extension (case-insensitive).
+     * 
+     * @param filename - Name of the file to import
+     * @returns The registered factory
+     * @throws UnsupportedImportError if no factory accepts the extension
+     */
+    forFile(filename: string): ImporterFactory {
+        const factory = this.find(filename);
+
+        if (!factory) {
+            throw new UnsupportedImportError(filename, this.formats().flatMap(format => format.extensions));
+        }
+
+        return factory;
+    }
+
+    /**
+     * Checks whether a file can be imported.
+     * 
+     * @param filename - Name of the file
+     */
+    accepts(filename: string): boolean {
+        return this.find(filename) !== undefined;
+    }
+
+    /**
+     * Metadata of all registered formats, in registration order.
+     */
+    formats(): ImportFormat[] {
+        return [...this.factories.values()].map(factory => factory.format);
+    }
+
+    /**
+     * Finds the factory whose format lists the extension of a file.
+     * 
+     * @param filename - Name of the file
+     * @returns The factory, or undefined
+     */
+    private find(filename: string): ImporterFactory | undefined {
+        const extension = /\.([^./\\]+)$/.exec(filename)?.[1]?.toLowerCase() ?? '';
+        return [...this.factories.values()].find(factory => factory.format.extensions.includes(extension));
+    }
+}
@@ -0,0 +1,27 @@
+import { ExporterRegistry } from './ExporterRegistry';
+import { ImporterRegistry } from './ImporterRegistry';
+import {
+    TXTExporterFactory, PDFExporterFactory, DOCXExporterFactory, HTMLExporterFactory, EPUBExporterFactory, LaTeXExporterFactory,
+    DOCXImporterFactory, HTMLImporterFactory,
+} from '../factories';
+
+/**
+ * Default registry with all built-in export formats.
+ * 
+ * To add a format, register its factory here - the format selection in the
+ * UI is generated from this registry.
+ */
+export const exporterRegistry = new ExporterRegistry()
+    .register(new TXTExporterFactory())
+    .register(new PDFExporterFactory())
+    .register(new DOCXExporterFactory())
+    .register(new HTMLExporterFactory())
+    .register(new EPUBExporterFactory())
+    .register(new LaTeXExporterFactory());
+
+/**
+ * Default registry with all built-in import formats.
+ */
+export const importerRegistry = new ImporterRegistry()
+    .register(new DOCXImporterFactory())
+    .register(new HTMLImporterFactory());
@@ -0,0 +1,5 @@
+export { ExporterRegistry } from './ExporterRegistry';
+// The registry errors are part of the ExportError hierarchy; re-exported for existing imports
+export { UnknownFormatError, DuplicateFormatError } from '../errors';
+export { ImporterRegistry, UnsupportedImportError } from './ImporterRegistry';
+export { exporterRegistry, importerRegistry } from './defaultRegistry';
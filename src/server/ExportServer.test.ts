@@ -0,0 +1,172 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { request } from 'node:http';
+import { Worker } from 'node:worker_threads';
+import { ExportServer } from './ExportServer';
+import type { ExportServerSettings, ExportThreadFactory } from './ExportServer';
+import { TXTExporter } from '../products';
+
+/**
+ * Export thread that never finishes, like an exporter stuck in layout.
+ */
+const hangingThread: ExportThreadFactory = job => new Worker('for (;;) {}', { eval: true, workerData: job });
+
+/**
+ * Export thread that answers with the content as text file right away.
+ */
+const echoThread: ExportThreadFactory = job => new Worker(`
+    const { parentPort, workerData } = require('node:worker_threads');
+    parentPort.postMessage({
+        type: 'result',
+        result: { data: new TextEncoder().encode(workerData.content), mimeType: 'text/plain;charset=utf-8', filename: 'echo.txt', diagnostics: [] },
+    });
+`, { eval: true, workerData: job });
+
+let server: ExportServer | null = null;
+
+/**
+ * Starts a server on a free port.
+ *
+ * @param settings - Limits of the server
+ * @param createThread - Starts the thread of an export
+ * @returns Base URL of the server
+ */
+async function start(settings: Partial<ExportServerSettings>, createThread: ExportThreadFactory = echoThread): Promise<string> {
+    server = new ExportServer(settings, createThread);
+    const address = await server.listen(0, '127.0.0.1');
+    return `http://127.0.0.1:${address.port}`;
+}
+
+/**
+ * Posts Markdown to the export endpoint.
+ */
+function post(url: string, body = '# Hello', type = 'text/markdown'): Promise<Response> {
+    return fetch(url, { method: 'POST', body, headers: { 'Content-Type': type } });
+}
+
+/**
+ * Posts Markdown to the export endpoint in chunks, without Content-Length.
+ *
+ * @returns Status code and body of the response
+ */
+function postChunked(url: string, chunks: string[]): Promise<[number, string]> {
+    return new Promise((resolve, reject) => {
+        const outgoing = request(url, { method: 'POST', headers: { 'Content-Type': 'text/markdown' } }, response => {
+            let body = '';
+            response.setEncoding('utf-8').on('data', (text: string) => (body += text));
+            response.on('end', () => resolve([response.statusCode ?? 0, body]));
+        });
+        outgoing.on('error', reject);
+        chunks.forEach(chunk => outgoing.write(chunk));
+        outgoing.end();
+    });
+}
+
+/**
+ * Reads the error code of a JSON error response.
+ */
+async function errorCode(response: Response): Promise<string> {
+    return ((await response.json()) as { error: { code: string } }).error.code;
+}
+
+afterEach(async () => {
+    await server?.close();
+    server = null;
+});
+
+describe('ExportServer', () => {
+    it('returns the exported file with its headers', async () => {
+        const base = await start({});
+        const response = await post(`${base}/export?format=txt`, 'Hi');
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toBe('text/plain;charset=utf-8');
+        expect(response.headers.get('content-disposition')).toBe('attachment; filename="echo.txt"');
+        expect(await response.text()).toBe('Hi');
+    });
+
+    it('lists the MIME type the exporter returns', async () => {
+        const base = await start({});
+        const { formats } = await (await fetch(`${base}/formats`)).json() as { formats: Array<{ id: string; mimeType: string }> };
+        const result = await new TXTExporter().export('Hi');
+
+        expect(formats.find(format => format.id === 'txt')?.mimeType).toBe(result.mimeType);
+    });
+
+    it('answers a slow export with TIMEOUT and frees its slot', async () => {
+        let started = 0;
+        const base = await start({ timeout: 300, maxConcurrent: 1 }, job => {
+            started++;
+            return started === 1 ? hangingThread(job) : echoThread(job);
+        });
+        const begin = Date.now();
+        const response = await post(`${base}/export?format=pdf`);
+
+        expect(response.status).toBe(503);
+        expect(await errorCode(response)).toBe('TIMEOUT');
+        expect(Date.now() - begin).toBeLessThan(5000);
+        expect((await post(`${base}/export?format=txt`)).status).toBe(200);
+    });
+
+    it('turns requests away with BUSY when all slots and queue places are taken', async () => {
+        const base = await start({ timeout: 1000, maxConcurrent: 1, maxQueued: 0 }, hangingThread);
+        const slow = post(`${base}/export?format=pdf`);
+
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const busy = await post(`${base}/export?format=pdf`);
+
+        expect(busy.status).toBe(503);
+        expect(busy.headers.get('retry-after')).toBe('5');
+        expect(await errorCode(busy)).toBe('BUSY');
+        expect(await errorCode(await slow)).toBe('TIMEOUT');
+    });
+
+    it('drops a queued request whose client disconnects without starting its export', async () => {
+        let started = 0;
+        const base = await start({ timeout: 1000, maxConcurrent: 1, maxQueued: 1 }, job => {
+            started++;
+            return started === 1 ? hangingThread(job) : echoThread(job);
+        });
+        const slow = post(`${base}/export?format=pdf`);
+        const client = new AbortController();
+        const abandoned = fetch(`${base}/export?format=txt`, { method: 'POST', body: 'Gone', signal: client.signal });
+
+        await new Promise(resolve => setTimeout(resolve, 200));
+        client.abort();
+        await expect(abandoned).rejects.toThrow();
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        // The queue place is free again, and the queued request gets the slot after the timeout
+        const queued = await post(`${base}/export?format=txt`, 'Next');
+
+        expect(await errorCode(await slow)).toBe('TIMEOUT');
+        expect([queued.status, await queued.text()]).toEqual([200, 'Next']);
+        expect(started).toBe(2);
+    });
+
+    it('rejects invalid requests with their status and code', async () => {
+        const base = await start({ maxBodySize: 16 });
+        const cases: Array<[Promise<Response>, number, string]> = [
+            [fetch(`${base}/nothing`), 404, 'NOT_FOUND'],
+            [fetch(`${base}/export?format=txt`), 405, 'METHOD_NOT_ALLOWED'],
+            [post(`${base}/formats`), 405, 'METHOD_NOT_ALLOWED'],
+            [post(`${base}/export`), 400, 'MISSING_FORMAT'],
+            [post(`${base}/export?format=rtf`), 400, 'UNKNOWN_FORMAT'],
+            [post(`${base}/export?format=txt`, '# Hello', 'application/json'), 415, 'UNSUPPORTED_MEDIA_TYPE'],
+            [post(`${base}/export?format=txt`, '# Hello', 'text/markdown; charset=latin1'), 415, 'UNSUPPORTED_MEDIA_TYPE'],
+            [post(`${base}/export?format=txt`, 'x'.repeat(17)), 413, 'PAYLOAD_TOO_LARGE'],
+        ];
+
+        for (const [request, status, code] of cases) {
+            const response = await request;
+            expect([response.status, await errorCode(response)]).toEqual([status, code]);
+        }
+    });
+
+    it('answers a chunked body over the limit with PAYLOAD_TOO_LARGE and keeps serving', async () => {
+        const base = await start({ maxBodySize: 16 });
+        const [status, body] = await postChunked(`${base}/export?format=txt`, ['x'.repeat(10), 'x'.repeat(10)]);
+
+        expect([status, (JSON.parse(body) as { error: { code: string } }).error.code]).toEqual([413, 'PAYLOAD_TOO_LARGE']);
+        expect((await fetch(`${base}/formats`)).status).toBe(200);
+    });
+});
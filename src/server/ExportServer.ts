@@ -0,0 +1,488 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Worker } from 'node:worker_threads';
+import type { ExportResult } from '../interfaces';
+import { exporterRegistry } from '../registry';
+import { ExportAbortedError, ExportError, ExportFailedError, restoreExportError } from '../errors';
+import type { ExportThreadJob, ExportThreadMessage } from './messages';
+
+/**
+ * Limits of the export server.
+ */
+export interface ExportServerSettings {
+    /**
+     * Largest accepted request body in bytes.
+     */
+    maxBodySize: number;
+
+    /**
+     * Number of exports that run at the same time.
+     */
+    maxConcurrent: number;
+
+    /**
+     * Number of requests that may wait for a free export slot; further
+     * requests are turned away with 503.
+     */
+    maxQueued: number;
+
+    /**
+     * Time in milliseconds after which an export is aborted.
+     */
+    timeout: number;
+}
+
+/**
+ * Limits used when the settings leave them out.
+ */
+export const DEFAULT_SERVER_SETTINGS: ExportServerSettings = {
+    maxBodySize: 10 * 1024 * 1024,
+    maxConcurrent: 4,
+    maxQueued: 32,
+    timeout: 60_000,
+};
+
+/**
+ * Starts the thread that runs an export.
+ */
+export type ExportThreadFactory = (job: ExportThreadJob) => Worker;
+
+/**
+ * Starts an export thread from the bundled export.thread.js next to the
+ * server. Its console output is read by the server, see runThread().
+ * 
+ * @param job - Export to run
+ * @returns The started thread
+ */
+function createExportThread(job: ExportThreadJob): Worker {
+    return new Worker(new URL('./export.thread.js', import.meta.url), { workerData: job, stdout: true });
+}
+
+/**
+ * MIME types accepted as Markdown request body.
+ */
+const MARKDOWN_TYPES = ['text/markdown', 'text/x-markdown', 'text/plain'];
+
+/**
+ * Error codes of the server itself, next to the ExportError codes of
+ * failed exports.
+ */
+type ServerErrorCode =
+    | 'NOT_FOUND'
+    | 'METHOD_NOT_ALLOWED'
+    | 'MISSING_FORMAT'
+    | 'INVALID_BODY'
+    | 'PAYLOAD_TOO_LARGE'
+    | 'UNSUPPORTED_MEDIA_TYPE'
+    | 'BUSY'
+    | 'TIMEOUT';
+
+/**
+ * A request that is answered with an error status.
+ */
+class HttpError extends Error {
+    /**
+     * @param status - HTTP status code
+     * @param code - Error code of the JSON response
+     * @param message - Human-readable description
+     * @param headers - Additional response headers
+     */
+    constructor(
+        readonly status: number,
+        readonly code: ServerErrorCode,
+        message: string,
+        readonly headers: Record<string, string> = {},
+    ) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+/**
+ * ExportServer
+ * 
+ * A small HTTP server that makes the exporters available to other tools.
+ * Like the web client and the CLI it is a Client of the Factory Method
+ * pattern: it looks up the ExporterFactory of the requested format in the
+ * default registry and lets the factory create the exporter. Factories
+ * cannot be handed to a thread, so the server and its export threads both
+ * use exporterRegistry and serve the same formats.
+ * 
+ * Endpoints:
+ * - GET /formats - the registered formats as JSON
+ * - POST /export?format=<id>[&filename=<name>] - exports the Markdown
+ *   request body and returns the file with its Content-Type and a
+ *   Content-Disposition attachment header
+ * 
+ * Errors are answered with a JSON body { error: { code, message } }. At
+ * most maxConcurrent exports run at once; further requests wait in a
+ * queue of maxQueued places. Each export runs in a worker thread of its
+ * own (see export.thread.ts), which is terminated when the client
+ * disconnects or the export takes longer than the timeout - exporters
+ * lay out synchronously, so only ending the thread reliably stops them.
+ */
+export class ExportServer {
+    private readonly server: Server;
+    private readonly settings: ExportServerSettings;
+    private running = 0;
+    private readonly queue: Array<() => void> = [];
+
+    /**
+     * @param settings - Limits; missing values fall back to the defaults
+     * @param createThread - Starts the thread of an export (replaceable for other environments)
+     */
+    constructor(
+        settings: Partial<ExportServerSettings> = {},
+        private readonly createThread: ExportThreadFactory = createExportThread,
+    ) {
+        this.settings = { ...DEFAULT_SERVER_SETTINGS, ...settings };
+        this.server = createServer((request, response) => {
+            const started = Date.now();
+            response.on('finish', () => {
+                console.log(`ExportServer: ${request.method} ${request.url} ${response.statusCode} ${Date.now() - started} ms`);
+            });
+            this.handle(request, response).catch(error => {
+                // A failure while answering must not end the server process
+                console.error(error);
+                response.destroy();
+            });
+        });
+    }
+
+    /**
+     * Starts listening.
+     * 
+     * @param port - TCP port, 0 for any free port
+     * @param host - Interface to listen on
+     * @returns Address the server listens on
+     */
+    listen(port: number, host: string): Promise<AddressInfo> {
+        return new Promise((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, host, () => {
+                this.server.off('error', reject);
+                resolve(this.server.address() as AddressInfo);
+            });
+        });
+    }
+
+    /**
+     * Stops accepting connections and waits for the running requests.
+     */
+    close(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.server.close(error => (error ? reject(error) : resolve()));
+            this.server.closeIdleConnections();
+        });
+    }
+
+    /**
+     * Routes a request and answers errors as JSON.
+     * 
+     * @param request - Incoming request
+     * @param response - Response to write
+     */
+    private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+        try {
+            const url = new URL(request.url ?? '/', 'http://localhost');
+            
+            switch (url.pathname) {
+                case '/formats':
+                    this.requireMethod(request, 'GET');
+                    this.sendJson(response, 200, { formats: exporterRegistry.formats() });
+                    break;
+                case '/export':
+                    this.requireMethod(request, 'POST');
+                    await this.handleExport(request, response, url.searchParams);
+                    break;
+                default:
+                    throw new HttpError(404, 'NOT_FOUND', `No endpoint at ${url.pathname}; use GET /formats or POST /export`);
+            }
+        } catch (error) {
+            this.sendError(request, response, error);
+        }
+    }
+
+    /**
+     * Exports the Markdown body of a request in the requested format.
+     * 
+     * @param request - POST /export request
+     * @param response - Response to write the file to
+     * @param query - Query parameters (format, filename)
+     * @throws HttpError for invalid requests, ExportError if the export fails
+     */
+    private async handleExport(request: IncomingMessage, response: ServerResponse, query: URLSearchParams): Promise<void> {
+        const format = query.get('format');
+        
+        if (!format) {
+            const formats = exporterRegistry.formats().map(candidate => candidate.id).join(', ');
+            throw new HttpError(400, 'MISSING_FORMAT', `Missing query parameter "format" (${formats})`);
+        }
+        
+        // Fails with UnknownFormatError before the body is read
+        const factory = exporterRegistry.get(format);
+        const content = await this.readBody(request);
+        const filename = query.get('filename');
+        const controller = new AbortController();
+        let timedOut = false;
+        
+        response.once('close', () => {
+            if (!response.writableFinished) {
+                controller.abort();
+            }
+        });
+        
+        if (!(await this.acquire(controller.signal))) {
+            // The client disconnected while the request waited
+            return;
+        }
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, this.settings.timeout);
+        
+        let result: ExportResult;
+        try {
+            result = await this.runThread({ format: factory.format.id, content, options: filename ? { filename } : {} }, controller.signal);
+        } catch (error) {
+            if (timedOut) {
+                throw new HttpError(503, 'TIMEOUT', `The export took longer than ${this.settings.timeout / 1000} s`);
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+            this.release();
+        }
+        
+        const warnings = (result.diagnostics ?? []).filter(diagnostic => diagnostic.severity === 'warning').length;
+        response.writeHead(200, {
+            'Content-Type': result.mimeType,
+            'Content-Length': result.data.byteLength,
+            'Content-Disposition': contentDisposition(result.filename),
+            'X-Export-Warnings': String(warnings),
+        });
+        response.end(result.data);
+    }
+
+    /**
+     * Runs an export in a thread of its own. Aborting the signal
+     * terminates the thread and rejects with an ExportAbortedError.
+     * 
+     * @param job - Export to run
+     * @param signal - Aborts the export
+     * @returns The generated file
+     * @throws ExportError if the export fails or the thread crashes
+     */
+    private runThread(job: ExportThreadJob, signal: AbortSignal): Promise<ExportResult> {
+        return new Promise((resolve, reject) => {
+            if (signal.aborted) {
+                reject(new ExportAbortedError());
+                return;
+            }
+            
+            const thread = this.createThread(job);
+            const onAbort = (): void => {
+                reject(new ExportAbortedError());
+                void thread.terminate();
+            };
+            
+            signal.addEventListener('abort', onAbort, { once: true });
+            // Exporters log their progress with console.log
+            thread.stdout.setEncoding('utf-8').on('data', (text: string) => console.log(text.trimEnd()));
+            thread.once('message', (message: ExportThreadMessage) => {
+                if (message.type === 'result') {
+                    resolve(message.result);
+                } else {
+                    reject(restoreExportError(message.error));
+                }
+                void thread.terminate();
+            });
+            thread.once('error', error => reject(new ExportFailedError(job.format.toUpperCase(), error)));
+            thread.once('exit', code => {
+                signal.removeEventListener('abort', onAbort);
+                reject(new ExportError('WORKER_FAILED', `Export thread exited with code ${code} before finishing`));
+            });
+        });
+    }
+
+    /**
+     * Reads the request body as UTF-8 text, enforcing the size limit.
+     * 
+     * @param request - Incoming request
+     * @returns The body text
+     * @throws HttpError if the body is too large, not text or not valid UTF-8
+     */
+    private async readBody(request: IncomingMessage): Promise<string> {
+        const { maxBodySize } = this.settings;
+        const [type = '', ...parameters] = (request.headers['content-type'] ?? 'text/markdown').split(';').map(part => part.trim().toLowerCase());
+        const charset = parameters.find(parameter => parameter.startsWith('charset='))?.substring('charset='.length).replace(/"/g, '');
+        const tooLarge = new HttpError(413, 'PAYLOAD_TOO_LARGE', `The request body exceeds ${maxBodySize} bytes`, { 'Connection': 'close' });
+        
+        if (!MARKDOWN_TYPES.includes(type) || (charset !== undefined && charset !== 'utf-8')) {
+            throw new HttpError(415, 'UNSUPPORTED_MEDIA_TYPE', `Send the Markdown as ${MARKDOWN_TYPES.join(', ')} in UTF-8`);
+        }
+        if (Number(request.headers['content-length'] ?? 0) > maxBodySize) {
+            throw tooLarge;
+        }
+        
+        // Leaving a for await loop would destroy the request and with it
+        // the socket the 413 is sent on, so the body is read with listeners
+        const chunks = await new Promise<Buffer[]>((resolve, reject) => {
+            const received: Buffer[] = [];
+            let size = 0;
+            
+            const onData = (chunk: Buffer): void => {
+                size += chunk.length;
+                if (size > maxBodySize) {
+                    // The rest of the body is drained unread
+                    request.off('data', onData);
+                    request.resume();
+                    reject(tooLarge);
+                } else {
+                    received.push(chunk);
+                }
+            };
+            
+            request.on('data', onData);
+            request.once('end', () => resolve(received));
+            request.once('error', reject);
+        });
+        
+        try {
+            return new TextDecoder('utf-8', { fatal: true }).decode(Buffer.concat(chunks));
+        } catch {
+            throw new HttpError(400, 'INVALID_BODY', 'The request body is not valid UTF-8');
+        }
+    }
+
+    /**
+     * Waits for a free export slot. A request that is aborted while it
+     * waits leaves the queue without taking a slot.
+     * 
+     * @param signal - Aborted when the client disconnects
+     * @returns true once the request holds a slot, false if it was aborted first
+     * @throws HttpError if the queue is full
+     */
+    private async acquire(signal: AbortSignal): Promise<boolean> {
+        if (signal.aborted) {
+            return false;
+        }
+        if (this.running < this.settings.maxConcurrent) {
+            this.running++;
+            return true;
+        }
+        if (this.queue.length >= this.settings.maxQueued) {
+            throw new HttpError(503, 'BUSY', 'Too many exports in progress, try again later', { 'Retry-After': '5' });
+        }
+        
+        // The slot is handed over by release(), so running stays the same
+        return new Promise<boolean>(resolve => {
+            const waiter = (): void => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(true);
+            };
+            const onAbort = (): void => {
+                this.queue.splice(this.queue.indexOf(waiter), 1);
+                resolve(false);
+            };
+            
+            this.queue.push(waiter);
+            signal.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    /**
+     * Frees an export slot, passing it on to the next waiting request.
+     */
+    private release(): void {
+        const next = this.queue.shift();
+        
+        if (next) {
+            next();
+        } else {
+            this.running--;
+        }
+    }
+
+    /**
+     * Rejects requests with the wrong method.
+     * 
+     * @param request - Incoming request
+     * @param method - Method of the endpoint
+     * @throws HttpError with status 405 for other methods
+     */
+    private requireMethod(request: IncomingMessage, method: string): void {
+        if (request.method !== method) {
+            throw new HttpError(405, 'METHOD_NOT_ALLOWED', `Use ${method} for this endpoint`, { 'Allow': method });
+        }
+    }
+
+    /**
+     * Answers an error as JSON. ExportErrors keep their code; unknown
+     * formats are client errors (400), failed exports server errors (500).
+     * 
+     * @param request - Request that failed
+     * @param response - Response to write
+     * @param error - Thrown value
+     */
+    private sendError(request: IncomingMessage, response: ServerResponse, error: unknown): void {
+        let status = 500;
+        let code: string = 'EXPORT_FAILED';
+        let headers: Record<string, string> = {};
+        
+        if (error instanceof HttpError) {
+            ({ status, code, headers } = error);
+        } else if (error instanceof ExportError) {
+            code = error.code;
+            status = error.code === 'UNKNOWN_FORMAT' ? 400 : 500;
+        }
+        if (status === 500) {
+            console.error(error);
+        }
+        // The client is gone (e.g. it disconnected during the export)
+        if (response.headersSent || response.destroyed || (request.socket?.destroyed ?? true)) {
+            response.destroy();
+            return;
+        }
+        
+        const message = error instanceof Error ? error.message : String(error);
+        this.sendJson(response, status, { error: { code, message } }, headers);
+    }
+
+    /**
+     * Writes a JSON response.
+     * 
+     * @param response - Response to write
+     * @param status - HTTP status code
+     * @param body - Value to serialize
+     * @param headers - Additional headers
+     */
+    private sendJson(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+        const data = Buffer.from(`${JSON.stringify(body, null, 2)}\n`);
+        
+        response.writeHead(status, {
+            ...headers,
+            'Content-Type': 'application/json; charset=utf-8',
+            'Content-Length': data.byteLength,
+        });
+        response.end(data);
+    }
+}
+
+/**
+ * Builds a Content-Disposition header for a download. Names with
+ * characters outside ASCII get an RFC 5987 filename* next to an ASCII
+ * fallback.
+ * 
+ * @param filename - Filename of the export
+ * @returns Header value
+ */
+function contentDisposition(filename: string): string {
+    const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+
+    if (fallback === filename) {
+        return `attachment; filename="${filename}"`;
+    }
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
@@ -0,0 +1,33 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import { exporterRegistry } from '../registry';
+import { toExportError } from '../errors';
+import type { ExportThreadJob, ExportThreadMessage } from './messages';
+
+/**
+ * Export Thread
+ * 
+ * Runs one export of the ExportServer in a worker thread. Like the server
+ * itself it is a Client of the Factory Method pattern: it looks up the
+ * ExporterFactory of the requested format in the registry, lets it create
+ * the exporter and posts the result back. The server terminates the
+ * thread when the export times out or its client disconnects, which also
+ * stops an exporter that is busy laying out a page.
+ */
+
+/**
+ * Runs the export of the job.
+ * 
+ * @param job - Export handed over by the server
+ * @returns The message with the result or the error
+ */
+async function run(job: ExportThreadJob): Promise<ExportThreadMessage> {
+    try {
+        // Factory Method: the factory decides which exporter to create
+        const exporter = exporterRegistry.get(job.format).createExporter(job.options);
+        return { type: 'result', result: await exporter.export(job.content) };
+    } catch (error) {
+        return { type: 'error', error: toExportError(error, job.format.toUpperCase()).toJSON() };
+    }
+}
+
+void run(workerData as ExportThreadJob).then(message => parentPort?.postMessage(message));
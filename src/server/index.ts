@@ -0,0 +1,3 @@
+export { ExportServer, DEFAULT_SERVER_SETTINGS } from './ExportServer';
+export type { ExportServerSettings, ExportThreadFactory } from './ExportServer';
+export type { ExportThreadJob, ExportThreadMessage } from './messages';
@@ -0,0 +1,186 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+import { DEFAULT_SERVER_SETTINGS, ExportServer } from './ExportServer';
+import type { ExportServerSettings } from './ExportServer';
+
+/**
+ * md-export-server - Local HTTP Export Service
+ * 
+ * Serves the registered exporters over HTTP, so other tools can convert
+ * Markdown without the browser UI:
+ * 
+ *   curl --data-binary @notes.md -H "Content-Type: text/markdown" \
+ *        -o notes.pdf "http://localhost:8080/export?format=pdf"
+ * 
+ * Runs until it receives SIGINT or SIGTERM, then finishes the running
+ * requests and exits.
+ */
+
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const DEFAULT_PORT = 8080;
+const DEFAULT_HOST = '127.0.0.1';
+
+const USAGE = `Usage: md-export-server [options]
+
+Serves the Markdown exporters over HTTP:
+  GET  /formats                     List the available formats
+  POST /export?format=<id>          Export the Markdown request body
+       [&filename=<name>]           (Content-Type: text/markdown)
+
+Options:
+  -p, --port <port>          Port to listen on (default: ${DEFAULT_PORT})
+      --host <host>          Interface to listen on (default: ${DEFAULT_HOST})
+      --max-body <MB>        Largest request body (default: ${DEFAULT_SERVER_SETTINGS.maxBodySize / 1024 / 1024})
+      --max-concurrent <n>   Exports running at the same time (default: ${DEFAULT_SERVER_SETTINGS.maxConcurrent})
+      --max-queued <n>       Requests waiting for an export slot (default: ${DEFAULT_SERVER_SETTINGS.maxQueued})
+      --timeout <s>          Abort exports after this many seconds (default: ${DEFAULT_SERVER_SETTINGS.timeout / 1000})
+  -v, --verbose              Log requests and exporter progress to stderr
+  -h, --help                 Show this help and exit`;
+
+/**
+ * Thrown for invalid command-line usage (exit code 2).
+ */
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+/**
+ * Starts the server.
+ * 
+ * @param argv - Command-line arguments without node and script path
+ * @returns Process exit code once the server stopped
+ */
+async function main(argv: string[]): Promise<number> {
+    let values;
+    let port: number;
+    let settings: Partial<ExportServerSettings>;
+    try {
+        ({ values } = parseArgs({
+            args: argv,
+            options: {
+                'port': { type: 'string', short: 'p' },
+                'host': { type: 'string' },
+                'max-body': { type: 'string' },
+                'max-concurrent': { type: 'string' },
+                'max-queued': { type: 'string' },
+                'timeout': { type: 'string' },
+                'verbose': { type: 'boolean', short: 'v' },
+                'help': { type: 'boolean', short: 'h' },
+            },
+        }));
+        port = readNumber(values, 'port', 0, 65535, true) ?? DEFAULT_PORT;
+        settings = readSettings(values);
+    } catch (error) {
+        return usageError(error instanceof Error ? error.message : String(error));
+    }
+
+    // Exporters log their progress with console.log
+    console.log = values.verbose ? console.error : () => {};
+    console.warn = values.verbose ? console.error : () => {};
+
+    if (values.help) {
+        process.stdout.write(`${USAGE}\n`);
+        return EXIT_SUCCESS;
+    }
+
+    const server = new ExportServer(settings);
+    let address;
+    try {
+        address = await server.listen(port, values.host ?? DEFAULT_HOST);
+    } catch (error) {
+        process.stderr.write(`md-export-server: ${error instanceof Error ? error.message : String(error)}\n`);
+        return EXIT_FAILURE;
+    }
+    const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+    process.stderr.write(`md-export-server: listening on http://${host}:${address.port}\n`);
+
+    await new Promise<void>(resolve => {
+        process.once('SIGINT', resolve);
+        process.once('SIGTERM', resolve);
+    });
+    process.stderr.write('md-export-server: shutting down\n');
+    await server.close();
+    return EXIT_SUCCESS;
+}
+
+/**
+ * Builds the server limits from the command-line flags.
+ * 
+ * @param values - Parsed flag values
+ * @returns Limits given on the command line
+ * @throws UsageError for invalid values
+ */
+function readSettings(values: Record<string, string | boolean | undefined>): Partial<ExportServerSettings> {
+    const settings: Partial<ExportServerSettings> = {};
+    const maxBody = readNumber(values, 'max-body', 0.001, 1024, false);
+    const maxConcurrent = readNumber(values, 'max-concurrent', 1, 64, true);
+    const maxQueued = readNumber(values, 'max-queued', 0, 10000, true);
+    const timeout = readNumber(values, 'timeout', 1, 3600, false);
+
+    if (maxBody !== undefined) {
+        settings.maxBodySize = Math.round(maxBody * 1024 * 1024);
+    }
+    if (maxConcurrent !== undefined) {
+        settings.maxConcurrent = maxConcurrent;
+    }
+    if (maxQueued !== undefined) {
+        settings.maxQueued = maxQueued;
+    }
+    if (timeout !== undefined) {
+        settings.timeout = timeout * 1000;
+    }
+
+    return settings;
+}
+
+/**
+ * Reads a numeric flag.
+ * 
+ * @param values - Parsed flag values
+ * @param name - Flag name
+ * @param min - Smallest allowed value
+ * @param max - Largest allowed value
+ * @param integer - Whether only whole numbers are allowed
+ * @returns The number, or undefined if the flag is not given
+ * @throws UsageError if the value is not a number in the range
+ */
+function readNumber(values: Record<string, string | boolean | undefined>, name: string, min: number, max: number, integer: boolean): number | undefined {
+    const value = values[name];
+
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+
+    const parsed = Number(value);
+    if (value.trim() === '' || !Number.isFinite(parsed) || parsed < min || parsed > max || (integer && !Number.isInteger(parsed))) {
+        throw new UsageError(`--${name} expects ${integer ? 'a whole number' : 'a number'} from ${min} to ${max}, got "${value}"`);
+    }
+    return parsed;
+}
+
+/**
+ * Prints a usage error.
+ * 
+ * @param message - Error message
+ * @returns Exit code for usage errors
+ */
+function usageError(message: string): number {
+    process.stderr.write(`md-export-server: ${message}\nTry "md-export-server --help" for more information.\n`);
+    return EXIT_USAGE;
+}
+
+main(process.argv.slice(2)).then(
+    code => {
+        process.exitCode = code;
+    },
+    error => {
+        process.stderr.write(`md-export-server: ${error instanceof Error ? error.stack ?? error.message : String(error)}\n`);
+        process.exitCode = EXIT_FAILURE;
+    },
+);
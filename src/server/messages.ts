@@ -0,0 +1,26 @@
+import type { ExportOptions, ExportResult } from '../interfaces';
+import type { SerializedExportError } from '../errors';
+
+/**
+ * An export handed to an export thread as its workerData.
+ */
+export interface ExportThreadJob {
+    /**
+     * Id of a format in the exporter registry.
+     */
+    format: string;
+
+    /**
+     * Markdown formatted text.
+     */
+    content: string;
+    options: Partial<ExportOptions>;
+}
+
+/**
+ * The message an export thread posts when it is done: either the result
+ * or the error of the export.
+ */
+export type ExportThreadMessage =
+    | { type: 'result'; result: ExportResult }
+    | { type: 'error'; error: SerializedExportError };
@@ -0,0 +1,20 @@
+import type { ExportResult, ExportSink } from '../interfaces';
+import { saveAs } from 'file-saver';
+
+/**
+ * Concrete Sink - BrowserDownloadSink
+ * 
+ * Delivers export results as a file download in the browser.
+ * Uses file-saver for cross-browser download handling.
+ */
+export class BrowserDownloadSink implements ExportSink {
+    /**
+     * Triggers a browser download of the export result.
+     * 
+     * @param result - Generated file
+     */
+    async deliver(result: ExportResult): Promise<void> {
+        const blob = new Blob([result.data], { type: result.mimeType });
+        saveAs(blob, result.filename);
+    }
+}
@@ -0,0 +1,28 @@
+import type { ExportResult, ExportSink } from '../interfaces';
+
+/**
+ * Concrete Sink - FileSystemSink
+ * 
+ * Writes export results to a directory on disk. Only works in Node -
+ * the Node modules are loaded lazily so that importing this class does
+ * not break browser bundles.
+ */
+export class FileSystemSink implements ExportSink {
+    /**
+     * @param directory - Target directory, created if it does not exist
+     */
+    constructor(private readonly directory: string) {}
+
+    /**
+     * Writes the export result into the target directory using its filename.
+     * 
+     * @param result - Generated file
+     */
+    async deliver(result: ExportResult): Promise<void> {
+        const { mkdir, writeFile } = await import('node:fs/promises');
+        const { join } = await import('node:path');
+
+        await mkdir(this.directory, { recursive: true });
+        await writeFile(join(this.directory, result.filename), result.data);
+    }
+}
@@ -0,0 +1,34 @@
+import type { ExportResult, ExportSink } from '../interfaces';
+
+/**
+ * Concrete Sink - MemorySink
+ * 
+ * Collects export results in memory instead of delivering them anywhere.
+ * Useful for post-processing, uploading and for running exports in Node.
+ */
+export class MemorySink implements ExportSink {
+    private delivered: ExportResult[] = [];
+
+    /**
+     * Stores the export result.
+     * 
+     * @param result - Generated file
+     */
+    async deliver(result: ExportResult): Promise<void> {
+        this.delivered.push(result);
+    }
+
+    /**
+     * All results delivered so far, in delivery order.
+     */
+    get results(): readonly ExportResult[] {
+        return this.delivered;
+    }
+
+    /**
+     * Removes all stored results.
+     */
+    clear(): void {
+        this.delivered = [];
+    }
+}
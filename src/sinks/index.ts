@@ -0,0 +1,4 @@
+export { BrowserDownloadSink } from './BrowserDownloadSink';
+export { MemorySink } from './MemorySink';
+// FileSystemSink uses node:fs and is imported from './FileSystemSink' by Node code only,
+// so the web client does not pull Node modules into its bundle
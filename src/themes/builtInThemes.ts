@@ -0,0 +1,27 @@
+import type { DocumentTheme } from '../interfaces';
+import { parseTheme } from './parseTheme';
+import classic from './builtIn/classic.json';
+import corporate from './builtIn/corporate.json';
+import academic from './builtIn/academic.json';
+import compact from './builtIn/compact.json';
+
+/**
+ * The default theme. It sets every field, so other themes only need to
+ * set what differs.
+ */
+export const DEFAULT_THEME: DocumentTheme = parseTheme(classic);
+
+/**
+ * Themes shipped with the app, the default theme first.
+ */
+export const BUILT_IN_THEMES: DocumentTheme[] = [DEFAULT_THEME, ...[corporate, academic, compact].map(theme => parseTheme(theme))];
+
+/**
+ * Looks up a built-in theme by name, ignoring case.
+ *
+ * @param name - Theme name, e.g. "corporate"
+ * @returns The theme, or null if there is no theme with that name
+ */
+export function findBuiltInTheme(name: string): DocumentTheme | null {
+    return BUILT_IN_THEMES.find(theme => theme.name.toLowerCase() === name.trim().toLowerCase()) ?? null;
+}
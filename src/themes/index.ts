@@ -0,0 +1,5 @@
+export { BUILT_IN_THEMES, DEFAULT_THEME, findBuiltInTheme } from './builtInThemes';
+export { parseTheme } from './parseTheme';
+export { resolveTheme, themeTypography } from './resolveTheme';
+export type { ResolvedTheme, ResolvedTextStyle } from './resolveTheme';
+export { themeStylesheet } from './themeStylesheet';
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { parseTheme } from './parseTheme';
+import { InvalidThemeError } from '../errors';
+
+describe('parseTheme', () => {
+    it('reads a valid theme from JSON and normalizes colors', () => {
+        const theme = parseTheme(JSON.stringify({
+            name: ' Night ',
+            lineSpacing: 1.5,
+            body: { fontFamily: 'serif', fontSize: 11, color: '#a1b2c3', alignment: 'justify' },
+            heading1: { bold: true, spaceBefore: 0, spaceAfter: 144 },
+            code: { fontFamily: 'monospace', background: '#eeeeee' },
+            table: { headerBackground: '#DDDDDD', borderColor: '#000000' },
+            link: { color: '#0000ff' },
+        }));
+
+        expect(theme).toEqual({
+            name: 'Night',
+            lineSpacing: 1.5,
+            body: { fontFamily: 'serif', fontSize: 11, color: '#A1B2C3', alignment: 'justify' },
+            heading1: { bold: true, spaceBefore: 0, spaceAfter: 144 },
+            code: { fontFamily: 'monospace', background: '#EEEEEE' },
+            table: { headerBackground: '#DDDDDD', borderColor: '#000000' },
+            link: { color: '#0000FF' },
+        });
+        expect(parseTheme({ name: 'Plain' })).toEqual({ name: 'Plain' });
+    });
+
+    it('rejects malformed JSON and values that are not objects', () => {
+        expect(() => parseTheme('{ "name": "Broken",')).toThrow(InvalidThemeError);
+        expect(() => parseTheme('[]')).toThrow('"theme" must be an object');
+        expect(() => parseTheme(null)).toThrow('"theme" must be an object');
+        expect(() => parseTheme({ name: 'X', body: 'serif' })).toThrow('"body" must be an object');
+    });
+
+    it('rejects a missing name and unknown elements and fields', () => {
+        expect(() => parseTheme({})).toThrow('"name" must be a non-empty string');
+        expect(() => parseTheme({ name: '  ' })).toThrow('"name" must be a non-empty string');
+        expect(() => parseTheme({ name: 'X', footer: {} })).toThrow('unknown element "footer"');
+        expect(() => parseTheme({ name: 'X', body: { size: 12 } })).toThrow('unknown field "body.size"');
+        expect(() => parseTheme({ name: 'X', link: { underline: true } })).toThrow('unknown field "link.underline"');
+        expect(() => parseTheme({ name: 'X', body: { background: '#FFFFFF' } })).toThrow('unknown field "body.background"');
+    });
+
+    it('rejects numbers out of range and invalid colors and choices', () => {
+        const cases: Array<[unknown, string]> = [
+            [{ lineSpacing: 0.5 }, '"lineSpacing" must be a number from 0.8 to 3'],
+            [{ lineSpacing: '1.2' }, '"lineSpacing" must be a number from 0.8 to 3'],
+            [{ body: { fontSize: 200 } }, '"body.fontSize" must be a number from 4 to 96'],
+            [{ heading2: { spaceAfter: -1 } }, '"heading2.spaceAfter" must be a number from 0 to 144'],
+            [{ body: { color: 'red' } }, '"body.color" must be a color like "#1A2B3C"'],
+            [{ table: { borderColor: '#12345' } }, '"table.borderColor" must be a color like "#1A2B3C"'],
+            [{ body: { fontFamily: 'cursive' } }, '"body.fontFamily" must be one of sans-serif, serif, monospace'],
+            [{ body: { alignment: 'middle' } }, '"body.alignment" must be one of left, center, right, justify'],
+            [{ heading1: { bold: 'yes' } }, '"heading1.bold" must be true or false'],
+        ];
+
+        cases.forEach(([fields, message]) => {
+            expect(() => parseTheme({ name: 'X', ...(fields as object) })).toThrow(`Invalid theme: ${message}`);
+        });
+    });
+});
@@ -0,0 +1,197 @@
+import type { DocumentTheme, FontFamily, TextAlignment, ThemeTextStyle } from '../interfaces';
+import { InvalidThemeError } from '../errors';
+
+/**
+ * Theme Parser
+ *
+ * Validates theme definitions loaded from JSON, so a typo in a custom
+ * theme is reported with its location instead of producing odd output.
+ */
+
+const FONT_FAMILIES: FontFamily[] = ['sans-serif', 'serif', 'monospace'];
+const ALIGNMENTS: TextAlignment[] = ['left', 'center', 'right', 'justify'];
+const TEXT_ELEMENTS = ['body', 'heading1', 'heading2', 'heading3', 'heading4', 'heading5', 'heading6', 'headerFooter'] as const;
+const COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Data of one element of a theme, as read from JSON.
+ */
+type Fields = Record<string, unknown>;
+
+/**
+ * Parses and validates a theme definition.
+ *
+ * @param source - JSON text or an already parsed object
+ * @returns The validated theme; colors are normalized to upper case
+ * @throws InvalidThemeError if the definition is not valid
+ */
+export function parseTheme(source: string | unknown): DocumentTheme {
+    let data: unknown = source;
+
+    if (typeof source === 'string') {
+        try {
+            data = JSON.parse(source);
+        } catch (error) {
+            throw new InvalidThemeError(error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    const fields = asObject(data, 'theme');
+    const known = new Set<string>(['name', 'lineSpacing', 'code', 'table', 'link', ...TEXT_ELEMENTS]);
+    const unknown = Object.keys(fields).filter(key => !known.has(key));
+
+    if (unknown.length > 0) {
+        throw new InvalidThemeError(`unknown element "${unknown[0]}"`);
+    }
+    if (typeof fields['name'] !== 'string' || fields['name'].trim() === '') {
+        throw new InvalidThemeError('"name" must be a non-empty string');
+    }
+
+    const theme: DocumentTheme = { name: fields['name'].trim() };
+
+    if (fields['lineSpacing'] !== undefined) {
+        theme.lineSpacing = readNumber(fields['lineSpacing'], 'lineSpacing', 0.8, 3);
+    }
+    TEXT_ELEMENTS.forEach(element => {
+        if (fields[element] !== undefined) {
+            theme[element] = readTextStyle(asObject(fields[element], element), element, []);
+        }
+    });
+    if (fields['code'] !== undefined) {
+        const code = asObject(fields['code'], 'code');
+        theme.code = {
+            ...readTextStyle(code, 'code', ['background']),
+            ...(code['background'] !== undefined ? { background: readColor(code['background'], 'code.background') } : {}),
+        };
+    }
+    if (fields['table'] !== undefined) {
+        const table = asObject(fields['table'], 'table');
+        theme.table = {
+            ...readTextStyle(table, 'table', ['headerBackground', 'borderColor']),
+            ...(table['headerBackground'] !== undefined ? { headerBackground: readColor(table['headerBackground'], 'table.headerBackground') } : {}),
+            ...(table['borderColor'] !== undefined ? { borderColor: readColor(table['borderColor'], 'table.borderColor') } : {}),
+        };
+    }
+    if (fields['link'] !== undefined) {
+        const link = asObject(fields['link'], 'link');
+        const extra = Object.keys(link).find(key => key !== 'color');
+        if (extra !== undefined) {
+            throw new InvalidThemeError(`unknown field "link.${extra}"`);
+        }
+        theme.link = link['color'] !== undefined ? { color: readColor(link['color'], 'link.color') } : {};
+    }
+
+    return theme;
+}
+
+/**
+ * Reads the text style fields of an element.
+ *
+ * @param fields - Fields of the element
+ * @param path - Element name for error messages
+ * @param extraFields - Further fields the element may have
+ * @returns The text style
+ * @throws InvalidThemeError for unknown or invalid fields
+ */
+function readTextStyle(fields: Fields, path: string, extraFields: string[]): ThemeTextStyle {
+    const style: ThemeTextStyle = {};
+
+    Object.entries(fields).forEach(([key, value]) => {
+        const field = `${path}.${key}`;
+
+        switch (key) {
+            case 'fontFamily':
+                style.fontFamily = readChoice(value, field, FONT_FAMILIES);
+                break;
+            case 'fontSize':
+                style.fontSize = readNumber(value, field, 4, 96);
+                break;
+            case 'bold':
+            case 'italic':
+                if (typeof value !== 'boolean') {
+                    throw new InvalidThemeError(`"${field}" must be true or false`);
+                }
+                style[key] = value;
+                break;
+            case 'color':
+                style.color = readColor(value, field);
+                break;
+            case 'spaceBefore':
+            case 'spaceAfter':
+                style[key] = readNumber(value, field, 0, 144);
+                break;
+            case 'alignment':
+                style.alignment = readChoice(value, field, ALIGNMENTS);
+                break;
+            default:
+                if (!extraFields.includes(key)) {
+                    throw new InvalidThemeError(`unknown field "${field}"`);
+                }
+        }
+    });
+
+    return style;
+}
+
+/**
+ * Checks that a value is a JSON object.
+ *
+ * @param value - Value to check
+ * @param path - Element name for error messages
+ * @returns The value as object
+ * @throws InvalidThemeError if the value is not an object
+ */
+function asObject(value: unknown, path: string): Fields {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new InvalidThemeError(`"${path}" must be an object`);
+    }
+    return value as Fields;
+}
+
+/**
+ * Reads a number within a range.
+ *
+ * @param value - Value to read
+ * @param path - Field name for error messages
+ * @param min - Smallest allowed value
+ * @param max - Largest allowed value
+ * @returns The number
+ * @throws InvalidThemeError if the value is not a number in the range
+ */
+function readNumber(value: unknown, path: string, min: number, max: number): number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+        throw new InvalidThemeError(`"${path}" must be a number from ${min} to ${max}`);
+    }
+    return value;
+}
+
+/**
+ * Reads a "#RRGGBB" color.
+ *
+ * @param value - Value to read
+ * @param path - Field name for error messages
+ * @returns The color in upper case
+ * @throws InvalidThemeError if the value is not a color
+ */
+function readColor(value: unknown, path: string): string {
+    if (typeof value !== 'string' || !COLOR.test(value)) {
+        throw new InvalidThemeError(`"${path}" must be a color like "#1A2B3C"`);
+    }
+    return value.toUpperCase();
+}
+
+/**
+ * Reads one of a fixed set of strings.
+ *
+ * @param value - Value to read
+ * @param path - Field name for error messages
+ * @param choices - Allowed values
+ * @returns The value
+ * @throws InvalidThemeError if the value is not one of the choices
+ */
+function readChoice<T extends string>(value: unknown, path: string, choices: readonly T[]): T {
+    if (!choices.includes(value as T)) {
+        throw new InvalidThemeError(`"${path}" must be one of ${choices.join(', ')}`);
+    }
+    return value as T;
+}
@@ -0,0 +1,112 @@
+import type { DocumentTheme, ExportOptions, FontFamily, TextAlignment, ThemeTextStyle } from '../interfaces';
+import { DEFAULT_THEME } from './builtInThemes';
+
+/**
+ * A text style with every field set.
+ */
+export interface ResolvedTextStyle {
+    fontFamily: FontFamily;
+    fontSize: number;
+    bold: boolean;
+    italic: boolean;
+    color: string;
+    spaceBefore: number;
+    spaceAfter: number;
+    alignment: TextAlignment;
+}
+
+/**
+ * A theme with the inherited values filled in and the typography options
+ * applied, as used by the exporters.
+ */
+export interface ResolvedTheme {
+    lineSpacing: number;
+    body: ResolvedTextStyle;
+
+    /**
+     * Heading styles by heading depth - 1.
+     */
+    headings: ResolvedTextStyle[];
+    code: ResolvedTextStyle & { background: string };
+    table: ResolvedTextStyle & { headerBackground: string; borderColor: string };
+    linkColor: string;
+    headerFooter: ResolvedTextStyle;
+}
+
+const HEADINGS = ['heading1', 'heading2', 'heading3', 'heading4', 'heading5', 'heading6'] as const;
+
+/**
+ * Reads the body typography of a theme, which is the default for the
+ * fontFamily, fontSize and lineSpacing export options.
+ *
+ * @param theme - Theme
+ * @returns Body font family, font size and line spacing
+ */
+export function themeTypography(theme: DocumentTheme): Pick<ExportOptions, 'fontFamily' | 'fontSize' | 'lineSpacing'> {
+    const body = { ...DEFAULT_THEME.body, ...theme.body };
+
+    return {
+        fontFamily: body.fontFamily!,
+        fontSize: body.fontSize!,
+        lineSpacing: theme.lineSpacing ?? DEFAULT_THEME.lineSpacing!,
+    };
+}
+
+/**
+ * Resolves the theme of the export options. Missing fields come from the
+ * default theme, and elements without font family or color use the body's.
+ * The fontFamily, fontSize and lineSpacing options replace the body
+ * typography; all font sizes are scaled with the body font size.
+ *
+ * @param options - Resolved export options
+ * @returns Theme with every field set
+ */
+export function resolveTheme(options: ExportOptions): ResolvedTheme {
+    const { theme } = options;
+    const scale = options.fontSize / themeTypography(theme).fontSize;
+    const body = resolveStyle({ ...DEFAULT_THEME.body, ...theme.body }, null, 1);
+
+    body.fontFamily = options.fontFamily;
+    body.fontSize = options.fontSize;
+
+    const element = (key: typeof HEADINGS[number] | 'code' | 'table' | 'headerFooter'): ResolvedTextStyle =>
+        resolveStyle({ ...DEFAULT_THEME[key], ...theme[key] }, body, scale);
+
+    return {
+        lineSpacing: options.lineSpacing,
+        body,
+        headings: HEADINGS.map(heading => element(heading)),
+        code: {
+            ...element('code'),
+            background: theme.code?.background ?? DEFAULT_THEME.code!.background!,
+        },
+        table: {
+            ...element('table'),
+            headerBackground: theme.table?.headerBackground ?? DEFAULT_THEME.table!.headerBackground!,
+            borderColor: theme.table?.borderColor ?? DEFAULT_THEME.table!.borderColor!,
+        },
+        linkColor: theme.link?.color ?? DEFAULT_THEME.link!.color!,
+        headerFooter: element('headerFooter'),
+    };
+}
+
+/**
+ * Fills in the unset fields of a text style.
+ *
+ * @param style - Style of the element
+ * @param body - Resolved body style to inherit font and color from, or null for the body itself
+ * @param scale - Factor applied to the font size
+ * @returns Style with every field set
+ */
+function resolveStyle(style: ThemeTextStyle, body: ResolvedTextStyle | null, scale: number): ResolvedTextStyle {
+    return {
+        fontFamily: style.fontFamily ?? body?.fontFamily ?? 'sans-serif',
+        fontSize: style.fontSize !== undefined ? style.fontSize * scale : body?.fontSize ?? 12,
+        bold: style.bold ?? false,
+        italic: style.italic ?? false,
+        color: style.color ?? body?.color ?? '#000000',
+        spaceBefore: style.spaceBefore ?? 0,
+        spaceAfter: style.spaceAfter ?? 0,
+        alignment: style.alignment ?? 'left',
+    };
+}
@@ -0,0 +1,41 @@
+import type { FontFamily } from '../interfaces';
+import type { ResolvedTextStyle, ResolvedTheme } from './resolveTheme';
+
+/**
+ * Renders the CSS rules of a theme for HTML output.
+ *
+ * @param theme - Resolved theme
+ * @param fonts - CSS font stacks for the generic font families
+ * @param lineHeight - CSS line height at single line spacing
+ * @returns CSS rules for body text, headings, code, tables and links
+ */
+export function themeStylesheet(theme: ResolvedTheme, fonts: Record<FontFamily, string>, lineHeight: number): string {
+    const { body, code, table } = theme;
+    const textRule = (selector: string, style: ResolvedTextStyle): string => [
+        `${selector} {`,
+        ` font-family: ${fonts[style.fontFamily]};`,
+        ` font-size: ${+style.fontSize.toFixed(2)}pt;`,
+        ` font-weight: ${style.bold ? 'bold' : 'normal'};`,
+        ` font-style: ${style.italic ? 'italic' : 'normal'};`,
+        ` color: ${style.color};`,
+        ` text-align: ${style.alignment};`,
+        ` margin: ${style.spaceBefore}pt 0 ${style.spaceAfter}pt;`,
+        ' }',
+    ].join('');
+
+    return [
+        `body { font-family: ${fonts[body.fontFamily]}; font-size: ${body.fontSize}pt; line-height: ${+(lineHeight * theme.lineSpacing).toFixed(3)}; color: ${body.color}; }`,
+        textRule('p', body),
+        `ul, ol { margin: ${body.spaceBefore}pt 0 ${body.spaceAfter}pt; }`,
+        ...theme.headings.map((style, index) => textRule(`h${index + 1}`, style)),
+        `code { font-family: ${fonts[code.fontFamily]}; background: ${code.background}; }`,
+        `${textRule('pre', code)}`,
+        `pre { background: ${code.background}; }`,
+        'pre code { font-size: inherit; color: inherit; }',
+        `table { font-size: ${+table.fontSize.toFixed(2)}pt; color: ${table.color}; margin: ${table.spaceBefore}pt 0 ${table.spaceAfter}pt; }`,
+        `table th, table td { font-family: ${fonts[table.fontFamily]}; border-color: ${table.borderColor}; }`,
+        `th { background: ${table.headerBackground}; }`,
+        `a { color: ${theme.linkColor}; }`,
+        '',
+    ].join('\n');
+}
@@ -0,0 +1,104 @@
+import type { DiagnosticCode, DiagnosticSeverity, ExportDiagnostic } from '../interfaces';
+import type { DocumentNode, ImageNode, SourcePosition } from '../parser';
+import { decodeImage } from './images';
+
+/**
+ * Number of source lines listed in a formatted diagnostic.
+ */
+const MAX_LISTED_LINES = 5;
+
+/**
+ * DiagnosticCollector
+ * 
+ * Collects the diagnostics of one export. Reports with the same code and
+ * message are merged into one diagnostic listing all their source lines,
+ * so a document full of bold text yields one "bold not supported" entry.
+ */
+export class DiagnosticCollector {
+    private readonly entries = new Map<string, ExportDiagnostic>();
+
+    /**
+     * Records a diagnostic.
+     * 
+     * @param severity - warning or info
+     * @param code - Kind of diagnostic
+     * @param message - Description
+     * @param position - Source range it refers to, or null
+     */
+    add(severity: DiagnosticSeverity, code: DiagnosticCode, message: string, position: SourcePosition | null = null): void {
+        const key = `${code}\n${message}`;
+        let entry = this.entries.get(key);
+
+        if (!entry) {
+            entry = { severity, code, message, lines: [] };
+            this.entries.set(key, entry);
+        }
+        if (position && !entry.lines.includes(position.start.line)) {
+            entry.lines.push(position.start.line);
+            entry.lines.sort((a, b) => a - b);
+        }
+    }
+
+    /**
+     * Records the unsupported syntax the parser found.
+     * 
+     * @param tree - Parsed document tree
+     * @param format - Format label used in the message, e.g. 'PDF'
+     */
+    addUnsupportedSyntax(tree: DocumentNode, format: string): void {
+        tree.unsupported.forEach(({ syntax, position }) => {
+            this.add('warning', 'unsupported-syntax', `${syntax} syntax not supported in ${format}, output as text`, position);
+        });
+    }
+
+    /**
+     * Records an image that was replaced by a link or its alt text.
+     * 
+     * @param image - Image node of the document tree
+     * @param format - Format label used in the message, e.g. 'PDF'
+     */
+    addImageNotEmbedded(image: ImageNode, format: string): void {
+        let message: string;
+
+        if (!image.url.startsWith('data:')) {
+            message = `images referenced by URL are not embedded in ${format}, output as links`;
+        } else if (decodeImage(image.url)) {
+            message = `images in tables are not supported in ${format}, output as alt text`;
+        } else {
+            message = `image format not supported in ${format} (PNG, JPEG, GIF and BMP only), output as alt text`;
+        }
+
+        this.add('warning', 'image-not-embedded', message, image.position);
+    }
+
+    /**
+     * Returns the diagnostics, warnings first, each group by first line.
+     * 
+     * @returns Collected diagnostics
+     */
+    toArray(): ExportDiagnostic[] {
+        const firstLine = (diagnostic: ExportDiagnostic): number => diagnostic.lines[0] ?? Number.MAX_SAFE_INTEGER;
+
+        return [...this.entries.values()].sort((a, b) =>
+            (a.severity === b.severity ? 0 : a.severity === 'warning' ? -1 : 1) || firstLine(a) - firstLine(b));
+    }
+}
+
+/**
+ * Formats a diagnostic as a single line, e.g.
+ * "line 14: table syntax not supported in TXT, output as text".
+ * 
+ * @param diagnostic - Diagnostic to format
+ * @returns Text with the source lines in front of the message
+ */
+export function formatDiagnostic(diagnostic: ExportDiagnostic): string {
+    const { lines, message } = diagnostic;
+
+    if (lines.length === 0) {
+        return message;
+    }
+
+    const listed = lines.slice(0, MAX_LISTED_LINES).join(', ');
+    const more = lines.length > MAX_LISTED_LINES ? ` and ${lines.length - MAX_LISTED_LINES} more` : '';
+    return `${lines.length === 1 ? 'line' : 'lines'} ${listed}${more}: ${message}`;
+}
@@ -0,0 +1,104 @@
+/**
+ * File Helpers
+ * 
+ * Collects Markdown files from file inputs and drag-and-drop, including
+ * whole folders. Browser only.
+ */
+
+/**
+ * File extensions recognized as Markdown.
+ */
+const MARKDOWN_EXTENSIONS = /\.(md|markdown|mdown|mkd)$/i;
+
+/**
+ * Checks whether a file is a Markdown document by its name.
+ * 
+ * @param file - File or filename
+ * @returns true for Markdown files
+ */
+export function isMarkdownFile(file: File | string): boolean {
+    return MARKDOWN_EXTENSIONS.test(typeof file === 'string' ? file : file.name);
+}
+
+/**
+ * Strips the directory and extension from a filename.
+ * 
+ * @param filename - Filename, optionally with path
+ * @returns Base name without extension
+ */
+export function baseName(filename: string): string {
+    return filename.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+}
+
+/**
+ * Collects all files of a drop, descending into dropped folders.
+ * Hidden files and folders are skipped; the result is sorted by path.
+ * 
+ * Must be called synchronously from the drop handler: the browser
+ * invalidates the dropped items once the handler yields.
+ * 
+ * @param dataTransfer - Data of the drop event
+ * @returns Dropped files
+ */
+export function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+    const entries = Array.from(dataTransfer.items)
+        .map(item => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+        .filter((entry): entry is FileSystemEntry => entry !== null);
+
+    // Browsers without entry support only expose the top-level files
+    if (entries.length === 0) {
+        return Promise.resolve(Array.from(dataTransfer.files));
+    }
+
+    return Promise.all(entries.map(entry => readEntry(entry)))
+        .then(groups => groups.flat().sort((a, b) => a.path.localeCompare(b.path)).map(({ file }) => file));
+}
+
+/**
+ * Reads a file entry, or all files below a directory entry.
+ * 
+ * @param entry - File system entry of the drop
+ * @returns Files with their path inside the drop
+ */
+async function readEntry(entry: FileSystemEntry): Promise<Array<{ path: string; file: File }>> {
+    if (entry.name.startsWith('.')) {
+        return [];
+    }
+
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        return [{ path: entry.fullPath, file }];
+    }
+
+    if (entry.isDirectory) {
+        const children = await readDirectory(entry as FileSystemDirectoryEntry);
+        const nested = await Promise.all(children.map(child => readEntry(child)));
+        return nested.flat();
+    }
+
+    return [];
+}
+
+/**
+ * Lists all entries of a directory. readEntries() returns the entries in
+ * batches, so it is called until it returns an empty batch.
+ * 
+ * @param directory - Directory entry
+ * @returns Entries of the directory
+ */
+function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+
+    return new Promise((resolve, reject) => {
+        const next = (): void => reader.readEntries(batch => {
+            if (batch.length === 0) {
+                resolve(entries);
+            } else {
+                entries.push(...batch);
+                next();
+            }
+        }, reject);
+        next();
+    });
+}
@@ -0,0 +1,112 @@
+/**
+ * Image Helpers
+ * 
+ * Decodes images embedded as data URIs and reads their dimensions from the
+ * file header. Works without a DOM, so exporters can embed images in the
+ * browser and in Node alike.
+ */
+
+/**
+ * Raster formats that can be embedded into PDF and DOCX.
+ */
+export type ImageFormat = 'png' | 'jpg' | 'gif' | 'bmp';
+
+/**
+ * A decoded image ready for embedding.
+ */
+export interface EmbeddedImage {
+    format: ImageFormat;
+    data: Uint8Array<ArrayBuffer>;
+    width: number;
+    height: number;
+}
+
+/**
+ * Decodes an image from a data URI.
+ * 
+ * @param url - Image source, e.g. data:image/png;base64,...
+ * @returns Decoded image, or null if the source is no data URI or no supported image
+ */
+export function decodeImage(url: string): EmbeddedImage | null {
+    const match = url.match(/^data:([^,]*?)(;base64)?,(.*)$/s);
+
+    if (!match) {
+        return null;
+    }
+
+    const [, , base64, payload = ''] = match;
+    let data: Uint8Array<ArrayBuffer>;
+
+    try {
+        data = base64 ? decodeBase64(payload) : new TextEncoder().encode(decodeURIComponent(payload));
+    } catch {
+        return null;
+    }
+
+    const info = readImageInfo(data);
+    return info ? { ...info, data } : null;
+}
+
+/**
+ * Decodes base64 (whitespace is ignored).
+ * 
+ * @param payload - Base64 encoded data
+ * @returns Decoded bytes
+ */
+export function decodeBase64(payload: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(payload.replace(/\s+/g, ''));
+    const bytes = new Uint8Array(binary.length);
+
+    for (let index = 0; index < binary.length; index++) {
+        bytes[index] = binary.charCodeAt(index);
+    }
+
+    return bytes;
+}
+
+/**
+ * Detects the image format and reads the pixel dimensions from the header.
+ * 
+ * @param data - Image file bytes
+ * @returns Format and dimensions, or null for unsupported data
+ */
+export function readImageInfo(data: Uint8Array): { format: ImageFormat; width: number; height: number } | null {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    // PNG: signature followed by the IHDR chunk
+    if (data.length >= 24 && view.getUint32(0) === 0x89504e47) {
+        return { format: 'png', width: view.getUint32(16), height: view.getUint32(20) };
+    }
+
+    // GIF: "GIF8" followed by the logical screen size (little endian)
+    if (data.length >= 10 && view.getUint32(0) === 0x47494638) {
+        return { format: 'gif', width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    }
+
+    // BMP: "BM" header, size in the DIB header (height is negative for top-down bitmaps)
+    if (data.length >= 26 && data[0] === 0x42 && data[1] === 0x4d) {
+        return { format: 'bmp', width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) };
+    }
+
+    // JPEG: walk the segments until a start-of-frame marker
+    if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+        let offset = 2;
+
+        while (offset + 9 < data.length) {
+            if (data[offset] !== 0xff) {
+                return null;
+            }
+
+            const marker = data[offset + 1]!;
+            const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+            if (isStartOfFrame) {
+                return { format: 'jpg', width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+            }
+
+            offset += 2 + view.getUint16(offset + 2);
+        }
+    }
+
+    return null;
+}
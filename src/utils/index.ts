@@ -0,0 +1,5 @@
+export { decodeBase64, decodeImage, readImageInfo } from './images';
+export type { EmbeddedImage, ImageFormat } from './images';
+export { isMarkdownFile, baseName, collectDroppedFiles } from './files';
+export { renderWithProgress, throwIfAborted } from './progress';
+export { DiagnosticCollector, formatDiagnostic } from './diagnostics';
@@ -0,0 +1,62 @@
+import type { ExportControl } from '../interfaces';
+import { ExportAbortedError } from '../errors';
+
+/**
+ * Progress Helpers
+ * 
+ * Runs the block loop of an exporter with progress reports and
+ * cancellation. Exporters render synchronously, so the loop yields to the
+ * event loop from time to time - otherwise neither an abort nor a progress
+ * update could get through until the export is done.
+ */
+
+/**
+ * Maximum time in milliseconds the loop runs without yielding.
+ */
+const YIELD_INTERVAL = 50;
+
+/**
+ * Renders blocks one by one, reporting progress after each block.
+ * 
+ * @param blocks - Top-level blocks of the document
+ * @param render - Renders a single block
+ * @param control - Progress callback and abort signal of the export
+ * @param pages - Returns the number of pages laid out so far
+ * @returns The rendered blocks in order
+ * @throws ExportAbortedError once the export is aborted
+ */
+export async function renderWithProgress<T, R>(
+    blocks: readonly T[],
+    render: (block: T) => R,
+    control: ExportControl = {},
+    pages: () => number = () => 0,
+): Promise<R[]> {
+    const results: R[] = [];
+    let lastYield = Date.now();
+
+    for (let index = 0; index < blocks.length; index++) {
+        throwIfAborted(control);
+        results.push(render(blocks[index]!));
+        control.onProgress?.({ blocks: index + 1, totalBlocks: blocks.length, pages: pages() });
+
+        if (Date.now() - lastYield >= YIELD_INTERVAL) {
+            await new Promise(resolve => setTimeout(resolve, 0));
+            lastYield = Date.now();
+        }
+    }
+
+    throwIfAborted(control);
+    return results;
+}
+
+/**
+ * Stops the export if its signal was aborted.
+ * 
+ * @param control - Control of the export
+ * @throws ExportAbortedError if the signal was aborted
+ */
+export function throwIfAborted(control: ExportControl): void {
+    if (control.signal?.aborted) {
+        throw new ExportAbortedError();
+    }
+}
@@ -0,0 +1,193 @@
+import type { DocumentExporter, ExportControl, ExportOptions, ExportResult } from '../interfaces';
+import { ExportAbortedError, ExportError, restoreExportError } from '../errors';
+import type { BundleDocument } from '../bundle';
+import type { MergeRecord, MergeSettings } from '../merge';
+import type { ExportWorkerJob, ExportWorkerRequest, ExportWorkerResponse } from './messages';
+
+/**
+ * An export waiting for its result from the worker.
+ */
+interface PendingExport {
+    control: ExportControl;
+    resolve: (result: ExportResult) => void;
+    reject: (reason: unknown) => void;
+}
+
+/**
+ * Creates the module worker that runs the exports.
+ *
+ * @returns A new export worker
+ */
+function createExportWorker(): Worker {
+    return new Worker(new URL('./export.worker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * ExportWorker
+ *
+ * Page side of the export worker. Exporters created here are proxies: they
+ * implement DocumentExporter, but send the content to the worker, where
+ * the real exporter is created through its factory. Bundles and mail
+ * merges are sent to the worker as a whole. The page stays responsive
+ * while a long document is laid out.
+ *
+ * The worker is started on the first export and restarted if it crashes.
+ * Errors are posted back as plain data and rethrown as ExportErrors with
+ * the same code, so callers handle them as with a local exporter.
+ */
+export class ExportWorker {
+    private worker: Worker | null = null;
+    private nextId = 1;
+    private readonly pending = new Map<number, PendingExport>();
+
+    /**
+     * @param create - Starts the worker (replaceable for other environments)
+     */
+    constructor(private readonly create: () => Worker = createExportWorker) {}
+
+    /**
+     * Creates an exporter that runs in the worker.
+     *
+     * @param format - Id of a format in the exporter registry
+     * @param options - Export options
+     * @returns Exporter proxy
+     */
+    createExporter(format: string, options: Partial<ExportOptions> = {}): DocumentExporter {
+        return {
+            export: (content: string, control: ExportControl = {}) => this.run({ type: 'export', format, content, options }, control),
+        };
+    }
+
+    /**
+     * Exports documents in several formats into a ZIP archive in the
+     * worker (see ExportBundler).
+     *
+     * @param formats - Ids of formats in the exporter registry
+     * @param documents - Markdown documents to export
+     * @param options - Export options applied to all documents
+     * @param bundleName - Filename of the archive without extension
+     * @param control - Progress callback and abort signal
+     * @returns The generated ZIP archive
+     */
+    bundle(
+        formats: string[],
+        documents: BundleDocument[],
+        options: Partial<ExportOptions> = {},
+        bundleName?: string,
+        control: ExportControl = {},
+    ): Promise<ExportResult> {
+        return this.run({ type: 'bundle', formats, documents, options, ...(bundleName !== undefined ? { bundleName } : {}) }, control);
+    }
+
+    /**
+     * Runs a mail merge in the worker (see MailMerge).
+     *
+     * @param format - Id of the output format in the exporter registry
+     * @param template - Markdown template
+     * @param records - Data set, one document per record
+     * @param options - Export options applied to all documents
+     * @param settings - Filename template and archive name
+     * @param control - Progress callback and abort signal
+     * @returns The generated ZIP archive
+     */
+    merge(
+        format: string,
+        template: string,
+        records: MergeRecord[],
+        options: Partial<ExportOptions> = {},
+        settings: MergeSettings = {},
+        control: ExportControl = {},
+    ): Promise<ExportResult> {
+        return this.run({ type: 'merge', format, template, records, options, settings }, control);
+    }
+
+    /**
+     * Sends a job to the worker. Aborting the control's signal cancels
+     * the job in the worker and rejects immediately with an
+     * ExportAbortedError.
+     *
+     * @param job - Export, bundle or merge to run
+     * @param control - Progress callback and abort signal
+     * @returns The generated file
+     */
+    private run(job: ExportWorkerJob, control: ExportControl): Promise<ExportResult> {
+        const { signal } = control;
+
+        if (signal?.aborted) {
+            return Promise.reject(new ExportAbortedError());
+        }
+
+        const id = this.nextId++;
+
+        return new Promise<ExportResult>((resolve, reject) => {
+            const onAbort = (): void => {
+                this.pending.delete(id);
+                this.send({ type: 'cancel', id });
+                reject(new ExportAbortedError());
+            };
+            const cleanUp = (): void => signal?.removeEventListener('abort', onAbort);
+
+            this.pending.set(id, {
+                control,
+                resolve: result => { cleanUp(); resolve(result); },
+                reject: reason => { cleanUp(); reject(reason); },
+            });
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.send({ ...job, id });
+        });
+    }
+
+    /**
+     * Posts a request to the worker, starting it if necessary.
+     *
+     * @param request - Request to send
+     */
+    private send(request: ExportWorkerRequest): void {
+        if (!this.worker) {
+            this.worker = this.create();
+            this.worker.addEventListener('message', (event: MessageEvent<ExportWorkerResponse>) => this.receive(event.data));
+            this.worker.addEventListener('error', event => this.fail(new ExportError('WORKER_FAILED', `Export worker failed: ${event.message || 'unknown error'}`)));
+        }
+        this.worker.postMessage(request);
+    }
+
+    /**
+     * Handles a message from the worker. Messages of cancelled jobs are ignored.
+     *
+     * @param response - Message from the worker
+     */
+    private receive(response: ExportWorkerResponse): void {
+        const job = this.pending.get(response.id);
+
+        if (!job) {
+            return;
+        }
+
+        switch (response.type) {
+            case 'progress':
+                job.control.onProgress?.(response.progress);
+                break;
+            case 'result':
+                this.pending.delete(response.id);
+                job.resolve(response.result);
+                break;
+            case 'error':
+                this.pending.delete(response.id);
+                job.reject(restoreExportError(response.error));
+                break;
+        }
+    }
+
+    /**
+     * Rejects all pending exports after the worker crashed. The next export
+     * starts a new worker.
+     *
+     * @param error - Reason for the failure
+     */
+    private fail(error: ExportError): void {
+        this.worker?.terminate();
+        this.worker = null;
+        this.pending.forEach(job => job.reject(error));
+        this.pending.clear();
+    }
+}
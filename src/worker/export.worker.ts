@@ -0,0 +1,102 @@
+import type { ExportControl, ExportResult } from '../interfaces';
+import { exporterRegistry } from '../registry';
+import { toExportError } from '../errors';
+import { ExportBundler } from '../bundle';
+import { MailMerge } from '../merge';
+import type { ExportWorkerJob, ExportWorkerRequest, ExportWorkerResponse } from './messages';
+
+/**
+ * Export Worker
+ * 
+ * Runs exports off the main thread. The worker is a Client of the Factory
+ * Method pattern like the page itself: it looks up the ExporterFactory of
+ * the requested format in the exporter registry, creates the exporter
+ * through the factory method and posts progress and the result back.
+ * Bundles and mail merges run here as well, with the factories of their
+ * formats. The file data is transferred, not copied.
+ */
+
+/**
+ * Abort controllers of the running exports, by export id.
+ */
+const running = new Map<number, AbortController>();
+
+/**
+ * Posts a message to the page.
+ * 
+ * @param message - Message to post
+ * @param transfer - Buffers handed over to the page
+ */
+function post(message: ExportWorkerResponse, transfer: Transferable[] = []): void {
+    self.postMessage(message, { transfer });
+}
+
+/**
+ * Runs a job and posts its progress and result.
+ * 
+ * @param request - Export, bundle or merge request from the page
+ */
+async function runJob(request: ExportWorkerJob & { id: number }): Promise<void> {
+    const { id } = request;
+    const controller = new AbortController();
+    running.set(id, controller);
+
+    try {
+        const result = await execute(request, {
+            signal: controller.signal,
+            onProgress: progress => post({ type: 'progress', id, progress }),
+        });
+        post({ type: 'result', id, result }, [result.data.buffer]);
+    } catch (error) {
+        post({ type: 'error', id, error: toExportError(error, jobLabel(request)).toJSON() });
+    } finally {
+        running.delete(id);
+    }
+}
+
+/**
+ * Creates the exporters of a job through their factories and runs them.
+ * 
+ * @param job - Job to run
+ * @param control - Progress callback and abort signal
+ * @returns The generated file
+ */
+function execute(job: ExportWorkerJob, control: ExportControl): Promise<ExportResult> {
+    switch (job.type) {
+        case 'export':
+            return exporterRegistry.get(job.format).createExporter(job.options).export(job.content, control);
+        case 'bundle': {
+            const bundler = new ExportBundler(job.formats.map(format => exporterRegistry.get(format)));
+            return bundler.bundle(job.documents, job.options, job.bundleName, control);
+        }
+        case 'merge':
+            return new MailMerge(exporterRegistry.get(job.format)).merge(job.template, job.records, job.options, job.settings, control);
+    }
+}
+
+/**
+ * Names a job in error messages of unexpected failures.
+ * 
+ * @param job - Failed job
+ * @returns Format or kind of the job
+ */
+function jobLabel(job: ExportWorkerJob): string {
+    switch (job.type) {
+        case 'export':
+            return job.format.toUpperCase();
+        case 'bundle':
+            return 'Bundle';
+        case 'merge':
+            return 'Mail merge';
+    }
+}
+
+self.addEventListener('message', (event: MessageEvent<ExportWorkerRequest>) => {
+    const request = event.data;
+
+    if (request.type === 'cancel') {
+        running.get(request.id)?.abort();
+    } else {
+        void runJob(request);
+    }
+});
@@ -0,0 +1,2 @@
+export { ExportWorker } from './ExportWorker';
+export type { ExportWorkerJob, ExportWorkerRequest, ExportWorkerResponse } from './messages';
@@ -0,0 +1,30 @@
+import type { ExportOptions, ExportProgress, ExportResult } from '../interfaces';
+import type { SerializedExportError } from '../errors';
+import type { BundleDocument } from '../bundle';
+import type { MergeRecord, MergeSettings } from '../merge';
+
+/**
+ * Work the export worker can run: a single export, a bundle of several
+ * formats (ExportBundler) or a mail merge (MailMerge). Formats are passed
+ * by id, the worker looks up their factories in its own registry.
+ */
+export type ExportWorkerJob =
+    | { type: 'export'; format: string; content: string; options: Partial<ExportOptions> }
+    | { type: 'bundle'; formats: string[]; documents: BundleDocument[]; options: Partial<ExportOptions>; bundleName?: string }
+    | { type: 'merge'; format: string; template: string; records: MergeRecord[]; options: Partial<ExportOptions>; settings: MergeSettings };
+
+/**
+ * Messages from the page to the export worker.
+ */
+export type ExportWorkerRequest =
+    | (ExportWorkerJob & { id: number })
+    | { type: 'cancel'; id: number };
+
+/**
+ * Messages from the export worker to the page. Every job ends with
+ * either a result or an error message.
+ */
+export type ExportWorkerResponse =
+    | { type: 'progress'; id: number; progress: ExportProgress }
+    | { type: 'result'; id: number; result: ExportResult }
+    | { type: 'error'; id: number; error: SerializedExportError };
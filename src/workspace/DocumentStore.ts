@@ -0,0 +1,142 @@
+import type { ExportOptions } from '../interfaces';
+
+/**
+ * A document of the workspace, with the export settings last used for it.
+ */
+export interface WorkspaceDocument {
+    id: string;
+
+    /**
+     * Name shown in the document list and used for "Save .md".
+     */
+    name: string;
+
+    /**
+     * Markdown formatted text.
+     */
+    content: string;
+
+    /**
+     * Id of the last selected export format, or null for the default.
+     */
+    format: string | null;
+
+    /**
+     * Export options last entered for the document.
+     */
+    options: Partial<ExportOptions>;
+
+    /**
+     * Time of the last change in milliseconds since the epoch.
+     */
+    updatedAt: number;
+}
+
+const DATABASE_NAME = 'markdown-exporter';
+const DATABASE_VERSION = 1;
+const DOCUMENTS = 'documents';
+const SETTINGS = 'settings';
+const ACTIVE_DOCUMENT = 'activeDocument';
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ *
+ * @param request - Pending request
+ * @returns The result of the request
+ */
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * DocumentStore
+ *
+ * Persists the workspace documents in the browser's IndexedDB, so drafts
+ * survive page reloads. The store also remembers which document was open
+ * last. Browser only.
+ */
+export class DocumentStore {
+    /**
+     * @param db - Open database connection
+     */
+    private constructor(private readonly db: IDBDatabase) {}
+
+    /**
+     * Opens the workspace database, creating it on first use.
+     *
+     * @param name - Database name
+     * @returns The opened store
+     * @throws The IndexedDB error if the database cannot be opened (e.g. storage disabled)
+     */
+    static async open(name: string = DATABASE_NAME): Promise<DocumentStore> {
+        const request = indexedDB.open(name, DATABASE_VERSION);
+
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(DOCUMENTS, { keyPath: 'id' });
+            request.result.createObjectStore(SETTINGS);
+        };
+
+        return new DocumentStore(await settle(request));
+    }
+
+    /**
+     * Loads all documents.
+     *
+     * @returns Documents, most recently changed first
+     */
+    async list(): Promise<WorkspaceDocument[]> {
+        const documents = await settle(this.objectStore(DOCUMENTS, 'readonly').getAll() as IDBRequest<WorkspaceDocument[]>);
+        return documents.sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    /**
+     * Saves a document, replacing a stored document with the same id.
+     *
+     * @param document - Document to save
+     */
+    async put(document: WorkspaceDocument): Promise<void> {
+        await settle(this.objectStore(DOCUMENTS, 'readwrite').put(document));
+    }
+
+    /**
+     * Deletes a document.
+     *
+     * @param id - Id of the document
+     */
+    async delete(id: string): Promise<void> {
+        await settle(this.objectStore(DOCUMENTS, 'readwrite').delete(id));
+    }
+
+    /**
+     * Reads the id of the document that was open last.
+     *
+     * @returns Document id, or null if none was recorded
+     */
+    async activeDocument(): Promise<string | null> {
+        const id = await settle(this.objectStore(SETTINGS, 'readonly').get(ACTIVE_DOCUMENT));
+        return typeof id === 'string' ? id : null;
+    }
+
+    /**
+     * Records the document that is open.
+     *
+     * @param id - Document id
+     */
+    async setActiveDocument(id: string): Promise<void> {
+        await settle(this.objectStore(SETTINGS, 'readwrite').put(id, ACTIVE_DOCUMENT));
+    }
+
+    /**
+     * Starts a transaction on a single object store.
+     *
+     * @param name - Object store name
+     * @param mode - Transaction mode
+     * @returns The object store of the transaction
+     */
+    private objectStore(name: string, mode: IDBTransactionMode): IDBObjectStore {
+        return this.db.transaction(name, mode).objectStore(name);
+    }
+}
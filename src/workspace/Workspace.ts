@@ -0,0 +1,249 @@
+import { DocumentStore } from './DocumentStore';
+import type { WorkspaceDocument } from './DocumentStore';
+
+/**
+ * Fields of a document the editor changes.
+ */
+export type DocumentChanges = Partial<Pick<WorkspaceDocument, 'content' | 'format' | 'options'>>;
+
+/**
+ * State of the autosave, reported after every change and save.
+ */
+export type SaveStatus = 'pending' | 'saved' | 'failed';
+
+/**
+ * Delay between the last change and the autosave in milliseconds.
+ */
+const AUTOSAVE_DELAY = 500;
+
+/**
+ * Name of new, empty documents.
+ */
+const UNTITLED = 'Untitled';
+
+/**
+ * Workspace
+ *
+ * The named documents of the editor, one of which is open at a time.
+ * Changes are kept in memory right away and written to the DocumentStore
+ * after a short pause, so typing does not cause a write per keystroke;
+ * flush() writes pending changes immediately (e.g. when the page is hidden).
+ *
+ * The workspace is never empty: removing the last document creates a new
+ * untitled one.
+ */
+export class Workspace {
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private readonly unsaved = new Set<string>();
+
+    /**
+     * @param store - Persistent storage
+     * @param documents - Loaded documents
+     * @param activeId - Id of the open document
+     * @param onStatus - Called when the autosave state changes
+     */
+    private constructor(
+        private readonly store: DocumentStore,
+        private documents: WorkspaceDocument[],
+        private activeId: string,
+        private readonly onStatus: (status: SaveStatus) => void,
+    ) {}
+
+    /**
+     * Loads the workspace and opens the document that was open last. On
+     * first use, a document is created from the given content and settings.
+     *
+     * @param initial - Content and settings of the first document
+     * @param onStatus - Called when the autosave state changes
+     * @param store - Persistent storage; defaults to the browser's IndexedDB
+     * @returns The loaded workspace
+     */
+    static async open(
+        initial: DocumentChanges = {},
+        onStatus: (status: SaveStatus) => void = () => {},
+        store?: DocumentStore,
+    ): Promise<Workspace> {
+        const documentStore = store ?? await DocumentStore.open();
+        const documents = await documentStore.list();
+
+        if (documents.length === 0) {
+            const first = Workspace.newDocument(UNTITLED, initial);
+            await documentStore.put(first);
+            documents.push(first);
+        }
+
+        const activeId = await documentStore.activeDocument();
+        const active = documents.find(document => document.id === activeId) ?? documents[0]!;
+
+        return new Workspace(documentStore, documents, active.id, onStatus);
+    }
+
+    /**
+     * The document open in the editor.
+     */
+    get active(): WorkspaceDocument {
+        return this.documents.find(document => document.id === this.activeId)!;
+    }
+
+    /**
+     * Lists the documents.
+     *
+     * @returns Documents sorted by name
+     */
+    list(): WorkspaceDocument[] {
+        return [...this.documents].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    }
+
+    /**
+     * Creates a document and opens it. The name is numbered if it is
+     * already taken.
+     *
+     * @param name - Name of the document
+     * @param initial - Content and settings of the document
+     * @returns The created document
+     */
+    async create(name: string = UNTITLED, initial: DocumentChanges = {}): Promise<WorkspaceDocument> {
+        const document = Workspace.newDocument(this.uniqueName(name.trim() || UNTITLED), initial);
+
+        this.documents.push(document);
+        await this.store.put(document);
+        await this.select(document.id);
+        return document;
+    }
+
+    /**
+     * Opens a document.
+     *
+     * @param id - Id of the document
+     */
+    async select(id: string): Promise<void> {
+        if (this.documents.some(document => document.id === id)) {
+            this.activeId = id;
+            await this.store.setActiveDocument(id);
+        }
+    }
+
+    /**
+     * Applies editor changes to the open document and schedules the
+     * autosave. Changes that leave the document as it is are ignored.
+     *
+     * @param changes - Changed fields
+     */
+    update(changes: DocumentChanges): void {
+        const document = this.active;
+        const changed = (Object.keys(changes) as Array<keyof DocumentChanges>)
+            .some(key => JSON.stringify(changes[key]) !== JSON.stringify(document[key]));
+
+        if (!changed) {
+            return;
+        }
+
+        Object.assign(document, changes, { updatedAt: Date.now() });
+        this.unsaved.add(document.id);
+        this.onStatus('pending');
+
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => void this.flush(), AUTOSAVE_DELAY);
+    }
+
+    /**
+     * Renames a document. The name is numbered if it is already taken.
+     *
+     * @param id - Id of the document
+     * @param name - New name
+     */
+    async rename(id: string, name: string): Promise<void> {
+        const document = this.documents.find(candidate => candidate.id === id);
+        const trimmed = name.trim();
+
+        if (!document || !trimmed || trimmed === document.name) {
+            return;
+        }
+
+        document.name = this.uniqueName(trimmed, id);
+        document.updatedAt = Date.now();
+        await this.store.put(document);
+    }
+
+    /**
+     * Deletes a document. If it was open, the next document is opened; if
+     * it was the last one, a new untitled document is created.
+     *
+     * @param id - Id of the document
+     */
+    async remove(id: string): Promise<void> {
+        this.documents = this.documents.filter(document => document.id !== id);
+        this.unsaved.delete(id);
+        await this.store.delete(id);
+
+        if (this.documents.length === 0) {
+            await this.create();
+        } else if (id === this.activeId) {
+            await this.select(this.list()[0]!.id);
+        }
+    }
+
+    /**
+     * Writes all pending changes to the store.
+     */
+    async flush(): Promise<void> {
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        const pending = this.documents.filter(document => this.unsaved.has(document.id));
+        if (pending.length === 0) {
+            return;
+        }
+
+        pending.forEach(document => this.unsaved.delete(document.id));
+        try {
+            await Promise.all(pending.map(document => this.store.put(document)));
+            this.onStatus(this.unsaved.size > 0 ? 'pending' : 'saved');
+        } catch (error) {
+            console.error('Workspace: Autosave failed', error);
+            pending.forEach(document => this.unsaved.add(document.id));
+            this.onStatus('failed');
+        }
+    }
+
+    /**
+     * Numbers a name that another document already uses (notes, notes-2, ...).
+     *
+     * @param name - Requested name
+     * @param ownId - Id of the document being renamed, whose own name is free
+     * @returns Name no other document uses
+     */
+    private uniqueName(name: string, ownId: string | null = null): string {
+        const used = new Set(this.documents
+            .filter(document => document.id !== ownId)
+            .map(document => document.name.toLowerCase()));
+        let unique = name;
+
+        for (let counter = 2; used.has(unique.toLowerCase()); counter++) {
+            unique = `${name}-${counter}`;
+        }
+        return unique;
+    }
+
+    /**
+     * Creates a document that is not stored yet.
+     *
+     * @param name - Name of the document
+     * @param initial - Content and settings
+     * @returns The new document
+     */
+    private static newDocument(name: string, initial: DocumentChanges): WorkspaceDocument {
+        return {
+            id: crypto.randomUUID(),
+            name,
+            content: initial.content ?? '',
+            format: initial.format ?? null,
+            options: initial.options ?? {},
+            updatedAt: Date.now(),
+        };
+    }
+}
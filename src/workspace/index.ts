@@ -0,0 +1,4 @@
+export { Workspace } from './Workspace';
+export type { DocumentChanges, SaveStatus } from './Workspace';
+export { DocumentStore } from './DocumentStore';
+export type { WorkspaceDocument } from './DocumentStore';
@@ -7,6 +7,15 @@ export default defineConfig({
     outDir: '../dist',
     emptyOutDir: true,
   },
+  worker: {
+    // The export worker loads fonts lazily, which needs code splitting
+    format: 'es',
+  },
+  test: {
+    // Tests live next to the modules they cover
+    root: __dirname,
+    include: ['src/**/*.test.ts'],
+  },
   resolve: {
     alias: {
       '/src': resolve(__dirname, './src'),